@@ -1,4 +1,5 @@
 import * as rb from "ragged-blocks";
+import { fontMeasure, loadFont } from "ragged-blocks/dist/font-measure";
 import * as readline from "node:readline/promises";
 import Haskell from "tree-sitter-haskell";
 import Python from "tree-sitter-python";
@@ -153,7 +154,7 @@ function fmtTable(
  * same height and let its width be proportional to the length of its
  * contents.
  */
-function measure(text: string): rb.Rect {
+function measureProportional(text: string): rb.Rect {
   return {
     left: 0,
     right: text.length * 10,
@@ -229,7 +230,7 @@ function measureRuntime(srcPath: string, algoStr: Algo, iters: number): number {
   const src = fs.readFileSync(srcPath, { encoding: "utf8" });
   const testTree = parse(src, lang, settings);
   rb.randomizeFillColors(testTree);
-  let testTreeWithMeasurements = rb.measureLayoutTree(testTree, measure);
+  let testTreeWithMeasurements = rb.measureLayoutTree(testTree, measureProportional);
 
   const startTime = performance.now();
   for(let i = 0; i < iters; ++i) {
@@ -242,7 +243,7 @@ function measureRuntime(srcPath: string, algoStr: Algo, iters: number): number {
   return duration / iters;
 }
 
-function bench(srcPath: string, algoStr: Algo): BenchResult {
+function bench(srcPath: string, algoStr: Algo, measure: (text: string) => rb.Rect = measureProportional): BenchResult {
   console.log(`Working on ${algoStr}...`);
   const testAlgo = algoContrOfAlgoStr(algoStr);
   const ext = extname(srcPath);
@@ -550,6 +551,8 @@ async function main() {
     layoutCmd.addOption(algOption);
     layoutCmd.addOption(outOption);
     layoutCmd.option("-v --verbose", "Be verbose.", false);
+    layoutCmd.option("--font <path>", "Measure text with the given TrueType, OpenType, WOFF or WOFF2 font.");
+    layoutCmd.option("--font-size <number>", "The size of the font given by --font, in pixels.", "12");
     layoutCmd.action((srcPath, opt) => {
       const ext = extname(srcPath);
       const lang = (() => {
@@ -573,7 +576,10 @@ async function main() {
       }
 
       const algoStr = asAlgo(opt.algorithm);
-      const result = bench(srcPath, algoStr);
+      const measure = opt.font !== undefined
+        ? fontMeasure(loadFont(opt.font), Number(opt.fontSize))
+        : measureProportional;
+      const result = bench(srcPath, algoStr, measure);
 
       if(opt.verbose) {
         console.log("mean horz mesh distance: ", result.meanHorzMeshDistance);
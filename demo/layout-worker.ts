@@ -8,23 +8,12 @@ onmessage = (e: MessageEvent<WorkerMsg<any>>) => {
     try {
       const beginTime = performance.now();
 
-      const metricsIter = rb.eachAtom(data.layoutTree);
       const algo = rb.constructAlgoByName(data.algoName)(data.algoSettings);
       const layoutResult = algo.layout(data.layoutTree);
-      const text = new (class extends rb.Render {
-        render(svg: rb.Svg, _sty: rb.SVGStyle) {
-          for(const frag of layoutResult.fragmentsInfo()) {
-            const metrics = metricsIter.next().value as rb.Atom<rb.WithMeasurements>;
-            const text = svg.text(frag.text);
-            text.font("Inconsolata-Medium", 12);
-            text.move(frag.rect.left, frag.rect.top - metrics.rect.top);
-          }
-        }
-
-        boundingBox(): rb.Rect | null {
-          return null;
-        }
-      })();
+      const text = new rb.TextRendering(layoutResult, data.layoutTree, {
+        fontFamily: "Inconsolata-Medium",
+        fontSize: 12,
+      });
       let result: rb.Render = layoutResult;
 
       if(data.renderSettings.renderDistanceMesh) {
@@ -125,23 +125,12 @@ export default async function layout<A extends rb.AlgorithmName>(
 
         const beginTime = performance.now();
 
-        const metricsIter = rb.eachAtom(layoutTree);
         const algo = rb.constructAlgoByName(algoName)(algoSettings);
         const layoutResult = algo.layout(layoutTree);
-        const text = new (class extends rb.Render {
-          render(svg: rb.Svg, _sty: rb.SVGStyle) {
-            for(const frag of layoutResult.fragmentsInfo()) {
-              const metrics = metricsIter.next().value as rb.Atom<rb.WithMeasurements>;
-              const text = svg.text(frag.text);
-              text.font("Inconsolata-Medium", 12);
-              text.move(frag.rect.left, frag.rect.top - metrics.rect.top);
-            }
-          }
-
-          boundingBox(): rb.Rect | null {
-            return null;
-          }
-        })();
+        const text = new rb.TextRendering(layoutResult, layoutTree, {
+          fontFamily: "Inconsolata-Medium",
+          fontSize: 12,
+        });
         let result: rb.Render = layoutResult;
 
         if(renderSettings.renderDistanceMesh) {
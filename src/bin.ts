@@ -0,0 +1,10 @@
+/**
+ * The entry point of the command-line tool (see `cli.ts`), which is run
+ * with `tsx` from a checkout of the repository.
+ */
+
+import { main } from "./cli";
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
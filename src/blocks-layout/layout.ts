@@ -1,21 +1,58 @@
 import * as alt from "../layout-tree";
 import * as rlt from "../reassoc/layout-tree";
-import reassocLayoutTree from "../reassoc/reassoc-layout-tree";
-import { FragmentsInfo, FragmentInfo } from "../layout-tree";
-import { PolygonRendering, pathOfRect } from "../polygon";
-import { Svg, Render, SVGStyle } from "../render";
-import { Vector, add, zero } from "../vector";
+import reassocLayoutTree, { prefixOfLines, withPrefixLines } from "../reassoc/reassoc-layout-tree";
+import {
+  FragmentsInfo,
+  FragmentInfo,
+  HitTest,
+  LineInfo,
+  LinesInfo,
+  NodeOutline,
+  NodePath,
+  baselineRect,
+  linesOfFragments,
+  nodePaths,
+  paddingSides
+} from "../layout-tree";
+import { Point } from "../point";
+import { Polygon, PolygonRendering, pathOfRect } from "../polygon";
+import { nodeAtPoint, outlineAtPath } from "../hit-test";
+import { Render, RenderTarget, SVGStyle } from "../render";
+import { Vector, add, scale, zero } from "../vector";
 import { ViewSettings, SettingView } from "../settings";
 import { inflate, Rect, translate, union, clone, width, height } from "../rect";
+import { IncrementalLayout, cleanPrefix, nodePathsAfterPrefix } from "../incremental";
+import assert from "../assert";
+import { softWrap, sourceLineNumbers } from "../soft-wrap";
+import { DirectedLayoutResult, WritingDirection, logicalTree } from "../writing-direction";
+import { alignmentOffset } from "../vertical-align";
+import { isStrut, withMinimumSizes } from "../min-size";
 
 export type WithRelativeOffsets<A = {}> = {
-  JoinH:   { rhsRelOfs: Vector };
-  JoinV:   { rhsRelOfs: Vector };
+  JoinH:   { rhsRelOfs: Vector, relRect: Rect };
+  JoinV:   { rhsRelOfs: Vector, relRect: Rect };
   Atom:    { rect: Rect };
   Spacer:  { width: number };
   Wrap:    { relRect: Rect, childRelOfs: Vector };
 } & A;
 
+/**
+ * Find the rectangle taken up by a layout tree annotated with
+ * relative offsets, relative to the position at which it is placed.
+ *
+ * @param layoutTree The layout tree.
+ * @returns The rectangle, including the margin of a `Wrap`.
+ */
+function relRectOf(layoutTree: rlt.LayoutTree<WithRelativeOffsets>): Rect {
+  switch(layoutTree.type) {
+    case "JoinH":
+    case "JoinV": return clone(layoutTree.relRect);
+    case "Atom": return clone(layoutTree.rect);
+    case "Spacer": return { left: 0, right: layoutTree.width, top: 0, bottom: 0 };
+    case "Wrap": return inflate(layoutTree.relRect, paddingSides(layoutTree.margin ?? 0));
+  }
+}
+
 /**
  * Given a layout tree adorned with positioned rectangles, find the
  * outermost rectangle in the layout tree.
@@ -34,25 +71,62 @@ function outermostRect(layoutTree: rlt.LayoutTree<rlt.WithPositions>): Rect | nu
   }
 }
 
-class BlocksLayoutResult extends Render implements FragmentsInfo {
-  private layoutTree: rlt.LayoutTree<rlt.WithPositions>;
+class BlocksLayoutResult extends Render implements FragmentsInfo, HitTest, LinesInfo {
+  /**
+   * The reassociated tree, annotated with the final position of each
+   * node.
+   */
+  layoutTree: rlt.LayoutTree<rlt.WithPositions>;
+  /**
+   * The reassociated tree, annotated with the relative offset and
+   * size of each node. It has the same shape as `layoutTree`.
+   */
+  relative: rlt.LayoutTree<WithRelativeOffsets>;
+  /**
+   * The path to each `Node` of the input tree, in preorder. The
+   * `Wrap`s of `layoutTree` (also in preorder) correspond one-to-one
+   * with these paths.
+   */
+  paths: NodePath[];
+  /**
+   * The baseline of the first fragment of each line, or `undefined`
+   * for lines without fragments. The fragments of a line aren't
+   * necessarily aligned in the blocks layout, since each is offset by
+   * the padding of its enclosing blocks.
+   */
+  baselines: (number | undefined)[];
+  /**
+   * The line of the input tree of each line (see
+   * `sourceLineNumbers`).
+   */
+  sourceLines: number[];
 
-  constructor(layoutTree: rlt.LayoutTree<rlt.WithPositions>) {
+  constructor(
+    layoutTree: rlt.LayoutTree<rlt.WithPositions>,
+    relative: rlt.LayoutTree<WithRelativeOffsets>,
+    paths: NodePath[],
+    baselines: (number | undefined)[],
+    sourceLines: number[]
+  ) {
     super();
     this.layoutTree = layoutTree;
+    this.relative = relative;
+    this.paths = paths;
+    this.baselines = baselines;
+    this.sourceLines = sourceLines;
   }
 
-  render(svg: Svg, sty: SVGStyle): void {
-    const go = (root: rlt.LayoutTree<rlt.WithPositions>) => {
+  render(target: RenderTarget, sty: SVGStyle): void {
+    const go = (root: rlt.LayoutTree<rlt.WithPositions>, depth: number) => {
       switch(root.type) {
         case "JoinH":
         case "JoinV": {
-          go(root.lhs);
-          go(root.rhs);
+          go(root.lhs, depth);
+          go(root.rhs, depth);
         } break;
         case "Atom": {
           if(sty.debugFragmentBoundingBoxes) {
-            svg
+            target
               .rect(width(root.rect), height(root.rect))
               .fill("white")
               .stroke("black")
@@ -63,18 +137,18 @@ class BlocksLayoutResult extends Render implements FragmentsInfo {
         case "Wrap": {
           if(width(root.rect) > 0 && height(root.rect) > 0) {
             const p = pathOfRect(root.rect);
-            const r = new PolygonRendering([p]).withStyles({
+            const r = new PolygonRendering([p], root.id, depth + 1).withStyles({
               fill: "none",
               ...root.sty,
             });
-            r.render(svg, sty);
+            r.render(target, sty);
           }
-          go(root.child);
+          go(root.child, depth + 1);
         } break;
       }
     };
 
-    go(this.layoutTree);
+    go(this.layoutTree, 0);
   }
 
   boundingBox(): Rect | null {
@@ -96,10 +170,16 @@ class BlocksLayoutResult extends Render implements FragmentsInfo {
           go(root.rhs);
         } break;
         case "Atom": {
+          if(isStrut(root)) {
+            break;
+          }
+
           out.push({
             text: root.text,
             rect: root.rect,
-            lineNo
+            lineNo,
+            sourceLineNo: this.sourceLines[lineNo],
+            baseline: root.baseline
           });
         } break;
         case "Spacer": break;
@@ -112,10 +192,61 @@ class BlocksLayoutResult extends Render implements FragmentsInfo {
     go(this.layoutTree);
     return out;
   }
+
+  linesInfo(): LineInfo[] {
+    return linesOfFragments(this.fragmentsInfo(), this.baselines, this.sourceLines);
+  }
+
+  nodeOutlines(): NodeOutline[] {
+    let out: NodeOutline[] = [];
+    let wrapIndex = 0;
+    const go = (root: rlt.LayoutTree<rlt.WithPositions>) => {
+      switch(root.type) {
+        case "JoinH":
+        case "JoinV": {
+          go(root.lhs);
+          go(root.rhs);
+        } break;
+        case "Atom":
+        case "Spacer": break;
+        case "Wrap": {
+          const path = this.paths[wrapIndex++];
+          if(width(root.rect) > 0 && height(root.rect) > 0) {
+            out.push({ path, outline: [pathOfRect(root.rect)], id: root.id });
+          }
+          go(root.child);
+        } break;
+      }
+    };
+
+    go(this.layoutTree);
+    return out;
+  }
+
+  nodeAt(p: Point): NodePath | null {
+    return nodeAtPoint(this.nodeOutlines(), p);
+  }
+
+  outlineOf(path: NodePath): Polygon | null {
+    return outlineAtPath(this.nodeOutlines(), path);
+  }
 }
 
 export class BlocksLayoutSettings implements ViewSettings {
-  constructor() {
+  /**
+   * If set, lines which are wider than `maxWidth` are broken (see
+   * `softWrap`).
+   */
+  public maxWidth?: number;
+  /**
+   * The direction in which fragments advance (see
+   * `WritingDirection`). Defaults to `"LTR"`.
+   */
+  public direction?: WritingDirection;
+
+  constructor(maxWidth?: number, direction?: WritingDirection) {
+    this.maxWidth = maxWidth;
+    this.direction = direction;
   }
 
   viewSettings(): SettingView[] {
@@ -123,16 +254,54 @@ export class BlocksLayoutSettings implements ViewSettings {
   }
 
   clone() {
-    return new BlocksLayoutSettings();
+    return new BlocksLayoutSettings(this.maxWidth, this.direction);
   }
 }
 
-export default class BlocksLayout {
-  constructor(_settings: BlocksLayoutSettings) {}
+export default class BlocksLayout implements IncrementalLayout<DirectedLayoutResult<BlocksLayoutResult>> {
+  private settings: BlocksLayoutSettings;
+
+  constructor(settings: BlocksLayoutSettings) {
+    this.settings = settings;
+  }
+
+  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): DirectedLayoutResult<BlocksLayoutResult> {
+    return this.relayout(layoutTree, null, 0);
+  }
+
+  relayout(
+    layoutTree: alt.LayoutTree<alt.WithMeasurements>,
+    previous: DirectedLayoutResult<BlocksLayoutResult> | null,
+    firstDirtyLine: number
+  ): DirectedLayoutResult<BlocksLayoutResult> {
+    const direction = this.settings.direction ?? "LTR";
+
+    // The lines of the clean prefix of `layoutTree` (see
+    // `cleanPrefix`) are taken from the `previous` layout: a block
+    // only depends on its contents, so the subtree which holds these
+    // lines keeps both its relative and its final position. Only the
+    // rest of the root `Node` is laid out.
+    const prev = previous?.logical ?? null;
+    const prefix = prev !== null ? cleanPrefix(layoutTree, firstDirtyLine) : null;
+    const prefixLines = prefix !== null ? prev!.sourceLines.indexOf(prefix.lines) : 0;
+    assert(prefixLines >= 0, "The previous layout doesn't have the lines of the prefix");
+    const prefixRel = prefix !== null ? prefixOfLines(prev!.relative, prefixLines) : null;
+    const prefixPos = prefix !== null ? prefixOfLines(prev!.layoutTree, prefixLines) : null;
+    assert(prefix === null || (prefixRel !== null && prefixPos !== null), "The previous layout doesn't have the lines of the prefix");
+    const tree = prefix?.rest ?? layoutTree;
 
-  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): BlocksLayoutResult {
+    // Note: Soft wrapping doesn't change the `Node`s of the tree, so
+    // the paths of the `Node`s of the input tree still correspond to
+    // the `Wrap`s of the wrapped tree.
+    const wrapped = this.settings.maxWidth !== undefined
+      ? softWrap(tree, this.settings.maxWidth, layoutTree)
+      : tree;
     const empty: rlt.LayoutTree<rlt.WithMeasurements> = { type: "Spacer", width: 0, text: "" };
-    const rlt: rlt.LayoutTree<rlt.WithMeasurements> = reassocLayoutTree(layoutTree, empty);
+    let rlt: rlt.LayoutTree<rlt.WithMeasurements> = reassocLayoutTree(withMinimumSizes(logicalTree(wrapped, direction)), empty);
+    if(prefixRel !== null) {
+      assert(rlt.type === "Wrap");
+      rlt = { ...rlt, child: withPrefixLines(rlt.child, prefixRel) };
+    }
 
     // Note: The blocks layout algorithm is implemented in two stages:
     // First, the layout tree is traversed to find the relative offset
@@ -151,33 +320,103 @@ export default class BlocksLayout {
      * tree.
      */
     const goRel = (root: rlt.LayoutTree<rlt.WithMeasurements>): [rlt.LayoutTree<WithRelativeOffsets>, Rect] => {
+      if(prefixRel !== null && root === prefixRel) {
+        return [prefixRel, relRectOf(prefixRel)];
+      }
+
       switch(root.type) {
         case "JoinH": {
-          const [lhs, lhsRelRect] = goRel(root.lhs);
-          let [rhs, rhsRelRect] = goRel(root.rhs);
-          const ofs = { dx: lhsRelRect.right - rhsRelRect.left, dy: 0 };
-          rhsRelRect = translate(rhsRelRect, ofs);
-          return [{ ...root, lhs, rhs, rhsRelOfs: ofs }, union(lhsRelRect, rhsRelRect)];
+          // Note: A `Wrap` with a `verticalAlign` is aligned with all
+          // of its siblings on the line, not just those to its left,
+          // so we lay out the whole chain of `JoinH`s at once.
+          let items: rlt.LayoutTree<rlt.WithMeasurements>[] = [];
+          const flatten = (lt: rlt.LayoutTree<rlt.WithMeasurements>) => {
+            if(lt.type === "JoinH") {
+              flatten(lt.lhs);
+              flatten(lt.rhs);
+            } else {
+              items.push(lt);
+            }
+          };
+          flatten(root);
+
+          const relItems = items.map(goRel);
+          const isAligned = (lt: rlt.LayoutTree<rlt.WithMeasurements>) =>
+            lt.type === "Wrap" && (lt.verticalAlign ?? "baseline") !== "baseline";
+
+          // The unaligned items are the reference for the aligned ones.
+          // If every block on the line is aligned, the blocks are
+          // aligned with the first of them.
+          let reference: Rect | undefined;
+          items.forEach((item, i) => {
+            if(item.type !== "Spacer" && !isAligned(item)) {
+              const rect = relItems[i][1];
+              reference = reference === undefined ? clone(rect) : union(reference, rect);
+            }
+          });
+          reference = reference ?? relItems.find((_, i) => isAligned(items[i]))?.[1];
+
+          let itemOfs: Vector[] = [];
+          let right = 0;
+          items.forEach((item, i) => {
+            const rect = relItems[i][1];
+            const dx = i === 0 ? 0 : right - rect.left;
+            const dy = isAligned(item) && reference !== undefined
+              ? alignmentOffset((item as rlt.Wrap).verticalAlign!, rect, reference)
+              : 0;
+            itemOfs.push({ dx, dy });
+            right = i === 0 ? rect.right : Math.max(right, rect.right + dx);
+          });
+
+          // Offsets are relative to the leftmost item, which is where
+          // `goFinalize` places this `JoinH`.
+          const origin = scale(itemOfs[0], -1);
+          itemOfs = itemOfs.map(o => add(o, origin));
+
+          // Each `JoinH` is placed at the offset of its leftmost
+          // item, so its `relRect` is relative to that offset.
+          let index = 0;
+          const rebuild = (lt: rlt.LayoutTree<rlt.WithMeasurements>): [rlt.LayoutTree<WithRelativeOffsets>, Vector, Rect] => {
+            if(lt.type === "JoinH") {
+              const [lhs, lhsOfs, lhsRect] = rebuild(lt.lhs);
+              const [rhs, rhsOfs, rhsRect] = rebuild(lt.rhs);
+              const rect = union(lhsRect, rhsRect);
+              const relRect = translate(rect, scale(lhsOfs, -1));
+              return [{ ...lt, lhs, rhs, rhsRelOfs: add(rhsOfs, scale(lhsOfs, -1)), relRect }, lhsOfs, rect];
+            }
+            const i = index++;
+            return [relItems[i][0], itemOfs[i], translate(relItems[i][1], itemOfs[i])];
+          };
+
+          const [relTree, _, relRect] = rebuild(root);
+          return [relTree, relRect];
         }
         case "JoinV": {
           const [lhs, lhsRelRect] = goRel(root.lhs);
           let [rhs, rhsRelRect] = goRel(root.rhs);
           const ofs = { dx: 0, dy: lhsRelRect.bottom - rhsRelRect.top };
           rhsRelRect = translate(rhsRelRect, ofs);
-          return [{ ...root, lhs, rhs, rhsRelOfs: ofs }, union(lhsRelRect, rhsRelRect)];
+          const relRect = union(lhsRelRect, rhsRelRect);
+          return [{ ...root, lhs, rhs, rhsRelOfs: ofs, relRect }, clone(relRect)];
         }
         case "Atom": {
-          return [{ ...root }, clone(root.rect)];
+          const rect = baselineRect(root);
+          return [{ ...root, rect }, clone(rect)];
         }
         case "Spacer": {
           return [{ ...root }, { left: 0, right: root.width, top: 0, bottom: 0 }];
         }
         case "Wrap": {
           let [child, childRelRect] = goRel(root.child);
-          const ofs = { dx: root.padding, dy: root.padding };
+          const padding = paddingSides(root.padding);
+          const ofs = { dx: padding.left, dy: padding.top };
           childRelRect = translate(childRelRect, ofs);
-          const relRect = inflate(childRelRect, root.padding);
-          return [{ ...root, child, childRelOfs: ofs, relRect }, relRect];
+          const relRect = inflate(childRelRect, padding);
+
+          // The margin isn't part of the block, but its neighbours
+          // are stacked beside the block and its margin.
+          const margin = paddingSides(root.margin ?? 0);
+          return [{ ...root, child, childRelOfs: ofs, relRect }, inflate(relRect, margin)];
         }
       }
     };
@@ -185,19 +424,41 @@ export default class BlocksLayout {
     /**
      * Given a layout tree annotated with the relative offset and size
      * of each node, return a layout tree annotated with the final
-     * position of each node in the tree.
+     * position of each node in the tree. Since the `rect` of each
+     * atom has been translated so that its baseline is at `y = 0`
+     * (see `baselineRect`), the baseline of each atom is the vertical
+     * offset applied to it; we also record the baseline of the first
+     * atom of each line.
      */
+    let lineNo = 0;
+    const baselines: (number | undefined)[] = [undefined];
     const goFinalize = (root: rlt.LayoutTree<WithRelativeOffsets>, ofs: Vector): rlt.LayoutTree<rlt.WithPositions> => {
+      if(prefixPos !== null && root === prefixRel) {
+        // The prefix is at the top left of the root `Wrap` in both
+        // layouts, so it is already in its final position.
+        baselines.splice(0, prefixLines, ...prev!.baselines.slice(0, prefixLines));
+        lineNo = prefixLines - 1;
+        return prefixPos;
+      }
+
       switch(root.type) {
-        case "JoinH":
+        case "JoinH": {
+          const lhs = goFinalize(root.lhs, ofs);
+          const rhs = goFinalize(root.rhs, add(ofs, root.rhsRelOfs));
+          return { ...root, lhs, rhs };
+        }
         case "JoinV": {
           const lhs = goFinalize(root.lhs, ofs);
+          baselines[++lineNo] = undefined;
           const rhs = goFinalize(root.rhs, add(ofs, root.rhsRelOfs));
           return { ...root, lhs, rhs };
         }
         case "Atom": {
           const rect = translate(root.rect, ofs);
-          return { ...root, rect };
+          if(baselines[lineNo] === undefined) {
+            baselines[lineNo] = ofs.dy;
+          }
+          return { ...root, rect, baseline: ofs.dy };
         }
         case "Spacer":
           return { ...root };
@@ -210,6 +471,18 @@ export default class BlocksLayout {
     };
 
     const [withRelRects, _] = goRel(rlt);
-    return new BlocksLayoutResult(goFinalize(withRelRects, zero()));
+    const positioned = goFinalize(withRelRects, zero());
+    const sourceLines = [
+      ...prev?.sourceLines.slice(0, prefixLines) ?? [],
+      ...sourceLineNumbers(wrapped).map(lineNo => lineNo + (prefix?.lines ?? 0))
+    ];
+    const result = new BlocksLayoutResult(
+      positioned,
+      withRelRects,
+      prefix !== null ? nodePathsAfterPrefix(prev!.paths, prefix) : nodePaths(layoutTree),
+      baselines,
+      sourceLines
+    );
+    return new DirectedLayoutResult(result, direction);
   }
 }
@@ -0,0 +1,219 @@
+import { DrawElement, FillAndStroke, PathCommand, Render, RenderTarget, renderTo, solidColorOfPaint } from "./render";
+
+/**
+ * The subset of the HTML `CanvasRenderingContext2D` interface used by
+ * `CanvasTarget`. Browser canvas contexts, as well as the contexts
+ * of node canvas implementations, satisfy this interface.
+ */
+export interface Canvas2DContext {
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  globalAlpha: number;
+  font: string;
+  textBaseline: string;
+
+  save(): void;
+  restore(): void;
+  scale(x: number, y: number): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  setLineDash(segments: number[]): void;
+
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void;
+  closePath(): void;
+  fill(): void;
+  stroke(): void;
+
+  fillRect(x: number, y: number, w: number, h: number): void;
+  strokeRect(x: number, y: number, w: number, h: number): void;
+  fillText(text: string, x: number, y: number): void;
+}
+
+/**
+ * Find the color with which to fill an element, following the SVG
+ * convention that an unspecified fill is black. Gradients and
+ * patterns are approximated by a solid color.
+ *
+ * @param fs The fill and stroke of the element.
+ * @returns The fill color, or `null` if the element isn't filled.
+ */
+function fillOf(fs: FillAndStroke): string | null {
+  const fill = solidColorOfPaint(fs.fill ?? "black");
+  if(fill === "none") {
+    return null;
+  }
+  return fill;
+}
+
+/**
+ * Fill the current path (or the given rectangle) of `ctx` with the
+ * fill of `fs`.
+ */
+function fill(ctx: Canvas2DContext, fs: FillAndStroke, rect?: [number, number, number, number]) {
+  const color = fillOf(fs);
+  if(color === null) {
+    return;
+  }
+
+  ctx.globalAlpha = fs.fillOpacity ?? 1;
+  ctx.fillStyle = color;
+  if(rect) {
+    ctx.fillRect(...rect);
+  } else {
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Stroke the current path (or the given rectangle) of `ctx` with the
+ * stroke of `fs`.
+ */
+function stroke(ctx: Canvas2DContext, fs: FillAndStroke, rect?: [number, number, number, number]) {
+  const color = strokeOf(fs);
+  if(color === null) {
+    return;
+  }
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = fs.strokeWidth ?? 1;
+  ctx.setLineDash(fs.strokeDasharray ?? []);
+  if(rect) {
+    ctx.strokeRect(...rect);
+  } else {
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+}
+
+/**
+ * Find the color with which to stroke an element, following the SVG
+ * convention that an unspecified stroke is not drawn.
+ *
+ * @param fs The fill and stroke of the element.
+ * @returns The stroke color, or `null` if the element isn't stroked.
+ */
+function strokeOf(fs: FillAndStroke): string | null {
+  if(fs.stroke === undefined || fs.stroke === "none") {
+    return null;
+  }
+  return fs.stroke;
+}
+
+/**
+ * Trace a path on `ctx`.
+ *
+ * @param ctx The context on which to trace the path.
+ * @param commands The commands making up the path.
+ */
+function tracePath(ctx: Canvas2DContext, commands: PathCommand[]) {
+  ctx.beginPath();
+  for(const cmd of commands) {
+    switch(cmd.type) {
+      case "MoveTo": ctx.moveTo(cmd.x, cmd.y); break;
+      case "LineTo": ctx.lineTo(cmd.x, cmd.y); break;
+      case "ArcTo": ctx.arcTo(cmd.corner.x, cmd.corner.y, cmd.x, cmd.y, cmd.radius); break;
+      case "Close": ctx.closePath(); break;
+    }
+  }
+}
+
+function drawElement(ctx: Canvas2DContext, elt: DrawElement) {
+  switch(elt.type) {
+    case "text": {
+      if(elt.fontFamily !== undefined && elt.fontSize !== undefined) {
+        ctx.font = `${elt.fontSize}px ${elt.fontFamily}`;
+      }
+      ctx.textBaseline = elt.dominantBaseline === "text-before-edge" ? "top" : "alphabetic";
+      ctx.fillStyle = elt.fill ?? "black";
+      if(elt.rotate !== undefined && elt.rotate !== 0) {
+        ctx.save();
+        ctx.translate(elt.x, elt.y);
+        ctx.rotate(elt.rotate * Math.PI / 180);
+        ctx.fillText(elt.text, 0, 0);
+        ctx.restore();
+      } else {
+        ctx.fillText(elt.text, elt.x, elt.y);
+      }
+    } break;
+    case "rect": {
+      const rect: [number, number, number, number] = [elt.x, elt.y, elt.width, elt.height];
+      fill(ctx, elt, rect);
+      stroke(ctx, elt, rect);
+    } break;
+    case "path": {
+      tracePath(ctx, elt.commands);
+      fill(ctx, elt);
+      stroke(ctx, elt);
+    } break;
+    case "line": {
+      ctx.beginPath();
+      ctx.moveTo(elt.x1, elt.y1);
+      ctx.lineTo(elt.x2, elt.y2);
+      stroke(ctx, elt);
+    } break;
+  }
+}
+
+/**
+ * A `RenderTarget` which draws its elements onto a 2D canvas context.
+ * Gradient and pattern fills are drawn with a solid color (see
+ * `solidColorOfPaint`), blurs are not drawn, and presentation
+ * attributes and class names are ignored.
+ */
+export class CanvasTarget extends RenderTarget {
+  /**
+   * Draw the elements of this target onto `ctx`. If a viewbox is set,
+   * the viewbox is mapped onto the rectangle from `(0, 0)` to
+   * `(width, height)` in the current coordinate system of `ctx`.
+   * The state of `ctx` is restored once drawing is finished.
+   *
+   * @param ctx The context to draw onto.
+   */
+  draw(ctx: Canvas2DContext) {
+    ctx.save();
+
+    const vb = this.viewbox();
+    const size = this.outputSize();
+    if(vb !== undefined && size !== null) {
+      ctx.scale(size.sx, size.sy);
+      ctx.translate(-vb.left, -vb.top);
+    }
+
+    for(const elt of this.elements) {
+      drawElement(ctx, elt);
+    }
+
+    ctx.restore();
+  }
+}
+
+/**
+ * Draw a value which extends `Render` onto a canvas context. The top
+ * left corner of the value's bounding box (less `padding`) is drawn
+ * at the origin of `ctx`.
+ *
+ * @param a The value to draw.
+ * @param ctx The context to draw onto.
+ * @param padding The amount of space to leave around the bounding
+ * box of `a`.
+ * @param debugFragmentBoundingBoxes An optional flag which, when
+ * true, will instruct the renderer to include renderings of the base
+ * fragment rectangles in the output.
+ * @returns The target which was drawn. Its `viewbox` is the region
+ * of `a` which was drawn.
+ */
+export function renderToCanvas<A extends Render>(
+  a: A,
+  ctx: Canvas2DContext,
+  padding?: number,
+  debugFragmentBoundingBoxes?: boolean
+): CanvasTarget {
+  const target = renderTo(new CanvasTarget(), a, padding, debugFragmentBoundingBoxes);
+  target.draw(ctx);
+  return target;
+}
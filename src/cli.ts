@@ -0,0 +1,493 @@
+/**
+ * This module implements a command-line tool which lays out a file and
+ * renders it to SVG or PNG, so that figures can be generated by build
+ * scripts. Run it (see `bin.ts`) with `tsx`, e.g.
+ *
+ *     npx tsx src/bin.ts example.py --language tree-sitter-python \
+ *       --style-sheet python.css --algorithm S-Blocks -o example.svg
+ *
+ * The tool only runs from a checkout of the repository. It isn't a
+ * `bin` of the package, since the compiled modules in `dist` (like
+ * the rest of the library) are meant for bundlers, and Node can't run
+ * them directly.
+ *
+ * The input (a file, or standard input) is one of:
+ *
+ * - A source file, which is parsed with a tree-sitter grammar and
+ *   turned into a `LayoutTree` by `fromTreeSitter`, using the rules of
+ *   a style sheet (see `StyleSheet`). The `tree-sitter` package and
+ *   the grammar's package must be installed alongside this one.
+ * - The markup format (see `parseMarkup`).
+ * - A layout tree document (see `layoutTreeFromJson`), which is
+ *   already measured.
+ *
+ * Source files and markup are measured with the metrics of a font
+ * file (see `fontMeasure`), or, without one, as monospace text.
+ * Writing PNG files requires the `sharp` package.
+ *
+ * Like `font-measure.ts`, this module depends on Node's modules, so it
+ * isn't exported from the package's index.
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { extname } from "path";
+import { parseArgs } from "util";
+import { AlgorithmName, Settings, constructAlgoByName } from "./index";
+import { Font, fontMeasure, loadFont } from "./font-measure";
+import { JsonValidationError, layoutTreeFromJson } from "./json";
+import { LayoutTree, WithMeasurements, measureLayoutTree } from "./layout-tree";
+import { parseMarkup } from "./markup";
+import { Rect } from "./rect";
+import { TextRendering, isIdPrefix, toSVG } from "./render";
+import { StyleSheet } from "./selectors";
+import { BlocksLayoutSettings } from "./blocks-layout/layout";
+import { PebbleLayoutSettings } from "./pebble-layout/layout";
+import { OutlinedRocksLayoutSettings, RocksLayoutSettings } from "./rocks-layout/layout";
+import { SBlocksLayoutSettings } from "./s-blocks-layout/layout";
+import { ViewSettings } from "./settings";
+import { ParseError } from "./style";
+import { advanceColumn } from "./text-columns";
+import { SyntaxTree, fromTreeSitter } from "./tree-sitter";
+
+const USAGE = `Usage: ragged-blocks [options] [input]
+
+Lay out a source file, markup or layout tree, and render it to SVG or
+PNG. The input is read from standard input if it's omitted or "-".
+
+Input:
+  -f, --format <format>      "source", "markup" or "json" (by default,
+                             "json" for .json files, "source" if a
+                             language is given, and "markup" otherwise)
+  -l, --language <module>    The tree-sitter grammar of a source file,
+                             as a package name with an optional export
+                             (e.g. tree-sitter-typescript:typescript)
+  -s, --style-sheet <file>   The style sheet of a source file
+  --font <file>              Measure text with a font file
+  --font-size <number>       The font size, in pixels (default: 12)
+  --font-family <name>       The font family of the rendered text
+                             (default: monospace)
+
+Layout:
+  -a, --algorithm <name>     L1P, L1S, L1S+, Blocks or S-Blocks
+                             (default: L1S)
+  --set <key>=<value>        Change a setting of the algorithm (may be
+                             repeated)
+  --list-settings            List the settings of the algorithm
+
+Output:
+  -o, --output <file>        The output file (default: standard output)
+  -t, --to <format>          "svg" or "png" (by default, the output
+                             file's extension, or "svg")
+  --css <file>               Embed a CSS style sheet in the SVG
+  --id-prefix <prefix>       The prefix of the ids defined in the SVG,
+                             for inlining several SVGs in a document
+                             (default: rb)
+  --padding <number>         The padding around the image (default: 10)
+  --scale <number>           The scale of a PNG image (default: 1)
+  -h, --help                 Show this help
+`;
+
+/**
+ * An error in the command line, or in the input which it names.
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export type InputFormat = "source" | "markup" | "json";
+
+export type OutputFormat = "svg" | "png";
+
+/**
+ * The options given on the command line.
+ */
+export type CliOptions = {
+  /**
+   * The input file, or `undefined` for standard input.
+   */
+  input?: string;
+  format: InputFormat;
+  /**
+   * The tree-sitter grammar, as `package` or `package:export`.
+   */
+  language?: string;
+  styleSheet?: string;
+  font?: string;
+  fontSize: number;
+  fontFamily: string;
+  algorithm: AlgorithmName;
+  /**
+   * The settings to change, as `key=value`.
+   */
+  settings: string[];
+  listSettings: boolean;
+  /**
+   * The output file, or `undefined` for standard output.
+   */
+  output?: string;
+  to: OutputFormat;
+  css?: string;
+  /**
+   * The prefix of the ids defined in the SVG (see `Svg.idPrefix`).
+   */
+  idPrefix?: string;
+  padding: number;
+  scale: number;
+  help: boolean;
+};
+
+/**
+ * The optional packages which the tool loads when they're needed.
+ * They're named by variables so that their types aren't required.
+ */
+const TREE_SITTER: string = "tree-sitter";
+const SHARP: string = "sharp";
+
+/**
+ * The exports of a grammar's package. The exports of a CommonJS
+ * package are also its `default` export.
+ */
+type GrammarModule = {
+  default?: { [name: string]: unknown };
+  [name: string]: unknown;
+};
+
+/**
+ * The parts of a tree-sitter `Parser` which the tool uses.
+ */
+interface TreeSitterParser {
+  setLanguage(language: unknown): void;
+  parse(text: string): SyntaxTree;
+}
+
+/**
+ * The part of the `sharp` package which the tool uses.
+ */
+type Sharp = (input: Buffer, options: { density: number }) => {
+  png(): { toBuffer(): Promise<Buffer> };
+};
+
+const ALGORITHMS: AlgorithmName[] = ["L1P", "L1S", "L1S+", "Blocks", "S-Blocks"];
+
+function oneOf<T extends string>(value: string, options: readonly T[], what: string): T {
+  if(!(options as readonly string[]).includes(value)) {
+    throw new CliError(`Unknown ${what} "${value}" (expected one of ${options.join(", ")})`);
+  }
+  return value as T;
+}
+
+function toNumber(value: string, what: string): number {
+  const n = Number(value);
+  if(value.trim() === "" || !Number.isFinite(n)) {
+    throw new CliError(`Expected a number for ${what}, not "${value}"`);
+  }
+  return n;
+}
+
+/**
+ * Parse the command line.
+ *
+ * @param args The arguments, without the program's name.
+ * @returns The options which they give.
+ * @throws `CliError` if the arguments aren't valid.
+ */
+export function parseArguments(args: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        "format": { type: "string", short: "f" },
+        "language": { type: "string", short: "l" },
+        "style-sheet": { type: "string", short: "s" },
+        "font": { type: "string" },
+        "font-size": { type: "string", default: "12" },
+        "font-family": { type: "string", default: "monospace" },
+        "algorithm": { type: "string", short: "a", default: "L1S" },
+        "set": { type: "string", multiple: true, default: [] },
+        "list-settings": { type: "boolean", default: false },
+        "output": { type: "string", short: "o" },
+        "to": { type: "string", short: "t" },
+        "css": { type: "string" },
+        "id-prefix": { type: "string" },
+        "padding": { type: "string", default: "10" },
+        "scale": { type: "string", default: "1" },
+        "help": { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch(e) {
+    throw new CliError((e as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if(positionals.length > 1) {
+    throw new CliError(`Expected one input file, not ${positionals.length}`);
+  }
+
+  const input = positionals[0] === "-" ? undefined : positionals[0];
+  const output = values.output === "-" ? undefined : values.output;
+
+  let format: InputFormat;
+  if(values.format !== undefined) {
+    format = oneOf(values.format, ["source", "markup", "json"], "input format");
+  } else if(input !== undefined && extname(input) === ".json") {
+    format = "json";
+  } else {
+    format = values.language !== undefined ? "source" : "markup";
+  }
+
+  let to: OutputFormat;
+  if(values.to !== undefined) {
+    to = oneOf(values.to, ["svg", "png"], "output format");
+  } else {
+    to = output !== undefined && extname(output) === ".png" ? "png" : "svg";
+  }
+
+  const idPrefix = values["id-prefix"];
+  if(idPrefix !== undefined && !isIdPrefix(idPrefix)) {
+    throw new CliError(`Expected an XML name without colons for --id-prefix, not "${idPrefix}"`);
+  }
+
+  return {
+    input,
+    format,
+    language: values.language,
+    styleSheet: values["style-sheet"],
+    font: values.font,
+    fontSize: toNumber(values["font-size"], "--font-size"),
+    fontFamily: values["font-family"],
+    algorithm: oneOf(values.algorithm, ALGORITHMS, "algorithm"),
+    settings: values.set,
+    listSettings: values["list-settings"],
+    output,
+    to,
+    css: values.css,
+    idPrefix,
+    padding: toNumber(values.padding, "--padding"),
+    scale: toNumber(values.scale, "--scale"),
+    help: values.help,
+  };
+}
+
+/**
+ * Make the settings with which the command line lays out a tree with
+ * an algorithm, before they're changed with `--set`.
+ */
+export function defaultSettings<A extends AlgorithmName>(name: A): Settings<A>;
+export function defaultSettings(name: AlgorithmName): ViewSettings {
+  switch(name) {
+    case "L1P": return new PebbleLayoutSettings(10);
+    case "L1S": return new RocksLayoutSettings(10);
+    case "L1S+": return new OutlinedRocksLayoutSettings(10, true);
+    case "Blocks": return new BlocksLayoutSettings();
+    case "S-Blocks": return new SBlocksLayoutSettings(10);
+  }
+}
+
+/**
+ * Change settings through their `viewSettings`.
+ *
+ * @param settings The settings to change.
+ * @param assignments The changes, as `key=value`. The value of a
+ * toggle is `true` or `false`.
+ * @returns The changed settings (a copy, if there are any changes).
+ * @throws `CliError` if a setting doesn't exist, or its value isn't
+ * valid.
+ */
+export function applySettings<S extends ViewSettings>(settings: S, assignments: string[]): S {
+  for(const assignment of assignments) {
+    const eq = assignment.indexOf("=");
+    if(eq === -1) {
+      throw new CliError(`Expected a setting as <key>=<value>, not "${assignment}"`);
+    }
+
+    const key = assignment.slice(0, eq);
+    const value = assignment.slice(eq + 1);
+    const views = settings.viewSettings();
+    const view = views.find(view => view.key === key);
+    if(view === undefined) {
+      const keys = views.map(view => view.key).join(", ");
+      throw new CliError(`Unknown setting "${key}" (expected one of ${keys || "no settings"})`);
+    }
+
+    const toggle = view.asToggle();
+    const number = view.asNumber();
+    if(toggle !== null) {
+      settings = toggle.update(oneOf(value, ["true", "false"], `value of "${key}"`) === "true") as S;
+    } else if(number !== null) {
+      settings = number.update(toNumber(value, `"${key}"`)) as S;
+    }
+  }
+  return settings;
+}
+
+/**
+ * Read a text file (or, if `path` is `undefined`, standard input).
+ */
+function readText(path: string | undefined): string {
+  try {
+    return readFileSync(path ?? 0, "utf8");
+  } catch(e) {
+    throw new CliError(`Can't read ${path ?? "standard input"}: ${(e as Error).message}`);
+  }
+}
+
+function readFont(path: string): Font {
+  try {
+    return loadFont(path);
+  } catch(e) {
+    throw new CliError(`Can't read the font ${path}: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Measure text as monospace text, in which each column is 0.6 em wide
+ * (see `advanceColumn`).
+ */
+function monospaceMeasure(fontSize: number): (text: string) => Rect {
+  return (text: string) => ({
+    left: 0,
+    right: advanceColumn(text, 0) * 0.6 * fontSize,
+    top: -0.8 * fontSize,
+    bottom: 0.2 * fontSize,
+  });
+}
+
+/**
+ * Load a tree-sitter grammar from its package.
+ *
+ * @param language The package, as `package` or `package:export`.
+ */
+async function loadLanguage(language: string): Promise<unknown> {
+  const [specifier, name] = language.split(":");
+  let module: GrammarModule;
+  try {
+    module = await import(specifier);
+  } catch(e) {
+    throw new CliError(`Can't load the grammar "${specifier}": ${(e as Error).message}`);
+  }
+
+  if(name === undefined) {
+    return module.default ?? module;
+  }
+  const grammar = module[name] ?? module.default?.[name];
+  if(grammar === undefined) {
+    throw new CliError(`The grammar "${specifier}" doesn't export "${name}"`);
+  }
+  return grammar;
+}
+
+/**
+ * Parse a source file with tree-sitter, and build its `LayoutTree`.
+ */
+async function readSource(text: string, options: CliOptions): Promise<LayoutTree> {
+  if(options.language === undefined) {
+    throw new CliError("A source file needs a grammar (--language)");
+  }
+
+  let Parser: new () => TreeSitterParser;
+  try {
+    Parser = (await import(TREE_SITTER)).default;
+  } catch(e) {
+    throw new CliError(`Reading source files requires the "tree-sitter" package: ${(e as Error).message}`);
+  }
+
+  const parser = new Parser();
+  parser.setLanguage(await loadLanguage(options.language));
+  const sheet = options.styleSheet !== undefined
+    ? StyleSheet.parse(readText(options.styleSheet))
+    : undefined;
+  return fromTreeSitter(parser.parse(text), text, { sheet });
+}
+
+/**
+ * Read the input as a measured `LayoutTree`.
+ */
+async function readLayoutTree(text: string, options: CliOptions): Promise<LayoutTree<WithMeasurements>> {
+  if(options.format !== "source" && options.styleSheet !== undefined) {
+    throw new CliError("Only source files have style sheets (use --css to style the SVG)");
+  }
+
+  const measure = options.font !== undefined
+    ? fontMeasure(readFont(options.font), options.fontSize)
+    : monospaceMeasure(options.fontSize);
+  switch(options.format) {
+    case "source": return measureLayoutTree(await readSource(text, options), measure);
+    case "markup": return measureLayoutTree(parseMarkup(text).tree, measure);
+    case "json": return layoutTreeFromJson(text);
+  }
+}
+
+/**
+ * Lay out and render the input named by the command line.
+ *
+ * @param options The command line.
+ * @param text The text of the input.
+ * @returns The SVG text, or the bytes of the PNG image.
+ */
+export async function render(options: CliOptions, text: string): Promise<string | Uint8Array> {
+  const tree = await readLayoutTree(text, options);
+  const settings = applySettings(defaultSettings(options.algorithm), options.settings);
+  const result = constructAlgoByName(options.algorithm)(settings).layout(tree);
+  const textRendering = new TextRendering(result, tree, {
+    fontFamily: options.fontFamily,
+    fontSize: options.fontSize,
+  });
+
+  const css = options.css !== undefined ? readText(options.css) : undefined;
+  const svg = toSVG(result.stack(textRendering), options.padding, undefined, css, options.idPrefix);
+  if(options.to === "svg") {
+    return svg;
+  }
+
+  let sharp: Sharp;
+  try {
+    sharp = (await import(SHARP)).default;
+  } catch(e) {
+    throw new CliError(`Writing PNG files requires the "sharp" package: ${(e as Error).message}`);
+  }
+  return await sharp(Buffer.from(svg), { density: 72 * options.scale }).png().toBuffer();
+}
+
+/**
+ * Run the command-line tool.
+ *
+ * @param args The arguments, without the program's name.
+ * @returns The exit code.
+ */
+export async function main(args: string[]): Promise<number> {
+  try {
+    const options = parseArguments(args);
+    if(options.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+
+    if(options.listSettings) {
+      for(const view of defaultSettings(options.algorithm).viewSettings()) {
+        const value = view.asToggle()?.value ?? view.asNumber()?.value;
+        process.stdout.write(`${view.key}=${value}\t${view.description}\n`);
+      }
+      return 0;
+    }
+
+    const text = readText(options.input);
+    const out = await render(options, text);
+    if(options.output !== undefined) {
+      writeFileSync(options.output, out);
+    } else {
+      process.stdout.write(out);
+    }
+    return 0;
+  } catch(e) {
+    if(e instanceof CliError || e instanceof ParseError || e instanceof JsonValidationError) {
+      console.error(`ragged-blocks: ${e.message}`);
+      return 1;
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,620 @@
+/**
+ * This module measures text headlessly, using the metrics of a font
+ * file, so that a `LayoutTree` can be measured (see
+ * `measureLayoutTree`) outside of a browser. TrueType and OpenType
+ * fonts are supported, either bare or packaged as WOFF or WOFF2
+ * files.
+ *
+ * Only the metrics which determine the size of a fragment are read:
+ * the advance width of each glyph, the pair kerning of the `kern`
+ * table (or of the `kern` feature of the `GPOS` table), and the
+ * ascent and descent of the font. Shaping (ligatures, contextual
+ * substitutions and so on) isn't performed, so each character is
+ * measured as its own glyph.
+ *
+ * Since this module depends on Node's `fs` and `zlib` modules, it
+ * isn't exported from the package's index; import it from
+ * `ragged-blocks/dist/font-measure`.
+ */
+
+import { readFileSync } from "fs";
+import { brotliDecompressSync, inflateSync } from "zlib";
+import { Rect } from "./rect";
+import assert from "./assert";
+
+/**
+ * A big-endian reader over a region of a byte array.
+ */
+class Reader {
+  private view: DataView;
+
+  constructor(data: Uint8Array, offset: number = 0, length?: number) {
+    assert(offset >= 0 && offset <= data.byteLength, "offset is out of bounds");
+    this.view = new DataView(data.buffer, data.byteOffset + offset, length ?? data.byteLength - offset);
+  }
+
+  get length(): number {
+    return this.view.byteLength;
+  }
+
+  u8(ofs: number): number { return this.view.getUint8(ofs); }
+  u16(ofs: number): number { return this.view.getUint16(ofs); }
+  i16(ofs: number): number { return this.view.getInt16(ofs); }
+  u32(ofs: number): number { return this.view.getUint32(ofs); }
+
+  tag(ofs: number): string {
+    return String.fromCharCode(this.u8(ofs), this.u8(ofs + 1), this.u8(ofs + 2), this.u8(ofs + 3));
+  }
+}
+
+/**
+ * The tables of an sfnt font, by tag.
+ */
+type Tables = Map<string, Uint8Array>;
+
+/**
+ * Read the tables of a bare TrueType or OpenType font.
+ */
+function sfntTables(data: Uint8Array): Tables {
+  const r = new Reader(data);
+  const numTables = r.u16(4);
+  let out: Tables = new Map();
+  for(let i = 0; i < numTables; ++i) {
+    const rec = 12 + i * 16;
+    const offset = r.u32(rec + 8);
+    const length = r.u32(rec + 12);
+    out.set(r.tag(rec), data.subarray(offset, offset + length));
+  }
+  return out;
+}
+
+/**
+ * Read (and decompress) the tables of a WOFF font.
+ */
+function woffTables(data: Uint8Array): Tables {
+  const r = new Reader(data);
+  const numTables = r.u16(12);
+  let out: Tables = new Map();
+  for(let i = 0; i < numTables; ++i) {
+    const rec = 44 + i * 20;
+    const offset = r.u32(rec + 4);
+    const compLength = r.u32(rec + 8);
+    const origLength = r.u32(rec + 12);
+    const table = data.subarray(offset, offset + compLength);
+    out.set(r.tag(rec), compLength < origLength ? new Uint8Array(inflateSync(table)) : table);
+  }
+  return out;
+}
+
+/**
+ * The tags of the tables which may be identified by index in a WOFF2
+ * table directory.
+ */
+const WOFF2_KNOWN_TAGS = [
+  "cmap", "head", "hhea", "hmtx", "maxp", "name", "OS/2", "post", "cvt ", "fpgm", "glyf", "loca", "prep",
+  "CFF ", "VORG", "EBDT", "EBLC", "gasp", "hdmx", "kern", "LTSH", "PCLT", "VDMX", "vhea", "vmtx", "BASE",
+  "GDEF", "GPOS", "GSUB", "EBSC", "JSTF", "MATH", "CBDT", "CBLC", "COLR", "CPAL", "SVG ", "sbix", "acnt",
+  "avar", "bdat", "bloc", "bsln", "cvar", "fdsc", "feat", "fmtx", "fvar", "gvar", "hsty", "just", "lcar",
+  "mort", "morx", "opbd", "prop", "trak", "Zapf", "Silf", "Glat", "Gloc", "Feat", "Sill",
+];
+
+/**
+ * Read (and decompress) the tables of a WOFF2 font. Transformed
+ * tables are returned as they're stored; of the tables which this
+ * module reads, only `hmtx` may be transformed (see `hmtxAdvances`).
+ *
+ * @returns The tables of the font, and the tags of the tables which
+ * are transformed.
+ */
+function woff2Tables(data: Uint8Array): [Tables, Set<string>] {
+  const r = new Reader(data);
+  assert(r.tag(4) !== "ttcf", "WOFF2 font collections are not supported");
+  const numTables = r.u16(12);
+  const compressedLength = r.u32(20);
+
+  let ofs = 48;
+  const base128 = () => {
+    let acc = 0;
+    for(let i = 0; i < 5; ++i) {
+      const b = r.u8(ofs++);
+      acc = acc * 128 + (b & 0x7f);
+      if((b & 0x80) === 0) {
+        return acc;
+      }
+    }
+    assert(false, "malformed UIntBase128");
+  };
+
+  let entries: { tag: string, length: number, transformed: boolean }[] = [];
+  for(let i = 0; i < numTables; ++i) {
+    const flags = r.u8(ofs++);
+    let tag: string;
+    if((flags & 0x3f) === 0x3f) {
+      tag = r.tag(ofs);
+      ofs += 4;
+    } else {
+      tag = WOFF2_KNOWN_TAGS[flags & 0x3f];
+    }
+
+    // The null transform of the `glyf` and `loca` tables is version
+    // 3; for every other table, it's version 0.
+    const version = flags >> 6;
+    const transformed = tag === "glyf" || tag === "loca" ? version !== 3 : version !== 0;
+    const origLength = base128();
+    const length = transformed ? base128() : origLength;
+    entries.push({ tag, length, transformed });
+  }
+
+  const stream = new Uint8Array(brotliDecompressSync(data.subarray(ofs, ofs + compressedLength)));
+  let out: Tables = new Map();
+  let transformed = new Set<string>();
+  let tableOfs = 0;
+  for(const entry of entries) {
+    out.set(entry.tag, stream.subarray(tableOfs, tableOfs + entry.length));
+    if(entry.transformed) {
+      transformed.add(entry.tag);
+    }
+    tableOfs += entry.length;
+  }
+  return [out, transformed];
+}
+
+/**
+ * Read the advance width of each glyph from an `hmtx` table. Glyphs
+ * after the first `numberOfHMetrics` share the advance of the last
+ * of them.
+ *
+ * @param hmtx The `hmtx` table.
+ * @param numberOfHMetrics The number of advances in the table.
+ * @param transformed Whether the table has WOFF2's transform (in
+ * which a flags byte precedes the advances, and the side bearings are
+ * separated from them).
+ */
+function hmtxAdvances(hmtx: Uint8Array, numberOfHMetrics: number, transformed: boolean): number[] {
+  const r = new Reader(hmtx);
+  let out: number[] = [];
+  for(let i = 0; i < numberOfHMetrics; ++i) {
+    out.push(transformed ? r.u16(1 + i * 2) : r.u16(i * 4));
+  }
+  return out;
+}
+
+/**
+ * Read the mapping from code points to glyphs from a `cmap` table.
+ * Only the Unicode subtables of formats 4 and 12 are read.
+ */
+function cmapGlyphs(cmap: Uint8Array): Map<number, number> {
+  const r = new Reader(cmap);
+  const numTables = r.u16(2);
+  let format4: number | undefined;
+  let format12: number | undefined;
+  for(let i = 0; i < numTables; ++i) {
+    const platformID = r.u16(4 + i * 8);
+    const encodingID = r.u16(6 + i * 8);
+    const offset = r.u32(8 + i * 8);
+    const isUnicode = platformID === 0 || (platformID === 3 && (encodingID === 1 || encodingID === 10));
+    if(!isUnicode) {
+      continue;
+    }
+    switch(r.u16(offset)) {
+      case 4: format4 = format4 ?? offset; break;
+      case 12: format12 = format12 ?? offset; break;
+    }
+  }
+
+  let out = new Map<number, number>();
+  if(format12 !== undefined) {
+    const numGroups = r.u32(format12 + 12);
+    for(let i = 0; i < numGroups; ++i) {
+      const group = format12 + 16 + i * 12;
+      const start = r.u32(group);
+      const end = r.u32(group + 4);
+      const startGlyph = r.u32(group + 8);
+      for(let cp = start; cp <= end; ++cp) {
+        out.set(cp, startGlyph + cp - start);
+      }
+    }
+  } else if(format4 !== undefined) {
+    const segCount = r.u16(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    for(let i = 0; i < segCount; ++i) {
+      const end = r.u16(endCodes + i * 2);
+      const start = r.u16(startCodes + i * 2);
+      const idDelta = r.i16(idDeltas + i * 2);
+      const idRangeOffset = r.u16(idRangeOffsets + i * 2);
+      for(let cp = start; cp <= end && cp !== 0xffff; ++cp) {
+        let glyph: number;
+        if(idRangeOffset === 0) {
+          glyph = (cp + idDelta) & 0xffff;
+        } else {
+          // Note: `idRangeOffset` is relative to its own position in
+          // the `idRangeOffset` array.
+          const glyphOfs = idRangeOffsets + i * 2 + idRangeOffset + (cp - start) * 2;
+          glyph = r.u16(glyphOfs);
+          if(glyph !== 0) {
+            glyph = (glyph + idDelta) & 0xffff;
+          }
+        }
+        if(glyph !== 0) {
+          out.set(cp, glyph);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * A function giving the horizontal adjustment between a pair of
+ * glyphs, in font units, or `undefined` if the pair isn't adjusted.
+ */
+type PairAdjustment = (left: number, right: number) => number | undefined;
+
+/**
+ * Read the horizontal, format 0 subtables of a (Microsoft) `kern`
+ * table.
+ */
+function kernPairs(kern: Uint8Array): PairAdjustment[] {
+  const r = new Reader(kern);
+  if(r.u16(0) !== 0) {
+    // Apple's `kern` table (version 1.0) isn't supported.
+    return [];
+  }
+
+  let pairs = new Map<number, number>();
+  let ofs = 4;
+  const nTables = r.u16(2);
+  for(let i = 0; i < nTables; ++i) {
+    const length = r.u16(ofs + 2);
+    const coverage = r.u16(ofs + 4);
+    const isHorizontal = (coverage & 0x1) !== 0;
+    const isMinimum = (coverage & 0x2) !== 0;
+    const isCrossStream = (coverage & 0x4) !== 0;
+    if(coverage >> 8 === 0 && isHorizontal && !isMinimum && !isCrossStream) {
+      const nPairs = r.u16(ofs + 6);
+      for(let j = 0; j < nPairs; ++j) {
+        const pair = ofs + 14 + j * 6;
+        const key = r.u16(pair) * 0x10000 + r.u16(pair + 2);
+        pairs.set(key, (pairs.get(key) ?? 0) + r.i16(pair + 4));
+      }
+    }
+    ofs += length;
+  }
+  return [(left, right) => pairs.get(left * 0x10000 + right)];
+}
+
+/**
+ * Find the index of `glyph` in a `Coverage` table, or `undefined` if
+ * the glyph isn't covered.
+ */
+function coverageIndex(r: Reader, offset: number, glyph: number): number | undefined {
+  switch(r.u16(offset)) {
+    case 1: {
+      const glyphCount = r.u16(offset + 2);
+      for(let i = 0; i < glyphCount; ++i) {
+        if(r.u16(offset + 4 + i * 2) === glyph) {
+          return i;
+        }
+      }
+    } break;
+    case 2: {
+      const rangeCount = r.u16(offset + 2);
+      for(let i = 0; i < rangeCount; ++i) {
+        const range = offset + 4 + i * 6;
+        if(r.u16(range) <= glyph && glyph <= r.u16(range + 2)) {
+          return r.u16(range + 4) + glyph - r.u16(range);
+        }
+      }
+    } break;
+  }
+  return undefined;
+}
+
+/**
+ * Find the class of `glyph` in a `ClassDef` table.
+ */
+function glyphClass(r: Reader, offset: number, glyph: number): number {
+  switch(r.u16(offset)) {
+    case 1: {
+      const startGlyph = r.u16(offset + 2);
+      const glyphCount = r.u16(offset + 4);
+      if(startGlyph <= glyph && glyph < startGlyph + glyphCount) {
+        return r.u16(offset + 6 + (glyph - startGlyph) * 2);
+      }
+    } break;
+    case 2: {
+      const rangeCount = r.u16(offset + 2);
+      for(let i = 0; i < rangeCount; ++i) {
+        const range = offset + 4 + i * 6;
+        if(r.u16(range) <= glyph && glyph <= r.u16(range + 2)) {
+          return r.u16(range + 4);
+        }
+      }
+    } break;
+  }
+  return 0;
+}
+
+/**
+ * The size in bytes of a `ValueRecord` with the given format.
+ */
+function valueRecordSize(valueFormat: number): number {
+  let size = 0;
+  for(let bits = valueFormat; bits !== 0; bits >>= 1) {
+    size += (bits & 1) * 2;
+  }
+  return size;
+}
+
+/**
+ * Read the `XAdvance` of a `ValueRecord`, which is the only value
+ * that changes the width of a pair of glyphs.
+ */
+function xAdvance(r: Reader, offset: number, valueFormat: number): number {
+  if((valueFormat & 0x4) === 0) {
+    return 0;
+  }
+  return r.i16(offset + valueRecordSize(valueFormat & 0x3));
+}
+
+/**
+ * Read a pair adjustment (`PairPos`) subtable of a `GPOS` table.
+ */
+function pairPosAdjustment(r: Reader, offset: number): PairAdjustment | undefined {
+  const format = r.u16(offset);
+  const coverage = offset + r.u16(offset + 2);
+  const valueFormat1 = r.u16(offset + 4);
+  const valueFormat2 = r.u16(offset + 6);
+  const size1 = valueRecordSize(valueFormat1);
+  const size2 = valueRecordSize(valueFormat2);
+
+  switch(format) {
+    case 1: return (left, right) => {
+      const index = coverageIndex(r, coverage, left);
+      if(index === undefined) {
+        return undefined;
+      }
+      const pairSet = offset + r.u16(offset + 10 + index * 2);
+      const pairValueCount = r.u16(pairSet);
+      for(let i = 0; i < pairValueCount; ++i) {
+        const record = pairSet + 2 + i * (2 + size1 + size2);
+        if(r.u16(record) === right) {
+          return xAdvance(r, record + 2, valueFormat1);
+        }
+      }
+      return undefined;
+    };
+    case 2: return (left, right) => {
+      if(coverageIndex(r, coverage, left) === undefined) {
+        return undefined;
+      }
+      const class1 = glyphClass(r, offset + r.u16(offset + 8), left);
+      const class2 = glyphClass(r, offset + r.u16(offset + 10), right);
+      const class2Count = r.u16(offset + 14);
+      const record = offset + 16 + (class1 * class2Count + class2) * (size1 + size2);
+      return xAdvance(r, record, valueFormat1);
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Read the pair adjustments of the lookups of a `GPOS` table's `kern`
+ * feature. Each lookup yields one `PairAdjustment`, which applies the
+ * first of its subtables that adjusts a pair.
+ */
+function gposPairs(gpos: Uint8Array): PairAdjustment[] {
+  const r = new Reader(gpos);
+  const featureList = r.u16(6);
+  const lookupList = r.u16(8);
+
+  let lookupIndices = new Set<number>();
+  const featureCount = r.u16(featureList);
+  for(let i = 0; i < featureCount; ++i) {
+    const record = featureList + 2 + i * 6;
+    if(r.tag(record) !== "kern") {
+      continue;
+    }
+    const feature = featureList + r.u16(record + 4);
+    const lookupIndexCount = r.u16(feature + 2);
+    for(let j = 0; j < lookupIndexCount; ++j) {
+      lookupIndices.add(r.u16(feature + 4 + j * 2));
+    }
+  }
+
+  let out: PairAdjustment[] = [];
+  for(const lookupIndex of [...lookupIndices].sort((a, b) => a - b)) {
+    const lookup = lookupList + r.u16(lookupList + 2 + lookupIndex * 2);
+    const lookupType = r.u16(lookup);
+    const subTableCount = r.u16(lookup + 4);
+    let subtables: PairAdjustment[] = [];
+    for(let i = 0; i < subTableCount; ++i) {
+      let subtable = lookup + r.u16(lookup + 6 + i * 2);
+      let type = lookupType;
+      if(type === 9) {
+        // An extension subtable, which points to the real subtable
+        // with a 32-bit offset.
+        type = r.u16(subtable + 2);
+        subtable += r.u32(subtable + 4);
+      }
+      const adjustment = type === 2 ? pairPosAdjustment(r, subtable) : undefined;
+      if(adjustment !== undefined) {
+        subtables.push(adjustment);
+      }
+    }
+    out.push((left, right) => {
+      for(const adjustment of subtables) {
+        const value = adjustment(left, right);
+        if(value !== undefined) {
+          return value;
+        }
+      }
+      return undefined;
+    });
+  }
+  return out;
+}
+
+/**
+ * The metrics of a font, as read by `parseFont`. All of the metrics
+ * are in font units; there are `unitsPerEm` units per em.
+ */
+export class Font {
+  readonly unitsPerEm: number;
+  /**
+   * The distance from the baseline to the top of the font's line
+   * box (positive, since it's above the baseline).
+   */
+  readonly ascender: number;
+  /**
+   * The distance from the baseline to the bottom of the font's line
+   * box (usually negative, since it's below the baseline).
+   */
+  readonly descender: number;
+  private glyphs: Map<number, number>;
+  private advances: number[];
+  private kerning: PairAdjustment[];
+
+  constructor(
+    unitsPerEm: number,
+    ascender: number,
+    descender: number,
+    glyphs: Map<number, number>,
+    advances: number[],
+    kerning: PairAdjustment[]
+  ) {
+    this.unitsPerEm = unitsPerEm;
+    this.ascender = ascender;
+    this.descender = descender;
+    this.glyphs = glyphs;
+    this.advances = advances;
+    this.kerning = kerning;
+  }
+
+  /**
+   * Find the glyph of a code point. Code points which the font
+   * doesn't contain are mapped to the `.notdef` glyph (glyph 0).
+   */
+  glyphOf(codePoint: number): number {
+    return this.glyphs.get(codePoint) ?? 0;
+  }
+
+  advanceOf(glyph: number): number {
+    if(this.advances.length === 0) {
+      return 0;
+    }
+    return this.advances[Math.min(glyph, this.advances.length - 1)];
+  }
+
+  /**
+   * Find the kerning between a pair of adjacent glyphs.
+   */
+  kerningOf(left: number, right: number): number {
+    let out = 0;
+    for(const adjustment of this.kerning) {
+      out += adjustment(left, right) ?? 0;
+    }
+    return out;
+  }
+
+  /**
+   * Find the advance width of a string: the sum of the advances of
+   * its glyphs, and the kerning between each adjacent pair.
+   */
+  advanceWidth(text: string): number {
+    let out = 0;
+    let prev: number | undefined;
+    for(const ch of text) {
+      const glyph = this.glyphOf(ch.codePointAt(0)!);
+      out += this.advanceOf(glyph);
+      if(prev !== undefined) {
+        out += this.kerningOf(prev, glyph);
+      }
+      prev = glyph;
+    }
+    return out;
+  }
+}
+
+/**
+ * Parse the metrics of a TrueType or OpenType font, which may be
+ * packaged as a WOFF or WOFF2 file.
+ *
+ * @param data The bytes of the font file.
+ * @returns The metrics of the font.
+ */
+export function parseFont(data: Uint8Array): Font {
+  const signature = new Reader(data).tag(0);
+  let tables: Tables;
+  let transformed = new Set<string>();
+  switch(signature) {
+    case "\x00\x01\x00\x00":
+    case "true":
+    case "OTTO": tables = sfntTables(data); break;
+    case "wOFF": tables = woffTables(data); break;
+    case "wOF2": [tables, transformed] = woff2Tables(data); break;
+    default: assert(false, `unsupported font format (signature "${signature}")`);
+  }
+
+  const table = (tag: string): Uint8Array => {
+    const t = tables.get(tag);
+    assert(t !== undefined, `font has no ${tag} table`);
+    return t;
+  };
+
+  const head = new Reader(table("head"));
+  const hhea = new Reader(table("hhea"));
+  const numberOfHMetrics = hhea.u16(34);
+  const advances = hmtxAdvances(table("hmtx"), numberOfHMetrics, transformed.has("hmtx"));
+
+  // Note: As browsers do, the `kern` table is only used if the font
+  // has no `GPOS` table.
+  const gpos = tables.get("GPOS");
+  const kern = tables.get("kern");
+  const kerning = gpos !== undefined ? gposPairs(gpos)
+    : kern !== undefined ? kernPairs(kern)
+    : [];
+
+  return new Font(
+    head.u16(18),
+    hhea.i16(4),
+    hhea.i16(6),
+    cmapGlyphs(table("cmap")),
+    advances,
+    kerning
+  );
+}
+
+/**
+ * Read and parse a font file (see `parseFont`).
+ *
+ * @param path The path of the font file.
+ * @returns The metrics of the font.
+ */
+export function loadFont(path: string): Font {
+  return parseFont(new Uint8Array(readFileSync(path)));
+}
+
+/**
+ * Make a function which measures text set in `font` at `fontSize`,
+ * suitable for `measureLayoutTree`. Like the measurements of a
+ * browser's `measureText`, the rectangle of a string spans its
+ * advance width horizontally, and the font's ascent and descent
+ * vertically, with its baseline at `y = 0`.
+ *
+ * @param font The font in which the text is set.
+ * @param fontSize The size of the font, in pixels per em.
+ * @returns A function from a string to its rectangle.
+ */
+export function fontMeasure(font: Font, fontSize: number): (text: string) => Rect {
+  const scale = fontSize / font.unitsPerEm;
+  return (text: string) => ({
+    left: 0,
+    right: font.advanceWidth(text) * scale,
+    top: -font.ascender * scale,
+    bottom: -font.descender * scale,
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * This module implements snapping to a monospace character grid.
+ * When the settings of `RocksLayout`, `OutlinedRocksLayout` or
+ * `SBlocksLayout` have a `grid`, the left edge of every atom is moved
+ * (rightward) onto a column of the grid, and the baseline of every
+ * line is moved (downward) onto a row of the grid. The space which
+ * padding adds is thereby rounded up to whole columns and rows, so
+ * that fragments stay aligned with one another as they would be in a
+ * text editor.
+ */
+
+import { FragmentInfo } from "./layout-tree";
+
+export type Grid = {
+  /**
+   * The width of a column (e.g. the advance of one character of a
+   * monospace font).
+   */
+  columnWidth: number;
+  /**
+   * The distance between the baselines of adjacent rows.
+   */
+  rowHeight: number;
+};
+
+/**
+ * Tolerance for rounding error, so that a coordinate which is
+ * already on the grid isn't moved onto the next column or row.
+ */
+const EPSILON = 1e-6;
+
+/**
+ * Snap a coordinate onto the grid, rounding up.
+ *
+ * @param x The coordinate to snap.
+ * @param size The size of a grid cell.
+ * @param origin The coordinate of the first grid line.
+ * @returns The least grid line which is at least `x`.
+ */
+export function snapToGrid(x: number, size: number, origin: number = 0): number {
+  return origin + Math.ceil((x - origin) / size - EPSILON) * size;
+}
+
+/**
+ * Find the position of a fragment on a grid. Columns are counted from
+ * `x = 0`, and rows from the baseline of the first line.
+ *
+ * @param fragment The fragment, without grid coordinates.
+ * @param grid The grid onto which the fragment was snapped.
+ * @param firstBaseline The baseline of the first line of the layout.
+ * @returns The fragment with its `column` and `row`.
+ */
+export function withGridCoordinates(fragment: FragmentInfo, grid: Grid, firstBaseline: number): FragmentInfo {
+  return {
+    ...fragment,
+    column: Math.round(fragment.rect.left / grid.columnWidth),
+    row: Math.round((fragment.baseline - firstBaseline) / grid.rowHeight),
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * This module draws decorations which are anchored to the lines of a
+ * layout: a gutter of line numbers to the left of the layout, and
+ * markers such as breakpoints and diagnostic squiggles.
+ */
+
+import { FragmentsInfo, LineInfo, LinesInfo } from "./layout-tree";
+import { Rect, height, width } from "./rect";
+import { PathCommand, Render, RenderTarget, SVGStyle } from "./render";
+
+/**
+ * A marker which is drawn relative to the lines of a layout.
+ *
+ * - `"Breakpoint"`: A dot in the gutter, vertically centered on the
+ *   line `lineNo` of the input tree (see `LineInfo.sourceLineNo`). If
+ *   the line was soft wrapped, the dot is on its first line.
+ * - `"Squiggle"`: A wavy line beneath the fragments from
+ *   `firstFragment` to `lastFragment` (inclusive, as indices into
+ *   `fragmentsInfo()`). If the fragments span several lines, each
+ *   line gets its own squiggle.
+ */
+export type LineMarker =
+    { type: "Breakpoint", lineNo: number, color?: string }
+  | { type: "Squiggle", firstFragment: number, lastFragment: number, color?: string };
+
+export type GutterStyle = {
+  /**
+   * The width of the gutter.
+   */
+  width: number;
+  /**
+   * The space between the gutter and the left edge of the layout.
+   */
+  gap: number;
+  fontFamily: string;
+  /**
+   * The font size, in pixels.
+   */
+  fontSize: number;
+  color: string;
+  /**
+   * The number of the first line. Set to `null` to draw the gutter
+   * without line numbers.
+   */
+  firstLineNumber: number | null;
+  /**
+   * The background of the gutter.
+   */
+  fill: string;
+  /**
+   * The default color of `"Breakpoint"` markers.
+   */
+  breakpointColor: string;
+  /**
+   * The default color of `"Squiggle"` markers.
+   */
+  squiggleColor: string;
+};
+
+export const DEFAULT_GUTTER_STYLE: GutterStyle = {
+  width: 24,
+  gap: 4,
+  fontFamily: "monospace",
+  fontSize: 12,
+  color: "gray",
+  firstLineNumber: 1,
+  fill: "none",
+  breakpointColor: "red",
+  squiggleColor: "red",
+};
+
+/**
+ * The horizontal distance between the peaks of a squiggle.
+ */
+const SQUIGGLE_WAVELENGTH = 4;
+
+/**
+ * The vertical distance between the peaks and troughs of a squiggle.
+ */
+const SQUIGGLE_AMPLITUDE = 2;
+
+/**
+ * Build the commands of a circle, drawn as a square whose corners are
+ * rounded by half of its side length.
+ */
+function circleCommands(cx: number, cy: number, r: number): PathCommand[] {
+  return [
+    { type: "MoveTo", x: cx, y: cy - r },
+    { type: "ArcTo", corner: { x: cx + r, y: cy - r }, x: cx + r, y: cy, radius: r, clockwise: true },
+    { type: "ArcTo", corner: { x: cx + r, y: cy + r }, x: cx, y: cy + r, radius: r, clockwise: true },
+    { type: "ArcTo", corner: { x: cx - r, y: cy + r }, x: cx - r, y: cy, radius: r, clockwise: true },
+    { type: "ArcTo", corner: { x: cx - r, y: cy - r }, x: cx, y: cy - r, radius: r, clockwise: true },
+    { type: "Close" },
+  ];
+}
+
+/**
+ * Build the commands of a zig-zag line from `left` to `right`, whose
+ * troughs are at `y`.
+ */
+function squiggleCommands(left: number, right: number, y: number): PathCommand[] {
+  let out: PathCommand[] = [{ type: "MoveTo", x: left, y }];
+  let x = left;
+  let up = true;
+  while(x < right) {
+    x = Math.min(x + SQUIGGLE_WAVELENGTH / 2, right);
+    out.push({ type: "LineTo", x, y: up ? y - SQUIGGLE_AMPLITUDE : y });
+    up = !up;
+  }
+  return out;
+}
+
+/**
+ * A rendering of a line number gutter and line-anchored markers.
+ * Stack a `GutterRendering` above a layout result, e.g.
+ *
+ * ```
+ * const result = algo.layout(tree);
+ * toSVG(result.stack(new GutterRendering(result)));
+ * ```
+ *
+ * The gutter is drawn to the left of the bounding box of the layout.
+ * Line numbers are drawn on the baseline of each line (see
+ * `LineInfo`), so they stay aligned with the text of the layout
+ * regardless of the leading which the layout algorithm adds. Line
+ * numbers are padded with spaces to the same number of characters,
+ * so they are right-aligned when drawn in a monospace font.
+ *
+ * Lines are numbered as in the input tree (see
+ * `LineInfo.sourceLineNo`), so the continuation lines of a soft
+ * wrapped line aren't numbered.
+ */
+export class GutterRendering extends Render {
+  private layout: Render & FragmentsInfo & LinesInfo;
+  private markers: LineMarker[];
+  private gutterStyle: GutterStyle;
+
+  /**
+   * @param layout The layout result to decorate.
+   * @param markers The markers to draw.
+   * @param gutterStyle The style of the gutter.
+   */
+  constructor(layout: Render & FragmentsInfo & LinesInfo, markers?: LineMarker[], gutterStyle?: Partial<GutterStyle>) {
+    super();
+    this.layout = layout;
+    this.markers = markers ?? [];
+    this.gutterStyle = { ...DEFAULT_GUTTER_STYLE, ...gutterStyle };
+  }
+
+  render(target: RenderTarget, _sty: SVGStyle) {
+    const bbox = this.boundingBox();
+    if(bbox === null) {
+      return;
+    }
+
+    const gs = this.gutterStyle;
+    const lines = this.layout.linesInfo();
+
+    // The first line of each line of the input tree, by its
+    // `sourceLineNo`.
+    const firstLines: Map<number, LineInfo> = new Map();
+    for(const line of lines) {
+      if(!firstLines.has(line.sourceLineNo)) {
+        firstLines.set(line.sourceLineNo, line);
+      }
+    }
+
+    if(gs.fill !== "none") {
+      target
+        .rect(width(bbox), height(bbox))
+        .move(bbox.left, bbox.top)
+        .fill(gs.fill)
+        .stroke("none");
+    }
+
+    // Breakpoints are drawn beneath the line numbers.
+    const radius = Math.min(gs.width, gs.fontSize) / 2;
+    for(const marker of this.markers) {
+      const line = marker.type === "Breakpoint" ? firstLines.get(marker.lineNo) : undefined;
+      if(line === undefined) {
+        continue;
+      }
+
+      const cy = line.top === line.bottom ? line.baseline : (line.top + line.bottom) / 2;
+      target
+        .path(circleCommands((bbox.left + bbox.right) / 2, cy, radius))
+        .fill(marker.color ?? gs.breakpointColor)
+        .stroke("none");
+    }
+
+    if(gs.firstLineNumber !== null) {
+      const first = gs.firstLineNumber;
+      const digits = String(first + Math.max(...firstLines.keys())).length;
+      for(const [sourceLineNo, line] of firstLines) {
+        target
+          .text(String(first + sourceLineNo).padStart(digits, " "))
+          .font(gs.fontFamily, gs.fontSize)
+          .fill(gs.color)
+          .move(bbox.left, line.baseline);
+      }
+    }
+
+    this.renderSquiggles(target, lines);
+  }
+
+  private renderSquiggles(target: RenderTarget, lines: LineInfo[]) {
+    const fragments = this.layout.fragmentsInfo();
+    for(const marker of this.markers) {
+      if(marker.type !== "Squiggle") {
+        continue;
+      }
+
+      // Find the horizontal extent of the marked fragments on each
+      // line.
+      const extents: Map<number, { left: number, right: number }> = new Map();
+      for(const frag of fragments.slice(marker.firstFragment, marker.lastFragment + 1)) {
+        const extent = extents.get(frag.lineNo);
+        extents.set(frag.lineNo, extent === undefined
+          ? { left: frag.rect.left, right: frag.rect.right }
+          : { left: Math.min(extent.left, frag.rect.left), right: Math.max(extent.right, frag.rect.right) });
+      }
+
+      for(const [lineNo, { left, right }] of extents) {
+        target
+          .path(squiggleCommands(left, right, lines[lineNo].bottom + SQUIGGLE_AMPLITUDE))
+          .fill("none")
+          .stroke(marker.color ?? this.gutterStyle.squiggleColor);
+      }
+    }
+  }
+
+  /**
+   * The bounding box of the gutter. Squiggles are drawn within the
+   * layout, so they don't contribute to the bounding box.
+   */
+  boundingBox(): Rect | null {
+    const bbox = this.layout.boundingBox();
+    if(bbox === null) {
+      return null;
+    }
+
+    const right = bbox.left - this.gutterStyle.gap;
+    return { left: right - this.gutterStyle.width, right, top: bbox.top, bottom: bbox.bottom };
+  }
+}
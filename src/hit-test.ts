@@ -0,0 +1,56 @@
+/**
+ * Helpers shared by the layout results' implementations of the
+ * `HitTest` interface.
+ */
+
+import { NodeOutline, NodePath } from "./layout-tree";
+import { Point } from "./point";
+import { Polygon, pointInPolygon } from "./polygon";
+
+/**
+ * Check if two `NodePath`s refer to the same `Node`.
+ *
+ * @param a The first path.
+ * @param b The second path.
+ * @returns `true` if `a` and `b` are equal, and `false` otherwise.
+ */
+export function pathsEqual(a: NodePath, b: NodePath): boolean {
+  return a.length === b.length && a.every((index, i) => index === b[i]);
+}
+
+/**
+ * Find the innermost `Node` whose outline contains `p`. The innermost
+ * `Node` is the deepest one (i.e. the one with the longest path). If
+ * several `Node`s at the same depth contain `p`, the last one (the
+ * one drawn on top) wins.
+ *
+ * @param outlines The outline of each `Node`, in preorder.
+ * @param p The point to look up.
+ * @returns The path to the innermost `Node` containing `p`, or `null`
+ * if `p` isn't inside of any outline.
+ */
+export function nodeAtPoint(outlines: NodeOutline[], p: Point): NodePath | null {
+  let best: NodePath | null = null;
+  for(const { path, outline } of outlines) {
+    if(best !== null && path.length < best.length) {
+      continue;
+    }
+
+    if(pointInPolygon(p, outline)) {
+      best = path;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the outline of the `Node` at `path`.
+ *
+ * @param outlines The outline of each `Node`.
+ * @param path The path to the `Node`.
+ * @returns The outline of the `Node` at `path`, or `null` if there is
+ * no outline for `path` in `outlines`.
+ */
+export function outlineAtPath(outlines: NodeOutline[], path: NodePath): Polygon | null {
+  return outlines.find(o => pathsEqual(o.path, path))?.outline ?? null;
+}
@@ -0,0 +1,232 @@
+/**
+ * This module defines an interface for layout algorithms which can
+ * re-use part of a previous layout result, and a `LayoutSession`,
+ * which keeps track of the last layout of an edited tree so that
+ * subsequent layouts only need to recompute the lines which changed.
+ *
+ * The layout algorithms re-use a previous result at the granularity
+ * of the lines of the root `Node`: the children of the root `Node`
+ * which end before the first changed line (see `cleanPrefix`) are
+ * taken from the previous result, and only the rest of the root
+ * `Node` is laid out again.
+ */
+
+import {
+  FragmentsInfo,
+  HitTest,
+  Layout,
+  LayoutTree,
+  LinesInfo,
+  Node,
+  NodePath,
+  WithMeasurements,
+  lineOfPath,
+  nodePaths
+} from "./layout-tree";
+import { Render } from "./render";
+
+/**
+ * An interface implemented by layout algorithms which can produce a
+ * new layout result by re-using a `previous` result.
+ *
+ * Not every step of every algorithm is incremental:
+ * `OutlinedRocksLayout` (L1S+) re-uses the rocks of the clean prefix,
+ * but still finds and simplifies the outlines of the whole tree,
+ * since the simplified outline of a `Node` depends on those of its
+ * siblings and on the outline which encloses it.
+ */
+export interface IncrementalLayout<R extends Render & FragmentsInfo & HitTest & LinesInfo> extends Layout {
+  layout(layoutTree: LayoutTree<WithMeasurements>): R;
+
+  /**
+   * Layout `layoutTree`, re-using the part of `previous` which lays
+   * out the lines before `firstDirtyLine` (see `cleanPrefix`). The
+   * caller guarantees that every line before `firstDirtyLine` is
+   * identical in `layoutTree` and the tree which produced
+   * `previous`, and that `previous` was produced by a layout
+   * algorithm with the same settings.
+   *
+   * @param layoutTree The tree to layout.
+   * @param previous A previous layout result, or `null` if there is
+   * none (in which case this method is equivalent to `layout`).
+   * @param firstDirtyLine The first line of the input tree which may
+   * differ between `layoutTree` and the tree which produced
+   * `previous`. (If the layout soft wraps lines, this is not the
+   * same as a line of the layout; see `FragmentInfo.sourceLineNo`.)
+   * @returns A new layout result.
+   */
+  relayout(layoutTree: LayoutTree<WithMeasurements>, previous: R | null, firstDirtyLine: number): R;
+}
+
+/**
+ * Check if a layout algorithm supports incremental layout.
+ *
+ * @param algo The layout algorithm to check.
+ * @returns `true` if `algo` implements `IncrementalLayout`, and
+ * `false` otherwise.
+ */
+export function isIncrementalLayout<R extends Render & FragmentsInfo & HitTest & LinesInfo>(algo: Layout): algo is IncrementalLayout<R> {
+  return typeof (algo as Partial<IncrementalLayout<R>>).relayout === "function";
+}
+
+/**
+ * The children at the start of the root `Node` of an edited tree
+ * which are identical in the tree of a previous layout result.
+ */
+export type CleanPrefix = {
+  /**
+   * The number of children of the root `Node` in the prefix. The
+   * last of them is a `Newline`.
+   */
+  children: number;
+  /**
+   * The number of lines of the input tree which the prefix spans.
+   */
+  lines: number;
+  /**
+   * The number of `Node`s in the prefix (not counting the root
+   * `Node`).
+   */
+  nodes: number;
+  /**
+   * The root `Node`, with only the children after the prefix.
+   */
+  rest: Node<WithMeasurements>;
+};
+
+/**
+ * Find the longest run of children at the start of the root `Node`
+ * of `layoutTree` which ends with a `Newline`, and which doesn't
+ * reach `firstDirtyLine`. Each line of the root `Node` is laid out
+ * without looking at the lines below it, so the part of a previous
+ * layout result which lays out these children can be re-used.
+ *
+ * @param layoutTree The edited tree.
+ * @param firstDirtyLine The first line which may differ between
+ * `layoutTree` and the tree of the previous layout result.
+ * @returns The prefix, or `null` if there is none.
+ */
+export function cleanPrefix(layoutTree: LayoutTree<WithMeasurements>, firstDirtyLine: number): CleanPrefix | null {
+  if(layoutTree.type !== "Node") {
+    return null;
+  }
+
+  let line = 0;
+  let nodes = 0;
+  const count = (root: LayoutTree<WithMeasurements>) => {
+    switch(root.type) {
+      case "Newline": line += 1; break;
+      case "Atom":
+      case "Spacer": break;
+      case "Node": {
+        nodes += 1;
+        root.children.forEach(count);
+      } break;
+    }
+  };
+
+  let prefix: Omit<CleanPrefix, "rest"> | null = null;
+  for(let i = 0; i < layoutTree.children.length && line < firstDirtyLine; ++i) {
+    const child = layoutTree.children[i];
+    count(child);
+    if(child.type === "Newline" && line <= firstDirtyLine) {
+      prefix = { children: i + 1, lines: line, nodes };
+    }
+  }
+
+  return prefix === null ? null : {
+    ...prefix,
+    rest: { ...layoutTree, children: layoutTree.children.slice(prefix.children) }
+  };
+}
+
+/**
+ * Find the path to each `Node` of an edited tree (see `nodePaths`),
+ * taking the paths of the `Node`s in its clean `prefix` from those of
+ * the previous tree.
+ *
+ * @param previous The paths of the `Node`s of the previous tree.
+ * @param prefix The clean prefix of the edited tree.
+ * @returns The path to each `Node` of the edited tree, in preorder.
+ */
+export function nodePathsAfterPrefix(previous: NodePath[], prefix: CleanPrefix): NodePath[] {
+  const rest = nodePaths(prefix.rest).slice(1).map(([index, ...path]) => [index + prefix.children, ...path]);
+  return [...previous.slice(0, prefix.nodes + 1), ...rest];
+}
+
+type LayoutResultOf<L extends Layout> = ReturnType<L["layout"]>;
+
+/**
+ * A `LayoutSession` remembers the last tree it laid out along with
+ * the corresponding layout result. When the tree is edited, `update`
+ * finds the first line affected by the edit, and, if the underlying
+ * algorithm supports it, only recomputes that line and the ones after
+ * it. Algorithms which don't implement `IncrementalLayout` fall back
+ * to a full layout.
+ */
+export class LayoutSession<L extends Layout> {
+  private algo: L;
+  private lastTree: LayoutTree<WithMeasurements> | null;
+  private lastResult: LayoutResultOf<L> | null;
+
+  constructor(algo: L) {
+    this.algo = algo;
+    this.lastTree = null;
+    this.lastResult = null;
+  }
+
+  /**
+   * The most recent layout result, or `null` if nothing has been laid
+   * out yet.
+   */
+  get result(): LayoutResultOf<L> | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Layout `layoutTree` from scratch, discarding any previous result.
+   *
+   * @param layoutTree The tree to layout.
+   * @returns The new layout result.
+   */
+  layout(layoutTree: LayoutTree<WithMeasurements>): LayoutResultOf<L> {
+    const result = this.algo.layout(layoutTree) as LayoutResultOf<L>;
+    this.lastTree = layoutTree;
+    this.lastResult = result;
+    return result;
+  }
+
+  /**
+   * Layout an edited version of the last tree. Each element of
+   * `changed` is the path to a `Node` whose subtree differs between
+   * the last tree and `layoutTree`. Everything outside of these
+   * subtrees must be unchanged. An empty list of `changed` paths
+   * means that nothing changed.
+   *
+   * @param layoutTree The edited tree.
+   * @param changed The paths of the changed subtrees.
+   * @returns The new layout result.
+   */
+  update(layoutTree: LayoutTree<WithMeasurements>, changed: NodePath[]): LayoutResultOf<L> {
+    if(this.lastTree === null || this.lastResult === null || !isIncrementalLayout(this.algo)) {
+      return this.layout(layoutTree);
+    }
+
+    // The first dirty line is the first line on which any of the
+    // changed subtrees begins, in either the old or the new tree.
+    let firstDirtyLine = Infinity;
+    for(const path of changed) {
+      firstDirtyLine = Math.min(
+        firstDirtyLine,
+        lineOfPath(this.lastTree, path),
+        lineOfPath(layoutTree, path)
+      );
+    }
+
+    const algo: IncrementalLayout<Render & FragmentsInfo & HitTest & LinesInfo> = this.algo;
+    const result = algo.relayout(layoutTree, this.lastResult, firstDirtyLine) as LayoutResultOf<L>;
+    this.lastTree = layoutTree;
+    this.lastResult = result;
+    return result;
+  }
+}
@@ -1,7 +1,64 @@
 export * from "./layout-tree";
 export * from "./rect";
 export * from "./render";
+export { CanvasTarget, Canvas2DContext, renderToCanvas } from "./canvas";
+export { PdfTarget, toPDF } from "./pdf";
 export { MeshDistanceMesh } from "./mesh-distance";
+export { nodeAtPoint, outlineAtPath, pathsEqual } from "./hit-test";
+export { DEFAULT_GUTTER_STYLE, GutterRendering, GutterStyle, LineMarker } from "./gutter";
+export { LayoutSession, IncrementalLayout, isIncrementalLayout } from "./incremental";
+export { softWrap } from "./soft-wrap";
+export { Grid } from "./grid";
+export { DEFAULT_TAB_WIDTH, advanceColumn, charColumns, expandSpacerText } from "./text-columns";
+export { VerticalAlign, alignLayoutTree } from "./vertical-align";
+export { isStrut, withMinimumSizes } from "./min-size";
+export {
+  DEFAULT_NODE_PADDING,
+  LanguageRules,
+  SyntaxNode,
+  SyntaxRule,
+  SyntaxTree,
+  fromTreeSitter
+} from "./tree-sitter";
+export { ParseError, Style, mergeStyles } from "./style";
+export { StyleSheet, SyntaxContext } from "./selectors";
+export { Markup, StyleDefinition, parseMarkup, printMarkup } from "./markup";
+export {
+  FORMAT_VERSION,
+  JsonValidationError,
+  LAYOUT_SNAPSHOT_SCHEMA,
+  LAYOUT_TREE_SCHEMA,
+  LayoutSnapshot,
+  LayoutTreeDocument,
+  ValidationError,
+  layoutSnapshotFromJson,
+  layoutSnapshotToJson,
+  layoutTreeFromJson,
+  layoutTreeToJson,
+  snapshotLayout,
+  validateLayoutSnapshot,
+  validateLayoutTreeDocument
+} from "./json";
+export {
+  DirectedLayoutResult,
+  WritingDirection,
+  logicalPoint,
+  physicalPoint,
+  physicalPolygon,
+  physicalRect
+} from "./writing-direction";
+export {
+  FragmentTransition,
+  Keyframe,
+  OutlineTransition,
+  Transition,
+  TransitionEnd,
+  TransitionRendering,
+  correspondPaths,
+  correspondPolygons,
+  transition,
+  transitionAt
+} from "./transition";
 export { RocksLayout, OutlinedRocksLayout } from "./rocks-layout/layout";
 export { default as BlocksLayout } from "./blocks-layout/layout";
 export { default as PebbleLayout } from "./pebble-layout/layout";
@@ -0,0 +1,443 @@
+/**
+ * This module defines versioned JSON formats for `LayoutTree`s and for
+ * snapshots of layout results, so that they can be exchanged with
+ * other programs. Each format is described by a JSON Schema (see
+ * `LAYOUT_TREE_SCHEMA` and `LAYOUT_SNAPSHOT_SCHEMA`), which other
+ * programs can use to check what they produce, and which this module
+ * uses to validate what it reads.
+ *
+ * A layout tree document looks like:
+ *
+ *     { "format": "ragged-blocks/layout-tree", "version": 1, "tree": ... }
+ *
+ * where the tree is written just as the `LayoutTree<WithMeasurements>`
+ * type describes it. The annotations of each part of the tree (such
+ * as the `id` of a `Node`, or its `styleRef`) are kept.
+ */
+
+import { FragmentInfo, FragmentsInfo, HitTest, LayoutTree, LineInfo, LinesInfo, NodeOutline, WithMeasurements } from "./layout-tree";
+
+/**
+ * The version of the formats which this module reads and writes.
+ */
+export const FORMAT_VERSION = 1;
+
+export type LayoutTreeDocument = {
+  format: "ragged-blocks/layout-tree";
+  version: typeof FORMAT_VERSION;
+  tree: LayoutTree<WithMeasurements>;
+};
+
+/**
+ * A snapshot of a layout result: everything which can be serialized
+ * about where the fragments, `Node`s and lines were placed.
+ */
+export type LayoutSnapshot = {
+  format: "ragged-blocks/layout-snapshot";
+  version: typeof FORMAT_VERSION;
+  fragments: FragmentInfo[];
+  outlines: NodeOutline[];
+  lines: LineInfo[];
+};
+
+/**
+ * A problem with a JSON value. The `path` is a JSON Pointer (e.g.
+ * `/tree/children/0/rect/left`) to the part of the value which is
+ * wrong.
+ */
+export type ValidationError = {
+  path: string;
+  message: string;
+};
+
+/**
+ * An error thrown when reading a JSON document which isn't valid.
+ */
+export class JsonValidationError extends Error {
+  errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    super(errors.map(({ path, message }) => `${path || "/"}: ${message}`).join("\n"));
+    this.name = "JsonValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * The subset of JSON Schema which this module's schemas use (and which
+ * `validate` understands).
+ */
+export type Schema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: { [key: string]: Schema };
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: Schema[];
+  $ref?: string;
+  minimum?: number;
+  description?: string;
+};
+
+const NUMBER: Schema = { type: "number" };
+const STRING: Schema = { type: "string" };
+const BOOLEAN: Schema = { type: "boolean" };
+
+function object(properties: { [key: string]: Schema }, required: string[], additionalProperties: boolean = false): Schema {
+  return { type: "object", properties, required, additionalProperties };
+}
+
+function ref(name: string): Schema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+function arrayOf(items: Schema): Schema {
+  return { type: "array", items };
+}
+
+const SIDES = object({ top: NUMBER, right: NUMBER, bottom: NUMBER, left: NUMBER }, ["top", "right", "bottom", "left"]);
+
+const GRADIENT_STOP = object({ offset: NUMBER, color: STRING, opacity: NUMBER }, ["offset", "color"]);
+
+/**
+ * The definitions shared by the schemas.
+ */
+const DEFINITIONS: { [name: string]: Schema } = {
+  Rect: SIDES,
+  Sides: SIDES,
+  Point: object({ x: NUMBER, y: NUMBER }, ["x", "y"]),
+  Polygon: arrayOf(arrayOf(ref("Point"))),
+  Padding: {
+    anyOf: [
+      NUMBER,
+      object({ horizontal: NUMBER, vertical: NUMBER }, ["horizontal", "vertical"]),
+      ref("Sides"),
+    ]
+  },
+  Paint: {
+    anyOf: [
+      STRING,
+      object({ type: { const: "LinearGradient" }, angle: NUMBER, stops: arrayOf(GRADIENT_STOP) }, ["type", "angle", "stops"]),
+      object({ type: { const: "RadialGradient" }, stops: arrayOf(GRADIENT_STOP) }, ["type", "stops"]),
+      object({
+        type: { const: "HatchPattern" },
+        color: STRING,
+        background: STRING,
+        spacing: NUMBER,
+        angle: NUMBER,
+        lineWidth: NUMBER,
+      }, ["type", "color", "spacing", "angle", "lineWidth"]),
+    ]
+  },
+  Border: object({
+    borderOffset: NUMBER,
+    borderRadius: NUMBER,
+    borderTop: BOOLEAN,
+    borderBottom: BOOLEAN,
+    borderLeft: BOOLEAN,
+    borderRight: BOOLEAN,
+    borderStroke: STRING,
+    borderWidth: NUMBER,
+    borderDasharray: arrayOf(NUMBER),
+  }, []),
+  Style: object({
+    fill: ref("Paint"),
+    fillOpacity: NUMBER,
+    borders: arrayOf(ref("Border")),
+    stroke: STRING,
+    classNames: arrayOf(STRING),
+    attributes: { type: "object", additionalProperties: STRING },
+    elevation: object({ dx: NUMBER, dy: NUMBER, blur: NUMBER, color: STRING, opacity: NUMBER }, ["dx", "dy", "blur", "color", "opacity"]),
+    debugFragmentBoundingBoxes: BOOLEAN,
+  }, []),
+  LayoutTree: {
+    anyOf: [
+      object({ type: { const: "Newline" } }, ["type"], true),
+      object({ type: { const: "Atom" }, text: STRING, rect: ref("Rect"), baseline: NUMBER }, ["type", "text", "rect"], true),
+      object({ type: { const: "Spacer" }, text: STRING, width: NUMBER }, ["type", "text", "width"], true),
+      object({
+        type: { const: "Node" },
+        padding: ref("Padding"),
+        margin: ref("Padding"),
+        sty: ref("Style"),
+        verticalAlign: { enum: ["top", "middle", "bottom", "baseline"] },
+        minWidth: NUMBER,
+        minHeight: NUMBER,
+        id: STRING,
+        styleRef: STRING,
+        children: arrayOf(ref("LayoutTree")),
+      }, ["type", "padding", "children"], true),
+    ]
+  },
+  Fragment: object({
+    text: STRING,
+    rect: ref("Rect"),
+    lineNo: { type: "integer", minimum: 0 },
+    sourceLineNo: { type: "integer", minimum: 0 },
+    baseline: NUMBER,
+    column: { type: "integer" },
+    row: { type: "integer" },
+  }, ["text", "rect", "lineNo", "sourceLineNo", "baseline"]),
+  NodeOutline: object({
+    path: arrayOf({ type: "integer", minimum: 0 }),
+    outline: ref("Polygon"),
+    id: STRING,
+  }, ["path", "outline"]),
+  Line: object({
+    lineNo: { type: "integer", minimum: 0 },
+    sourceLineNo: { type: "integer", minimum: 0 },
+    top: NUMBER,
+    bottom: NUMBER,
+    baseline: NUMBER,
+  }, ["lineNo", "sourceLineNo", "top", "bottom", "baseline"]),
+};
+
+/**
+ * The JSON Schema of a `LayoutTreeDocument`.
+ */
+export const LAYOUT_TREE_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "ragged-blocks layout tree",
+  ...object({
+    format: { const: "ragged-blocks/layout-tree" },
+    version: { const: FORMAT_VERSION },
+    tree: ref("LayoutTree"),
+  }, ["format", "version", "tree"]),
+  $defs: DEFINITIONS,
+};
+
+/**
+ * The JSON Schema of a `LayoutSnapshot`.
+ */
+export const LAYOUT_SNAPSHOT_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "ragged-blocks layout snapshot",
+  ...object({
+    format: { const: "ragged-blocks/layout-snapshot" },
+    version: { const: FORMAT_VERSION },
+    fragments: arrayOf(ref("Fragment")),
+    outlines: arrayOf(ref("NodeOutline")),
+    lines: arrayOf(ref("Line")),
+  }, ["format", "version", "fragments", "outlines", "lines"]),
+  $defs: DEFINITIONS,
+};
+
+function typeOf(value: unknown): string {
+  if(value === null) {
+    return "null";
+  } else if(Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Validate `value` against `schema`, pushing a `ValidationError` onto
+ * `errors` for each problem.
+ */
+function validate(value: unknown, schema: Schema, path: string, errors: ValidationError[]) {
+  if(schema.$ref !== undefined) {
+    const name = schema.$ref.replace("#/$defs/", "");
+    validate(value, DEFINITIONS[name], path, errors);
+    return;
+  }
+
+  if(schema.anyOf !== undefined) {
+    // If the alternatives are distinguished by their `type`, only the
+    // alternative with the value's `type` is checked, so that its
+    // errors can be reported.
+    const tagged = schema.anyOf.filter(alt => alt.properties?.type?.const !== undefined);
+    if(tagged.length > 0 && typeOf(value) === "object" && "type" in (value as object)) {
+      const tag = (value as { type: unknown }).type;
+      const alt = tagged.find(alt => alt.properties!.type.const === tag);
+      if(alt !== undefined) {
+        validate(value, alt, path, errors);
+      } else {
+        const tags = tagged.map(alt => JSON.stringify(alt.properties!.type.const)).join(", ");
+        errors.push({ path: path + "/type", message: `Expected one of ${tags}` });
+      }
+      return;
+    }
+
+    const matches = schema.anyOf.some(alt => {
+      let altErrors: ValidationError[] = [];
+      validate(value, alt, path, altErrors);
+      return altErrors.length === 0;
+    });
+    if(!matches) {
+      errors.push({ path, message: "Doesn't match any of the allowed forms" });
+    }
+    return;
+  }
+
+  if(schema.const !== undefined && value !== schema.const) {
+    errors.push({ path, message: `Expected ${JSON.stringify(schema.const)}` });
+    return;
+  }
+
+  if(schema.enum !== undefined && !schema.enum.includes(value)) {
+    errors.push({ path, message: `Expected one of ${schema.enum.map(v => JSON.stringify(v)).join(", ")}` });
+    return;
+  }
+
+  switch(schema.type) {
+    case undefined: break;
+    case "integer": {
+      if(typeof value !== "number" || !Number.isInteger(value)) {
+        errors.push({ path, message: `Expected an integer, not ${typeOf(value)}` });
+        return;
+      }
+    } break;
+    case "number": {
+      if(typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push({ path, message: `Expected a number, not ${typeOf(value)}` });
+        return;
+      }
+    } break;
+    default: {
+      if(typeOf(value) !== schema.type) {
+        errors.push({ path, message: `Expected ${schema.type === "string" || schema.type === "boolean" ? "a" : "an"} ${schema.type}, not ${typeOf(value)}` });
+        return;
+      }
+    }
+  }
+
+  if(schema.minimum !== undefined && (value as number) < schema.minimum) {
+    errors.push({ path, message: `Expected at least ${schema.minimum}` });
+  }
+
+  if(schema.items !== undefined) {
+    (value as unknown[]).forEach((item, i) => validate(item, schema.items!, `${path}/${i}`, errors));
+  }
+
+  if(schema.type === "object") {
+    const obj = value as { [key: string]: unknown };
+    for(const key of schema.required ?? []) {
+      if(!Object.hasOwn(obj, key)) {
+        errors.push({ path, message: `Missing the property "${key}"` });
+      }
+    }
+    for(const [key, v] of Object.entries(obj)) {
+      const propertyPath = `${path}/${escapePointer(key)}`;
+      const propertySchema = schema.properties !== undefined && Object.hasOwn(schema.properties, key) ? schema.properties[key] : undefined;
+      if(propertySchema !== undefined) {
+        validate(v, propertySchema, propertyPath, errors);
+      } else if(schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: `Unexpected property "${key}"` });
+      } else if(typeof schema.additionalProperties === "object") {
+        validate(v, schema.additionalProperties, propertyPath, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a value is a valid `LayoutTreeDocument`.
+ *
+ * @param value The value to check (e.g. the result of `JSON.parse`).
+ * @returns Each problem with `value`; empty if it's valid.
+ */
+export function validateLayoutTreeDocument(value: unknown): ValidationError[] {
+  let errors: ValidationError[] = [];
+  validate(value, LAYOUT_TREE_SCHEMA, "", errors);
+  return errors;
+}
+
+/**
+ * Check whether a value is a valid `LayoutSnapshot`.
+ *
+ * @param value The value to check (e.g. the result of `JSON.parse`).
+ * @returns Each problem with `value`; empty if it's valid.
+ */
+export function validateLayoutSnapshot(value: unknown): ValidationError[] {
+  let errors: ValidationError[] = [];
+  validate(value, LAYOUT_SNAPSHOT_SCHEMA, "", errors);
+  return errors;
+}
+
+/**
+ * Parse JSON text, reporting a syntax error as a `ValidationError`.
+ */
+function parseJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch(e) {
+    throw new JsonValidationError([{ path: "", message: (e as Error).message }]);
+  }
+}
+
+/**
+ * Serialize a `LayoutTree` as a `LayoutTreeDocument`.
+ *
+ * @param tree The tree to serialize.
+ * @returns The JSON text of the document.
+ */
+export function layoutTreeToJson(tree: LayoutTree<WithMeasurements>): string {
+  const doc: LayoutTreeDocument = { format: "ragged-blocks/layout-tree", version: FORMAT_VERSION, tree };
+  return JSON.stringify(doc);
+}
+
+/**
+ * Read a `LayoutTree` from a `LayoutTreeDocument`.
+ *
+ * @param json The JSON text of the document.
+ * @returns The tree.
+ * @throws `JsonValidationError` if `json` isn't a valid document.
+ */
+export function layoutTreeFromJson(json: string): LayoutTree<WithMeasurements> {
+  const value = parseJson(json);
+  const errors = validateLayoutTreeDocument(value);
+  if(errors.length > 0) {
+    throw new JsonValidationError(errors);
+  }
+  return (value as LayoutTreeDocument).tree;
+}
+
+/**
+ * Take a snapshot of a layout result.
+ *
+ * @param result The layout result.
+ * @returns The positions of the result's fragments, `Node`s and
+ * lines.
+ */
+export function snapshotLayout(result: FragmentsInfo & HitTest & LinesInfo): LayoutSnapshot {
+  return {
+    format: "ragged-blocks/layout-snapshot",
+    version: FORMAT_VERSION,
+    fragments: result.fragmentsInfo(),
+    outlines: result.nodeOutlines(),
+    lines: result.linesInfo(),
+  };
+}
+
+/**
+ * Serialize a `LayoutSnapshot`.
+ *
+ * @param snapshot The snapshot to serialize.
+ * @returns The JSON text of the snapshot.
+ */
+export function layoutSnapshotToJson(snapshot: LayoutSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Read a `LayoutSnapshot`.
+ *
+ * @param json The JSON text of the snapshot.
+ * @returns The snapshot.
+ * @throws `JsonValidationError` if `json` isn't a valid snapshot.
+ */
+export function layoutSnapshotFromJson(json: string): LayoutSnapshot {
+  const value = parseJson(json);
+  const errors = validateLayoutSnapshot(value);
+  if(errors.length > 0) {
+    throw new JsonValidationError(errors);
+  }
+  return value as LayoutSnapshot;
+}
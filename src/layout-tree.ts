@@ -5,8 +5,10 @@
 
 import { Point } from "./point";
 import { Polygon } from "./polygon";
-import { Rect, width } from "./rect";
+import { Rect, Sides, translate, uniformSides, width } from "./rect";
 import { DEFAULT_BORDER_STYLE, DEFAULT_STYLE, Render, SVGStyle } from "./render";
+import { DEFAULT_TAB_WIDTH, advanceColumn, expandSpacerText } from "./text-columns";
+import { VerticalAlign } from "./vertical-align";
 
 export interface Ann {
   Newline: object;
@@ -29,10 +31,66 @@ export type Spacer<X extends Ann = Ann> = {
   text: string;
 } & X["Spacer"];
 
+/**
+ * The padding inside a `Node`: either the same amount on every side,
+ * separate amounts on the horizontal (left and right) and vertical
+ * (top and bottom) sides, or an amount on each side. Like styles,
+ * the sides of padding are physical (see `WritingDirection`).
+ */
+export type Padding = number | { horizontal: number, vertical: number } | Sides;
+
+/**
+ * Find the amount of padding on each side of a `Node`.
+ *
+ * @param padding The padding of the `Node`.
+ * @returns The padding on each side.
+ */
+export function paddingSides(padding: Padding): Sides {
+  if(typeof padding === "number") {
+    return uniformSides(padding);
+  } else if("horizontal" in padding) {
+    return {
+      top: padding.vertical,
+      right: padding.horizontal,
+      bottom: padding.vertical,
+      left: padding.horizontal
+    };
+  }
+  return padding;
+}
+
 export type Node<X extends Ann = Ann> = {
   type: "Node";
-  padding: number;
+  padding: Padding;
+  /**
+   * The space to keep around the outside of the `Node`'s outline, in
+   * any of the forms of `Padding`. Unlike padding, the margin isn't
+   * filled, so it separates the `Node` from its neighbours. Defaults
+   * to 0.
+   */
+  margin?: Padding;
   sty?: Partial<SVGStyle>;
+  /**
+   * How the `Node` is aligned within each of its lines (see
+   * `VerticalAlign`). If omitted, or `"baseline"`, the fragments of
+   * the `Node` are aligned by their baselines, except in
+   * `BlocksLayout`, which aligns the `Node`'s block by the top of its
+   * content.
+   */
+  verticalAlign?: VerticalAlign;
+  /**
+   * The minimum width of the content of each of the `Node`'s lines
+   * (not including its padding). Narrower lines are extended at their
+   * ends (see `withMinimumSizes`), so that an empty `Node` is still
+   * visible.
+   */
+  minWidth?: number;
+  /**
+   * The minimum height of the content of each of the `Node`'s lines
+   * (not including its padding). Shorter lines are extended equally
+   * above and below; an empty line is extended above its baseline.
+   */
+  minHeight?: number;
   children: LayoutTree<X>[];
 } & X["Node"];
 
@@ -45,8 +103,32 @@ export type WithStyleRefs<A = {}> = {
   Node:    { styleRef?: string };
 } & A;
 
+/**
+ * Annotate `Node`s with a stable identifier. The `id` of a `Node` is
+ * preserved by every layout algorithm: it is reported alongside the
+ * `Node`'s outline (see `NodeOutline`), and attached to the elements
+ * which are rendered for the `Node`.
+ */
+export type WithIds<A = {}> = {
+  Atom:    object;
+  Spacer:  object;
+  Newline: object;
+  Node:    { id?: string };
+} & A;
+
+/**
+ * Annotate atoms with their measured `rect`, and spacers with their
+ * width.
+ *
+ * The `baseline` of an atom is the y-coordinate of its text's
+ * baseline, in the coordinate system of its `rect`. If omitted, the
+ * baseline is at `y = 0` (as in the rectangles produced by measuring
+ * text with a canvas, whose `top` is the negative of the text's
+ * ascent). The layout algorithms align the fragments on each line by
+ * their baselines, so that atoms measured in different fonts line up.
+ */
 export type WithMeasurements<A = {}> = {
-  Atom:    { rect: Rect };
+  Atom:    { rect: Rect, baseline?: number };
   Spacer:  { width: number };
   Newline: object;
   Node:    object;
@@ -64,7 +146,7 @@ export type WithOutlines<A = {}> = {
  * object given a `LayoutTree<WithMeasurements>`.
  */
 export interface Layout {
-  layout(layoutTree: LayoutTree<WithMeasurements>): Render & FragmentsInfo;
+  layout(layoutTree: LayoutTree<WithMeasurements>): Render & FragmentsInfo & HitTest & LinesInfo;
 }
 
 /**
@@ -73,7 +155,31 @@ export interface Layout {
 export type FragmentInfo = {
   text: string;
   rect: Rect;
+  /**
+   * The line of the layout on which the fragment is placed.
+   */
   lineNo: number;
+  /**
+   * The line of the fragment in the input tree. This is `lineNo`,
+   * unless the layout was soft wrapped, in which case the
+   * continuation lines of a line share its `sourceLineNo` (see
+   * `sourceLineNumbers`).
+   */
+  sourceLineNo: number;
+  /**
+   * The y-coordinate of the fragment's baseline.
+   */
+  baseline: number;
+  /**
+   * The column of the fragment, if the layout was snapped to a grid
+   * (see `Grid`).
+   */
+  column?: number;
+  /**
+   * The row of the fragment, if the layout was snapped to a grid
+   * (see `Grid`).
+   */
+  row?: number;
 };
 
 /**
@@ -87,6 +193,82 @@ export interface FragmentsInfo {
   fragmentsInfo(): FragmentInfo[];
 }
 
+/**
+ * Information about a laid-out line. `top` and `bottom` are the
+ * extent of the line's fragments, and `baseline` is the position of
+ * the baseline of the line's text (i.e. the position of `y = 0` in the
+ * coordinate system of each atom's measured `rect`). These are final
+ * positions, so they include any leading which a layout algorithm
+ * adds between lines.
+ */
+export type LineInfo = {
+  lineNo: number;
+  /**
+   * The line of the input tree which this line belongs to (see
+   * `FragmentInfo.sourceLineNo`).
+   */
+  sourceLineNo: number;
+  top: number;
+  bottom: number;
+  baseline: number;
+};
+
+/**
+ * Layout results which implement this interface can provide
+ * information about their laid-out lines.
+ */
+export interface LinesInfo {
+  /**
+   * Yield every line of the layout (including lines without any
+   * fragments), in order.
+   */
+  linesInfo(): LineInfo[];
+}
+
+/**
+ * The outline of a laid-out `Node`, along with the path to the `Node`
+ * in the input `LayoutTree`.
+ */
+export type NodeOutline = {
+  path: NodePath;
+  outline: Polygon;
+  /**
+   * The `id` of the `Node`, if it has one (see `WithIds`).
+   */
+  id?: string;
+};
+
+/**
+ * Layout results which implement this interface can relate points in
+ * the layout back to the `Node`s of the input `LayoutTree`.
+ */
+export interface HitTest {
+  /**
+   * Yield the outline of every `Node` which has one, in preorder.
+   * `Node`s which don't enclose any fragments may not have an
+   * outline.
+   */
+  nodeOutlines(): NodeOutline[];
+
+  /**
+   * Find the innermost `Node` whose outline contains `p`.
+   *
+   * @param p The point to look up.
+   * @returns The path to the innermost `Node` containing `p`, or
+   * `null` if `p` isn't inside of any `Node`.
+   */
+  nodeAt(p: Point): NodePath | null;
+
+  /**
+   * Find the outline of the `Node` at `path`.
+   *
+   * @param path The path to the `Node`.
+   * @returns The outline of the `Node`, or `null` if there's no
+   * `Node` at `path`, or it has no outline.
+   */
+  outlineOf(path: NodePath): Polygon | null;
+}
+
 /**
  * Find a representative position for a fragment.
  *
@@ -98,40 +280,120 @@ export function fragmentPosition(fragment: FragmentInfo): Point {
   return { x: fragment.rect.left, y: fragment.rect.top };
 }
 
+/**
+ * Find the rectangle of a measured atom in the coordinate system in
+ * which its baseline is at `y = 0`. The layout algorithms place these
+ * rectangles, so that fragments are aligned by their baselines.
+ *
+ * @param atom The measured atom.
+ * @returns The atom's `rect`, translated by its `baseline`.
+ */
+export function baselineRect(atom: { rect: Rect, baseline?: number }): Rect {
+  return translate(atom.rect, { dx: 0, dy: -(atom.baseline ?? 0) });
+}
+
+/**
+ * Find the `LineInfo` of each line of a layout, given its fragments
+ * and the baseline of each line. The extent of each line is the
+ * extent of its fragments. Lines without fragments have no height,
+ * and sit on their baseline.
+ *
+ * @param fragments The laid-out fragments.
+ * @param baselines The baseline of each line. There is one element
+ * for every line in the layout. If the baseline of a line isn't
+ * known (because it has no fragments) the element may be
+ * `undefined`, in which case the line is placed at the bottom of the
+ * previous line.
+ * @param sourceLines The line of the input tree of each line (see
+ * `sourceLineNumbers`).
+ * @returns The `LineInfo` of each line.
+ */
+export function linesOfFragments(fragments: FragmentInfo[], baselines: (number | undefined)[], sourceLines: number[]): LineInfo[] {
+  let extents: ({ top: number, bottom: number } | undefined)[] = baselines.map(_ => undefined);
+  for(const { rect, lineNo } of fragments) {
+    const extent = extents[lineNo];
+    extents[lineNo] = extent === undefined
+      ? { top: rect.top, bottom: rect.bottom }
+      : { top: Math.min(extent.top, rect.top), bottom: Math.max(extent.bottom, rect.bottom) };
+  }
+
+  let out: LineInfo[] = [];
+  let lastBottom = 0;
+  for(let lineNo = 0; lineNo < baselines.length; ++lineNo) {
+    const baseline = baselines[lineNo] ?? extents[lineNo]?.bottom ?? lastBottom;
+    const { top, bottom } = extents[lineNo] ?? { top: baseline, bottom: baseline };
+    out.push({ lineNo, sourceLineNo: sourceLines[lineNo], top, bottom, baseline });
+    lastBottom = bottom;
+  }
+  return out;
+}
+
+export type MeasureOptions = {
+  /**
+   * The distance between tab stops, in columns (see
+   * `advanceColumn`). Defaults to `DEFAULT_TAB_WIDTH`.
+   */
+  tabWidth: number;
+};
+
 /**
  * Given a layout tree with text nodes at the leaves, annotate each
  * leaf with a rectangle derived from the provided `measure` function.
  *
+ * The width of a `Spacer` depends on the column at which it begins,
+ * which is found by counting the columns of the text before it on
+ * its line: the text of each `Spacer` is expanded with
+ * `expandSpacerText` (so that tabs advance to the next tab stop, and
+ * wide and zero-width characters occupy two and no columns) before
+ * it's measured.
+ *
  * @param tree The layout tree to annotate.
  * @param measure A function which, given some text, can produce a
  * rectangle representing the bounds of the text.
+ * @param options Options controlling the measurement of `Spacer`s.
  * @returns A new layout tree, identical to the input, except that
  * each leaf has been annotated with its size according to `measure`.
  */
-export function measureLayoutTree(tree: LayoutTree, measure: (text: string) => Rect): LayoutTree<WithMeasurements> {
-  switch(tree.type) {
-    case "Newline": return tree;
-    case "Atom": {
-      const rect = measure(tree.text);
-      return {
-        ...tree,
-        rect
-      }
-    };
-    case "Spacer": {
-      const w = width(measure(tree.text));
-      return {
-        ...tree,
-        width: w
-      }
-    };
-    case "Node": {
-      return {
-        ...tree,
-        children: tree.children.map(child => measureLayoutTree(child, measure))
+export function measureLayoutTree(
+  tree: LayoutTree,
+  measure: (text: string) => Rect,
+  options?: Partial<MeasureOptions>
+): LayoutTree<WithMeasurements> {
+  const tabWidth = options?.tabWidth ?? DEFAULT_TAB_WIDTH;
+  let column = 0;
+
+  const go = (tree: LayoutTree): LayoutTree<WithMeasurements> => {
+    switch(tree.type) {
+      case "Newline": {
+        column = 0;
+        return tree;
       }
-    };
-  }
+      case "Atom": {
+        const rect = measure(tree.text);
+        column = advanceColumn(tree.text, column, tabWidth);
+        return {
+          ...tree,
+          rect
+        }
+      };
+      case "Spacer": {
+        const w = width(measure(expandSpacerText(tree.text, column, tabWidth)));
+        column = advanceColumn(tree.text, column, tabWidth);
+        return {
+          ...tree,
+          width: w
+        }
+      };
+      case "Node": {
+        return {
+          ...tree,
+          children: tree.children.map(go)
+        }
+      };
+    }
+  };
+
+  return go(tree);
 }
 
 /**
@@ -216,3 +478,108 @@ export function *eachAtom<A extends Ann>(tree: LayoutTree<A>): IterableIterator<
     }
   }
 }
+
+/**
+ * A path from the root of a `LayoutTree` to one of its `Node`s. Each
+ * element is the index of a child in the `children` of the `Node` at
+ * that depth. The empty path refers to the root.
+ */
+export type NodePath = number[];
+
+/**
+ * Find the subtree of `tree` at `path`.
+ *
+ * @param tree The tree to search.
+ * @param path The path to follow from the root of `tree`.
+ * @returns The subtree at `path`, or `null` if `path` doesn't refer
+ * to a subtree of `tree`.
+ */
+export function subtreeAtPath<A extends Ann>(tree: LayoutTree<A>, path: NodePath): LayoutTree<A> | null {
+  let root: LayoutTree<A> = tree;
+  for(const index of path) {
+    if(root.type !== "Node" || index < 0 || index >= root.children.length) {
+      return null;
+    }
+    root = root.children[index];
+  }
+  return root;
+}
+
+/**
+ * Find the line on which the subtree at `path` begins; that is, the
+ * number of `Newline`s which precede it in document order. If `path`
+ * doesn't refer to a subtree of `tree`, then the line of the deepest
+ * subtree along `path` is returned instead.
+ *
+ * @param tree The tree to search.
+ * @param path The path to follow from the root of `tree`.
+ * @returns The (zero-based) line number on which the subtree at
+ * `path` begins.
+ */
+export function lineOfPath<A extends Ann>(tree: LayoutTree<A>, path: NodePath): number {
+  const countNewlines = (root: LayoutTree<A>): number => {
+    switch(root.type) {
+      case "Newline": return 1;
+      case "Atom": return 0;
+      case "Spacer": return 0;
+      case "Node": {
+        let n = 0;
+        for(const child of root.children) {
+          n += countNewlines(child);
+        }
+        return n;
+      }
+    }
+  };
+
+  let line = 0;
+  let root: LayoutTree<A> = tree;
+  for(const index of path) {
+    if(root.type !== "Node" || index < 0 || index >= root.children.length) {
+      break;
+    }
+
+    for(let i = 0; i < index; ++i) {
+      line += countNewlines(root.children[i]);
+    }
+    root = root.children[index];
+  }
+
+  return line;
+}
+
+/**
+ * Find the path of every `Node` in `tree`, in preorder (i.e. each
+ * `Node` comes before its descendants, and descendants are in
+ * document order).
+ *
+ * @param tree The tree whose `Node`s to find.
+ * @returns The path to each `Node` in `tree`.
+ */
+export function nodePaths<A extends Ann>(tree: LayoutTree<A>): NodePath[] {
+  const out: NodePath[] = [];
+  const go = (root: LayoutTree<A>, path: NodePath) => {
+    if(root.type !== "Node") {
+      return;
+    }
+
+    out.push(path);
+    root.children.forEach((child, i) => go(child, [...path, i]));
+  };
+
+  go(tree, []);
+  return out;
+}
+
+/**
+ * Find the `id` of a `Node` (see `WithIds`). Layout algorithms accept
+ * trees with arbitrary annotations, so this function checks for the
+ * `id` at runtime.
+ *
+ * @param node The `Node` whose `id` to find.
+ * @returns The `id` of `node`, or `undefined` if it doesn't have one.
+ */
+export function nodeIdOf<A extends Ann>(node: Node<A>): string | undefined {
+  const id = (node as Node<WithIds>).id;
+  return typeof id === "string" ? id : undefined;
+}
@@ -0,0 +1,319 @@
+/**
+ * This module implements a text format for `LayoutTree`s, in which
+ * each `Node` is written in brackets and refers to a named style:
+ *
+ *     const [abs]@nm = [([x]@nm) =>
+ *       [[x]@nm < 0 ? -[x]@nm : [x]@nm]@e]@e
+ *
+ *     @nm { fill: #FAFA37; border: 0 2; }
+ *     @e { padding: 2; fill: #FA9D5A; }
+ *     @strong : @e { border: 1 black; }
+ *
+ * The text before the style definitions is the tree:
+ *
+ * - `[...]` is a `Node`, and `[...]@name` is a `Node` whose
+ *   `styleRef` is `name`.
+ * - Each line break is a `Newline`, and the spaces and tabs at the
+ *   beginning of the next line are a `Spacer`.
+ * - Any other text is an `Atom`. The characters `[`, `]`, `@`, `#`
+ *   and `\` are written with a backslash before them (`\[`).
+ *
+ * The tree is the children of a root `Node` without padding. It ends
+ * at the first line which begins with `@` (after any indentation); the
+ * line breaks before that line aren't part of it.
+ *
+ * Each style definition is `@name { ... }`, where the block contains
+ * the style attributes described in `style.ts`. A definition may
+ * inherit from others (`@name : @base, @other { ... }`): the styles
+ * of its bases are merged in order (with `mergeStyles`), and then its
+ * own attributes. The padding and style of each `Node` with a
+ * `styleRef` are those of the style definition to which it refers (if
+ * there is one; otherwise, the `Node` has no padding or style).
+ */
+
+import assert from "./assert";
+import { LayoutTree, Node, WithStyleRefs } from "./layout-tree";
+import { Scanner, Style, mergeStyles, parseStyleBlock, printStyleBlock } from "./style";
+
+/**
+ * A style definition, before it's merged with the definitions from
+ * which it inherits.
+ */
+export type StyleDefinition = {
+  /**
+   * The names of the definitions from which this one inherits.
+   */
+  bases: string[];
+  style: Style;
+};
+
+/**
+ * The result of `parseMarkup`.
+ */
+export type Markup = {
+  /**
+   * The tree, whose `Node`s have the padding and style of the
+   * definitions to which they refer.
+   */
+  tree: Node<WithStyleRefs>;
+  /**
+   * The style definitions, by name, in the order in which they were
+   * written.
+   */
+  styles: Map<string, StyleDefinition>;
+};
+
+/**
+ * The characters which are written with a backslash in an `Atom`.
+ */
+const ESCAPED = "\\[]@#";
+
+/**
+ * The characters which end the text of an `Atom`. A backslash which
+ * isn't followed by one of `ESCAPED` is part of the text.
+ */
+const SPECIAL = "[]@#\n";
+
+/**
+ * Parse the markup format (see this module's description).
+ *
+ * @param text The text to parse.
+ * @returns The tree, and its style definitions.
+ * @throws `ParseError` if `text` isn't valid markup, or a style
+ * definition inherits from one which isn't defined.
+ */
+export function parseMarkup(text: string): Markup {
+  const scanner = new Scanner(text.replace(/\r\n/g, "\n"));
+
+  /**
+   * Each `Node` with a style reference.
+   */
+  let refs: Node<WithStyleRefs>[] = [];
+
+  /**
+   * Check whether the style definitions begin after the line break at
+   * the cursor (or at the cursor, at the beginning of the text).
+   */
+  const atDefinitions = () => {
+    const re = scanner.index === 0 ? /[ \t]*@/y : /\n([ \t]*\n)*[ \t]*@/y;
+    re.lastIndex = scanner.index;
+    return re.test(scanner.text);
+  };
+
+  const parseText = (): string => {
+    let out = "";
+    while(!scanner.atEnd()) {
+      const c = scanner.text[scanner.index];
+      const next = scanner.text[scanner.index + 1];
+      if(c === "\\" && next !== undefined && ESCAPED.includes(next)) {
+        out += next;
+        scanner.index += 2;
+      } else if(SPECIAL.includes(c)) {
+        break;
+      } else {
+        out += c;
+        scanner.index += 1;
+      }
+    }
+    return out;
+  };
+
+  /**
+   * Parse the children of a `Node`, up to its `]` (or, if `open` is
+   * `null`, the children of the root).
+   *
+   * @param open The index of the `Node`'s `[`.
+   */
+  const parseChildren = (open: number | null): LayoutTree<WithStyleRefs>[] => {
+    let out: LayoutTree<WithStyleRefs>[] = [];
+    for(;;) {
+      if(scanner.atEnd()) {
+        if(open !== null) {
+          scanner.fail(`Unclosed "["`, open);
+        }
+        return out;
+      } else if(open === null && atDefinitions()) {
+        return out;
+      } else if(scanner.peek("]")) {
+        if(open === null) {
+          scanner.fail(`Unexpected "]"`);
+        }
+        return out;
+      } else if(scanner.accept("\n")) {
+        out.push({ type: "Newline" });
+        const ws = scanner.tryRegexp(/[ \t]+/y);
+        if(ws !== null) {
+          out.push({ type: "Spacer", text: ws });
+        }
+      } else if(scanner.peek("[")) {
+        const at = scanner.index;
+        scanner.expect("[");
+        const node: Node<WithStyleRefs> = { type: "Node", padding: 0, children: parseChildren(at) };
+        scanner.expect("]");
+        if(scanner.accept("@")) {
+          node.styleRef = scanner.name();
+          refs.push(node);
+        }
+        out.push(node);
+      } else if(scanner.peek("@") || scanner.peek("#")) {
+        const c = scanner.text[scanner.index];
+        scanner.fail(`Unexpected "${c}" (write "\\${c}" for the character)`);
+      } else {
+        out.push({ type: "Atom", text: parseText() });
+      }
+    }
+  };
+
+  const children = parseChildren(null);
+
+  let styles = new Map<string, StyleDefinition>();
+  let definedAt = new Map<string, number>();
+  let basesAt = new Map<string, number[]>();
+  scanner.skipWhitespace();
+  while(!scanner.atEnd()) {
+    const at = scanner.index;
+    scanner.expect("@");
+    const name = scanner.name();
+    if(styles.has(name)) {
+      scanner.fail(`The style "${name}" is already defined`, at);
+    }
+    scanner.skipWhitespace();
+
+    let bases: string[] = [], indices: number[] = [];
+    if(scanner.accept(":")) {
+      do {
+        scanner.skipWhitespace();
+        indices.push(scanner.index);
+        scanner.expect("@");
+        bases.push(scanner.name());
+        scanner.skipWhitespace();
+      } while(scanner.accept(","));
+    }
+
+    styles.set(name, { bases, style: parseStyleBlock(scanner) });
+    definedAt.set(name, at);
+    basesAt.set(name, indices);
+    scanner.skipWhitespace();
+  }
+
+  // Merge each definition with those from which it inherits.
+  let resolved = new Map<string, Style>();
+  let resolving = new Set<string>();
+  const resolve = (name: string): Style => {
+    const done = resolved.get(name);
+    if(done !== undefined) {
+      return done;
+    } else if(resolving.has(name)) {
+      scanner.fail(`The style "${name}" inherits from itself`, definedAt.get(name));
+    }
+
+    resolving.add(name);
+    const defn = styles.get(name)!;
+    let style: Style = {};
+    defn.bases.forEach((base, i) => {
+      if(!styles.has(base)) {
+        scanner.fail(`The style "${base}" isn't defined`, basesAt.get(name)![i]);
+      }
+      mergeStyles(style, resolve(base));
+    });
+    mergeStyles(style, defn.style);
+    resolving.delete(name);
+
+    resolved.set(name, style);
+    return style;
+  };
+
+  styles.forEach((_, name) => resolve(name));
+
+  for(const node of refs) {
+    if(!styles.has(node.styleRef!)) {
+      continue;
+    }
+
+    const { padding, ...sty } = resolve(node.styleRef!);
+    node.padding = padding ?? 0;
+    if(Object.keys(sty).length > 0) {
+      node.sty = sty;
+    }
+  }
+
+  return { tree: { type: "Node", padding: 0, children }, styles };
+}
+
+function escape(text: string): string {
+  let out = "";
+  for(const c of text) {
+    out += ESCAPED.includes(c) ? "\\" + c : c;
+  }
+  return out;
+}
+
+/**
+ * Print a tree and style definitions in the markup format. Printing
+ * the result of `parseMarkup` produces text which parses into the
+ * same tree and definitions.
+ *
+ * Only the `styleRef` of each `Node` is printed (not its padding or
+ * style), and adjacent `Atom`s are printed as one. A `Spacer` is
+ * printed as its text, which should be spaces and tabs after a
+ * `Newline`.
+ *
+ * Two kinds of trees don't survive printing and parsing:
+ *
+ * - If there are style definitions, the `Newline`s and `Spacer`s at
+ *   the end of the tree are lost, since the line breaks before the
+ *   definitions aren't part of the tree.
+ * - A `Node` with a `styleRef` can't be followed by an `Atom` which
+ *   begins with a letter, digit, `_` or `-`, since the `Atom` would
+ *   be read as part of the name. Printing such a tree throws.
+ *
+ * @param tree The tree to print. If it's a `Node`, only its children
+ * are printed, since the root of the format's tree is implicit.
+ * @param styles The style definitions to print.
+ * @returns The text of the markup.
+ * @throws If a `Node` with a `styleRef` is followed by an `Atom`
+ * which begins with a name character.
+ */
+export function printMarkup(tree: LayoutTree<WithStyleRefs>, styles: Map<string, StyleDefinition> = new Map()): string {
+  const printChildren = (children: LayoutTree<WithStyleRefs>[]): string => {
+    let out = "";
+    children.forEach((child, i) => {
+      // The name of a style reference would run into the text after it.
+      const next = children[i + 1];
+      assert(
+        !(child.type === "Node" && child.styleRef !== undefined && next?.type === "Atom" && /^[a-zA-Z0-9_-]/.test(next.text)),
+        `The style reference "${child.type === "Node" ? child.styleRef : ""}" can't be followed by a name character`
+      );
+      out += go(child);
+    });
+    return out;
+  };
+
+  const go = (root: LayoutTree<WithStyleRefs>): string => {
+    switch(root.type) {
+      case "Newline": return "\n";
+      case "Atom": return escape(root.text);
+      case "Spacer": return root.text;
+      case "Node": {
+        const children = printChildren(root.children);
+        return root.styleRef !== undefined ? `[${children}]@${root.styleRef}` : `[${children}]`;
+      }
+    }
+  };
+
+  const out = printChildren(tree.type === "Node" ? tree.children : [tree]);
+
+  let definitions: string[] = [];
+  styles.forEach(({ bases, style }, name) => {
+    const inherits = bases.length > 0 ? " : " + bases.map(base => "@" + base).join(", ") : "";
+    definitions.push(`@${name}${inherits} ${printStyleBlock(style)}`);
+  });
+
+  if(definitions.length === 0) {
+    return out;
+  }
+  // Line breaks at the beginning of the text would be read as
+  // `Newline`s, so the definitions of an empty tree begin at once.
+  const separator = out === "" ? "" : "\n\n";
+  return out + separator + definitions.join("\n\n") + "\n";
+}
@@ -1,7 +1,7 @@
 import assert from "./assert";
 import { FragmentsInfo, fragmentPosition } from "./layout-tree";
 import { Point } from "./point";
-import { Svg, Render, SVGStyle } from "./render";
+import { Render, RenderTarget, SVGStyle } from "./render";
 import { centerPoint, expandToInclude, Rect } from "./rect";
 
 type HorzSegment = [Point, Point];
@@ -48,19 +48,19 @@ function mean(xs: number[]): number {
 /**
  * Draw an "X" at `point`.
  *
- * @param svg The svg render target.
+ * @param target The render target.
  * @param sty The style to apply to the "X".
  * @param point The point at which to center the "X".
  * @param size The width/height of the "X".
  */
-function renderX(svg: Svg, sty: SVGStyle, point: Point, size: number) {
+function renderX(target: RenderTarget, sty: SVGStyle, point: Point, size: number) {
   const halfSize = size / 2;
-  svg
+  target
     .line(
       point.x - halfSize, point.y - halfSize,
       point.x + halfSize, point.y + halfSize
     ).stroke(sty.stroke);
-  svg
+  target
     .line(
       point.x + halfSize, point.y - halfSize,
       point.x - halfSize, point.y + halfSize
@@ -116,29 +116,29 @@ export class MeshDistanceMesh extends Render {
     return new MeshDistanceMesh(horzSegments, vertSegments);
   }
 
-  render(svg: Svg, sty: SVGStyle) {
+  render(target: RenderTarget, sty: SVGStyle) {
     for(const line of this.horzSegments) {
       for(const [b, e] of line) {
-        svg
+        target
           .line(b.x, b.y, e.x, e.y)
           .stroke(sty.stroke);
 
-        renderX(svg, sty, e, 4);
+        renderX(target, sty, e, 4);
       }
     }
 
     let fst: boolean = true;
     for(const [b, e] of this.vertSegments) {
-      svg
+      target
         .line(b.x, b.y, e.x, e.y)
         .stroke(sty.stroke);
 
       if(fst) {
-        renderX(svg, sty, b, 4);
+        renderX(target, sty, b, 4);
         fst = false;
       }
 
-      renderX(svg, sty, e, 4);
+      renderX(target, sty, e, 4);
     }
   }
 
@@ -0,0 +1,182 @@
+/**
+ * This module implements the minimum sizes of `Node`s (see
+ * `Node.minWidth` and `Node.minHeight`). Each line of a `Node` whose
+ * content is narrower or shorter than the `Node`'s minimum size is
+ * extended by a _strut_: an invisible `Atom` without text at the end
+ * of the line, which takes up the missing space. The layout
+ * algorithms lay out struts like any other atom, so an empty `Node`
+ * (such as a placeholder in a structure editor) still has an outline
+ * which can be seen and clicked, but they don't report struts as
+ * fragments (see `isStrut`).
+ */
+
+import { Atom, LayoutTree, Node, WithMeasurements, baselineRect, paddingSides } from "./layout-tree";
+import { addSides } from "./rect";
+import { Extent } from "./vertical-align";
+
+type Strut = { strut: true };
+
+/**
+ * Check whether an atom is a strut inserted by `withMinimumSizes`.
+ * The layout algorithms copy the annotations of each atom, so this
+ * function checks for the mark at runtime.
+ *
+ * @param atom The atom to check.
+ * @returns `true` if `atom` is a strut.
+ */
+export function isStrut(atom: object): boolean {
+  return (atom as Partial<Strut>).strut === true;
+}
+
+/**
+ * The width and vertical extent of the last line of a sequence of
+ * `LayoutTree`s.
+ */
+type LineContent = { width: number, extent?: Extent };
+
+/**
+ * Measure the last line of `trees`. The padding and margin of nested
+ * `Node`s are counted on each of their lines, as in the layout
+ * algorithms which surround each fragment with them.
+ */
+function measureLastLine(trees: LayoutTree<WithMeasurements>[]): LineContent {
+  let width = 0;
+  let line = 0;
+
+  /**
+   * Find the extent of the last line of a sequence of trees, given
+   * the extent of each tree on the line on which it ends.
+   */
+  const lastExtent = (roots: LayoutTree<WithMeasurements>[], indent: number): Extent | undefined => {
+    let extent: Extent | undefined = undefined;
+    for(const root of roots) {
+      const firstLine = line;
+      const e = go(root, indent);
+      if(line !== firstLine || extent === undefined) {
+        extent = e;
+      } else if(e !== undefined) {
+        extent = { top: Math.min(extent.top, e.top), bottom: Math.max(extent.bottom, e.bottom) };
+      }
+    }
+    return extent;
+  };
+
+  const go = (root: LayoutTree<WithMeasurements>, indent: number): Extent | undefined => {
+    switch(root.type) {
+      case "Newline": {
+        width = indent;
+        line += 1;
+        return undefined;
+      }
+      case "Spacer": {
+        width += root.width;
+        return undefined;
+      }
+      case "Atom": {
+        const r = baselineRect(root);
+        width += r.right - r.left;
+        return { top: r.top, bottom: r.bottom };
+      }
+      case "Node": {
+        const space = addSides(paddingSides(root.padding), paddingSides(root.margin ?? 0));
+        width += space.left;
+        const extent = lastExtent(root.children, indent + space.left);
+        width += space.right;
+        return extent === undefined
+          ? undefined
+          : { top: extent.top - space.top, bottom: extent.bottom + space.bottom };
+      }
+    }
+  };
+
+  const extent = lastExtent(trees, 0);
+  return { width, extent };
+}
+
+/**
+ * Make the strut which extends a line of `node` to its minimum size.
+ *
+ * @param node The `Node` whose line to extend.
+ * @param content The content of the line.
+ * @returns A strut, or `null` if the line is already large enough.
+ */
+function strutOf(node: Node<WithMeasurements>, content: LineContent): LayoutTree<WithMeasurements> | null {
+  const minWidth = node.minWidth ?? 0;
+  const minHeight = node.minHeight ?? 0;
+  const dw = Math.max(minWidth - content.width, 0);
+
+  let top: number, bottom: number;
+  if(content.extent === undefined) {
+    if(dw === 0 && minHeight <= 0) {
+      return null;
+    }
+
+    // An empty line has no extent to grow, so the strut sits on the
+    // baseline.
+    top = -Math.max(minHeight, 0);
+    bottom = 0;
+  } else {
+    const dh = Math.max(minHeight - (content.extent.bottom - content.extent.top), 0);
+    if(dw === 0 && dh === 0) {
+      return null;
+    }
+
+    // The strut spans the whole extent of the line, so that the
+    // outline of the `Node` stays rectangular in the algorithms which
+    // inflate each fragment separately.
+    top = content.extent.top - dh / 2;
+    bottom = content.extent.bottom + dh / 2;
+  }
+
+  const strut: Atom<WithMeasurements> & Strut = {
+    type: "Atom",
+    text: "",
+    rect: { left: 0, right: dw, top, bottom },
+    strut: true
+  };
+  return strut;
+}
+
+/**
+ * Extend each `Node` with a `minWidth` or `minHeight` to its minimum
+ * size, by putting a strut at the end of each line on which the
+ * `Node`'s own children end.
+ *
+ * @param tree The layout tree whose `Node`s to extend.
+ * @returns The extended tree. `Node`s without a minimum size (and
+ * their subtrees, if they don't contain such `Node`s) are unchanged.
+ */
+export function withMinimumSizes(tree: LayoutTree<WithMeasurements>): LayoutTree<WithMeasurements> {
+  if(tree.type !== "Node") {
+    return tree;
+  }
+
+  const children = tree.children.map(withMinimumSizes);
+  const changed = children.some((child, i) => child !== tree.children[i]);
+  if(tree.minWidth === undefined && tree.minHeight === undefined) {
+    return changed ? { ...tree, children } : tree;
+  }
+
+  let out: LayoutTree<WithMeasurements>[] = [];
+  let segment: LayoutTree<WithMeasurements>[] = [];
+  const endSegment = () => {
+    out.push(...segment);
+    const strut = strutOf(tree, measureLastLine(segment));
+    if(strut !== null) {
+      out.push(strut);
+    }
+    segment = [];
+  };
+
+  for(const child of children) {
+    if(child.type === "Newline") {
+      endSegment();
+      out.push(child);
+    } else {
+      segment.push(child);
+    }
+  }
+  endSegment();
+
+  return { ...tree, children: out };
+}
@@ -0,0 +1,400 @@
+import { Point } from "./point";
+import { DrawElement, FillAndStroke, PathCommand, Render, RenderTarget, renderTo, solidColorOfPaint } from "./render";
+
+type RGB = [number, number, number];
+
+const NAMED_COLORS: { [name: string]: string } = {
+  black: "#000000",
+  white: "#ffffff",
+  gray: "#808080",
+  grey: "#808080",
+  silver: "#c0c0c0",
+  red: "#ff0000",
+  maroon: "#800000",
+  green: "#008000",
+  lime: "#00ff00",
+  olive: "#808000",
+  blue: "#0000ff",
+  navy: "#000080",
+  teal: "#008080",
+  aqua: "#00ffff",
+  cyan: "#00ffff",
+  fuchsia: "#ff00ff",
+  magenta: "#ff00ff",
+  purple: "#800080",
+  yellow: "#ffff00",
+  orange: "#ffa500",
+  pink: "#ffc0cb",
+  brown: "#a52a2a",
+  lightblue: "#add8e6",
+  lightcoral: "#f08080",
+  lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3",
+  lightgrey: "#d3d3d3",
+  lightgreen: "#90ee90",
+  lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a",
+  lightyellow: "#ffffe0",
+  darkgray: "#a9a9a9",
+  darkgrey: "#a9a9a9",
+  gainsboro: "#dcdcdc",
+  whitesmoke: "#f5f5f5",
+};
+
+/**
+ * Parse a CSS color. Hex colors (`#rgb`, `#rgba`, `#rrggbb` and
+ * `#rrggbbaa`), `rgb(...)`/`rgba(...)` and a handful of named colors
+ * are understood. PDF has no notion of partial transparency without
+ * extra machinery, so the alpha channel is only used to decide
+ * whether the color is visible at all.
+ *
+ * @param color The color to parse.
+ * @returns The color's red, green and blue components in the range
+ * `[0, 1]`, or `null` if the color is fully transparent.
+ */
+function parseColor(color: string): RGB | null {
+  color = color.trim().toLowerCase();
+  if(color === "none" || color === "transparent") {
+    return null;
+  }
+  color = NAMED_COLORS[color] ?? color;
+
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color);
+  if(hex) {
+    let digits = hex[1];
+    if(digits.length === 3 || digits.length === 4) {
+      digits = digits.split("").map(d => d + d).join("");
+    }
+    if(digits.length === 6 || digits.length === 8) {
+      const channels = digits.match(/../g)!.map(c => parseInt(c, 16) / 255);
+      if(channels.length === 4 && channels[3] === 0) {
+        return null;
+      }
+      return [channels[0], channels[1], channels[2]];
+    }
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(color);
+  if(rgb) {
+    const parts = rgb[1].split(/[\s,\/]+/).filter(p => p.length > 0);
+    const channel = (p: string) => p.endsWith("%")
+      ? parseFloat(p) / 100
+      : parseFloat(p) / 255;
+    if(parts.length === 4 && parseFloat(parts[3]) === 0) {
+      return null;
+    }
+    if(parts.length >= 3) {
+      return [channel(parts[0]), channel(parts[1]), channel(parts[2])];
+    }
+  }
+
+  // Fall back to black for colors we don't understand.
+  return [0, 0, 0];
+}
+
+/**
+ * Format a number for inclusion in a PDF content stream.
+ */
+function num(n: number): string {
+  const rounded = Math.round(n * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function colorOperator(rgb: RGB, op: "rg" | "RG"): string {
+  return `${rgb.map(c => num(Math.min(Math.max(c, 0), 1))).join(" ")} ${op}`;
+}
+
+/**
+ * The constant used to approximate a quarter circle with a cubic
+ * bézier curve.
+ */
+const KAPPA = 0.5522847498;
+
+/**
+ * The standard PDF fonts used for text, and the ascent of each (as a
+ * fraction of the font size).
+ */
+const FONTS = {
+  F1: { baseFont: "Helvetica", ascent: 0.718 },
+  F2: { baseFont: "Courier", ascent: 0.629 },
+};
+
+type FontName = keyof typeof FONTS;
+
+/**
+ * Choose one of the standard PDF fonts to stand in for a CSS font
+ * family.
+ */
+function fontOfFamily(family: string | undefined): FontName {
+  if(family !== undefined && /mono|courier|consol|inconsolata|menlo/i.test(family)) {
+    return "F2";
+  }
+  return "F1";
+}
+
+/**
+ * Encode a string as a PDF string literal using WinAnsiEncoding.
+ * Characters which can't be represented are replaced with `?`.
+ */
+function pdfString(text: string): string {
+  let out = "(";
+  for(const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if(ch === "\\" || ch === "(" || ch === ")") {
+      out += "\\" + ch;
+    } else if(code >= 32 && code < 127) {
+      out += ch;
+    } else if(code >= 160 && code < 256) {
+      out += "\\" + code.toString(8).padStart(3, "0");
+    } else {
+      out += "?";
+    }
+  }
+  return out + ")";
+}
+
+/**
+ * Append the path construction operators for `commands` to `out`.
+ */
+function tracePath(out: string[], commands: PathCommand[]) {
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = current;
+  for(const cmd of commands) {
+    switch(cmd.type) {
+      case "MoveTo": {
+        out.push(`${num(cmd.x)} ${num(cmd.y)} m`);
+        current = { x: cmd.x, y: cmd.y };
+        start = current;
+      } break;
+      case "LineTo": {
+        out.push(`${num(cmd.x)} ${num(cmd.y)} l`);
+        current = { x: cmd.x, y: cmd.y };
+      } break;
+      case "ArcTo": {
+        // The control points of the bézier lie on the tangent lines
+        // through `corner`.
+        const c1x = current.x + KAPPA * (cmd.corner.x - current.x);
+        const c1y = current.y + KAPPA * (cmd.corner.y - current.y);
+        const c2x = cmd.x + KAPPA * (cmd.corner.x - cmd.x);
+        const c2y = cmd.y + KAPPA * (cmd.corner.y - cmd.y);
+        out.push(`${num(c1x)} ${num(c1y)} ${num(c2x)} ${num(c2y)} ${num(cmd.x)} ${num(cmd.y)} c`);
+        current = { x: cmd.x, y: cmd.y };
+      } break;
+      case "Close": {
+        out.push("h");
+        current = start;
+      } break;
+    }
+  }
+}
+
+/**
+ * Find the name of the graphics state parameter dictionary which sets
+ * the fill opacity to `opacity`, adding it to `opacities` if this is
+ * the first time it is used.
+ *
+ * @param opacities The fill opacities used so far, indexed by the
+ * number in the name of their graphics state.
+ * @param opacity The fill opacity.
+ * @returns The name of the graphics state.
+ */
+function graphicsStateOf(opacities: number[], opacity: number): string {
+  let index = opacities.indexOf(opacity);
+  if(index < 0) {
+    index = opacities.push(opacity) - 1;
+  }
+  return `GS${index}`;
+}
+
+/**
+ * Append the painting operators for an element with the given fill
+ * and stroke to `out`. Unspecified fills are black, and unspecified
+ * strokes are not drawn, as in SVG. Gradients and patterns are
+ * approximated by a solid color.
+ *
+ * The path must already have been constructed; since a path may not
+ * be interrupted by changes to the graphics state, a fill opacity must
+ * be set with `paintWithOpacity` instead.
+ */
+function paint(out: string[], fs: FillAndStroke, canFill: boolean) {
+  const fill = canFill ? parseColor(solidColorOfPaint(fs.fill ?? "black")) : null;
+  const stroke = fs.stroke !== undefined ? parseColor(fs.stroke) : null;
+
+  if(fill !== null) {
+    out.push(colorOperator(fill, "rg"));
+  }
+  if(stroke !== null) {
+    out.push(colorOperator(stroke, "RG"));
+    out.push(`${num(fs.strokeWidth ?? 1)} w`);
+  }
+
+  const dashed = stroke !== null && fs.strokeDasharray !== undefined && fs.strokeDasharray.length > 0;
+  if(dashed) {
+    out.push(`[${fs.strokeDasharray!.map(num).join(" ")}] 0 d`);
+  }
+
+  if(fill !== null && stroke !== null) {
+    out.push("B");
+  } else if(fill !== null) {
+    out.push("f");
+  } else if(stroke !== null) {
+    out.push("S");
+  } else {
+    // End the path without painting it.
+    out.push("n");
+  }
+
+  if(dashed) {
+    out.push("[] 0 d");
+  }
+}
+
+/**
+ * Construct a path with `trace` and paint it, first setting the fill
+ * opacity of the element (if it has one). The graphics state is
+ * saved and restored around the element so the opacity doesn't leak
+ * into later elements.
+ */
+function paintWithOpacity(
+  out: string[],
+  opacities: number[],
+  fs: FillAndStroke,
+  canFill: boolean,
+  trace: () => void
+) {
+  const opacity = canFill ? fs.fillOpacity : undefined;
+  if(opacity === undefined || opacity === 1) {
+    trace();
+    paint(out, fs, canFill);
+    return;
+  }
+
+  out.push(`q /${graphicsStateOf(opacities, opacity)} gs`);
+  trace();
+  paint(out, fs, canFill);
+  out.push("Q");
+}
+
+function drawElement(out: string[], opacities: number[], elt: DrawElement) {
+  switch(elt.type) {
+    case "text": {
+      const fill = parseColor(elt.fill ?? "black");
+      if(fill === null) {
+        return;
+      }
+      const font = fontOfFamily(elt.fontFamily);
+      const size = elt.fontSize ?? 16;
+      const angle = (elt.rotate ?? 0) * Math.PI / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      // Text which hangs from its top is moved down (in the text's
+      // own rotated frame) by the font's ascent.
+      const drop = elt.dominantBaseline === "text-before-edge" ? FONTS[font].ascent * size : 0;
+      const x = elt.x - sin * drop;
+      const y = elt.y + cos * drop;
+      out.push(colorOperator(fill, "rg"));
+      // The text matrix flips the y-axis back, so that glyphs are
+      // upright in the page's flipped coordinate system, and rotates
+      // them clockwise by `elt.rotate`.
+      out.push(`BT /${font} ${num(size)} Tf ${num(cos)} ${num(sin)} ${num(sin)} ${num(-cos)} ${num(x)} ${num(y)} Tm ${pdfString(elt.text)} Tj ET`);
+    } break;
+    case "rect": {
+      paintWithOpacity(out, opacities, elt, true, () => {
+        out.push(`${num(elt.x)} ${num(elt.y)} ${num(elt.width)} ${num(elt.height)} re`);
+      });
+    } break;
+    case "path": {
+      paintWithOpacity(out, opacities, elt, true, () => tracePath(out, elt.commands));
+    } break;
+    case "line": {
+      paintWithOpacity(out, opacities, elt, false, () => {
+        out.push(`${num(elt.x1)} ${num(elt.y1)} m ${num(elt.x2)} ${num(elt.y2)} l`);
+      });
+    } break;
+  }
+}
+
+/**
+ * A `RenderTarget` which writes its elements as a single page, vector
+ * PDF document. One unit in the target's output size is one PDF
+ * point. Text is set in the standard Helvetica or Courier fonts
+ * (depending on the requested font family), so no fonts are
+ * embedded. Fill opacities are supported, but gradients and patterns
+ * are drawn with a solid color (see `solidColorOfPaint`), and blurs
+ * are not drawn.
+ */
+export class PdfTarget extends RenderTarget {
+  build(): Uint8Array {
+    const vb = this.viewbox() ?? { left: 0, top: 0, right: this.width() ?? 0, bottom: this.height() ?? 0 };
+    const size = this.outputSize() ?? { width: this.width() ?? 0, height: this.height() ?? 0, sx: 1, sy: 1 };
+
+    // Map the viewbox onto the page, flipping the y-axis since PDF's
+    // origin is at the bottom left.
+    const content: string[] = [
+      `${num(size.sx)} 0 0 ${num(-size.sy)} ${num(-vb.left * size.sx)} ${num(vb.top * size.sy + size.height)} cm`,
+    ];
+    const opacities: number[] = [];
+    for(const elt of this.elements) {
+      drawElement(content, opacities, elt);
+    }
+    const stream = content.join("\n");
+
+    // The graphics states used for fill opacities are written inline
+    // in the page's resource dictionary.
+    const extGState = opacities.length === 0 ? "" : " /ExtGState << "
+      + opacities.map((opacity, i) => `/GS${i} << /ca ${num(opacity)} >>`).join(" ")
+      + " >>";
+
+    const objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(size.width)} ${num(size.height)}]`
+        + ` /Resources << /Font << /F1 5 0 R /F2 6 0 R >>${extGState} >> /Contents 4 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      ...Object.values(FONTS).map(({ baseFont }) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`),
+    ];
+
+    // Every character in the document is ASCII, so string offsets are
+    // byte offsets.
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((obj, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+    });
+
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for(const offset of offsets) {
+      out += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    }
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(out.length);
+    for(let i = 0; i < out.length; ++i) {
+      bytes[i] = out.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Given a value which extends `Render`, produce a PDF document
+ * containing the value.
+ *
+ * @param a The value to render as a PDF.
+ * @param padding The amount of space to leave around the bounding
+ * box of `a`.
+ * @param debugFragmentBoundingBoxes An optional flag which, when
+ * true, will instruct the renderer to include renderings of the base
+ * fragment rectangles in the output.
+ * @returns The bytes of a PDF document.
+ */
+export function toPDF<A extends Render>(
+  a: A,
+  padding?: number,
+  debugFragmentBoundingBoxes?: boolean
+): Uint8Array {
+  return renderTo(new PdfTarget(), a, padding, debugFragmentBoundingBoxes).build();
+}
@@ -1,22 +1,68 @@
 import * as alt from "../layout-tree";
 import * as rlt from "../reassoc/layout-tree";
 import reassocLayoutTree from "../reassoc/reassoc-layout-tree";
-import { FragmentsInfo, FragmentInfo } from "../layout-tree";
-import { Svg, Render, SVGStyle } from "../render";
+import {
+  FragmentsInfo,
+  FragmentInfo,
+  HitTest,
+  LineInfo,
+  LinesInfo,
+  NodeOutline,
+  NodePath,
+  baselineRect,
+  linesOfFragments,
+  nodePaths,
+  paddingSides
+} from "../layout-tree";
+import { Paint, Render, RenderTarget, SVGStyle } from "../render";
 import { ViewSettings, SettingView, NumberSettingView } from "../settings";
+import { softWrap, sourceLineNumbers } from "../soft-wrap";
+import { DirectedLayoutResult, WritingDirection, logicalTree } from "../writing-direction";
+import { alignLayoutTree } from "../vertical-align";
+import { isStrut, withMinimumSizes } from "../min-size";
 import { add, Vector } from "../vector";
-import { horizontallyOverlap, inflate, Rect, translate, width, height, union } from "../rect";
+import { IncrementalLayout, cleanPrefix, nodePathsAfterPrefix } from "../incremental";
+import assert from "../assert";
+import { nodeAtPoint, outlineAtPath } from "../hit-test";
+import { Point } from "../point";
+import { Polygon } from "../polygon";
+import { fromRectangles } from "../polygon/from-rectangles";
+import { addSides, horizontallyOverlap, inflate, Rect, Sides, translate, uniformSides, width, height, union } from "../rect";
 
 type Cell = {
   uid: number;
-  padding: number;
+  /**
+   * The amount of cumulative padding on each side, including the
+   * margins of the cells below this one.
+   */
+  padding: Sides;
+  /**
+   * The margin of the `Wrap` which this cell represents.
+   */
+  margin: Sides;
 };
 
+/**
+ * Find the space which a `Cell` takes up around its fragment; its
+ * cumulative padding, plus its margin.
+ *
+ * @param cell The `Cell` whose space to find.
+ * @returns The space on each side.
+ */
+function spaceOfCell(cell: Cell): Sides {
+  return addSides(cell.padding, cell.margin);
+}
+
 type Stack = {
   type: "Stack";
   rect: Rect;
   cells: Cell[];
   text: string;
+  /**
+   * Whether the `Stack` was produced from a strut (see `isStrut`),
+   * which isn't reported as a fragment.
+   */
+  strut: boolean;
 } | {
   type: "Spacer",
   width: number;
@@ -39,52 +85,55 @@ function translateStack(stack: Stack, v: Vector) {
  *
  * @param stack The `Stack` to modify.
  * @param uid The `uid` of the corresponding layout tree node.
- * @param padding The amount of padding to apply.
+ * @param padding The amount of padding to apply on each side.
+ * @param margin The margin around the padding.
  */
-function wrapStack(stack: Stack, uid: number, padding: number) {
+function wrapStack(stack: Stack, uid: number, padding: Sides, margin: Sides) {
   if(stack.type === "Spacer") {
     return;
   }
 
   if(stack.cells.length === 0) {
-    stack.cells.push({ uid, padding });
+    stack.cells.push({ uid, padding, margin });
   } else {
     const top = stack.cells[stack.cells.length - 1];
     if(top.uid === uid) {
       // Re-use the topmost `Cell` if we can.
-      top.padding += padding;
+      top.padding = addSides(top.padding, padding);
+      top.margin = addSides(top.margin, margin);
     } else {
       // Otherwise, add a new cell to the end.
-      stack.cells.push({ uid, padding: top.padding + padding });
+      stack.cells.push({ uid, padding: addSides(spaceOfCell(top), padding), margin });
     }
   }
 }
 
 /**
- * Find the space between two stacks.
+ * Find the space between two stacks. The space includes the margins
+ * of the outermost cells which `a` and `b` don't share.
  *
  * @param as The cells of stack `a`.
  * @param bs The cells of stack `b`.
  * @returns A tuple of padding amounts; the padding amount around
  * stack `a`, and the padding amount around stack `b`, respectively.
  */
-function spaceBetween(as: Cell[], bs: Cell[]): [number, number] {
+function spaceBetween(as: Cell[], bs: Cell[]): [Sides, Sides] {
   let aDepth = as.length;
   let bDepth = bs.length;
 
   for(;;) {
     if(aDepth === 0 && bDepth === 0) {
-      return [0, 0];
+      return [uniformSides(0), uniformSides(0)];
     } else if(aDepth === 0) {
-      return [0, bs[bDepth - 1]!.padding];
+      return [uniformSides(0), spaceOfCell(bs[bDepth - 1]!)];
     } else if(bDepth === 0) {
-      return [as[aDepth - 1]!.padding, 0];
+      return [spaceOfCell(as[aDepth - 1]!), uniformSides(0)];
     }
 
     const a = as[aDepth - 1]!;
     const b = bs[bDepth - 1]!;
     if(a.uid !== b.uid) {
-      return [a.padding, b.padding];
+      return [spaceOfCell(a), spaceOfCell(b)];
     }
 
     --aDepth;
@@ -146,11 +195,12 @@ function translateRegion(region: Region, v: Vector) {
  *
  * @param region The `Region` to modify.
  * @param uid The `uid` of the corresponding layout tree node.
- * @param padding The amount of padding to apply.
+ * @param padding The amount of padding to apply on each side.
+ * @param margin The margin around the padding.
  */
-function wrapRegion(region: Region, uid: number, padding: number) {
+function wrapRegion(region: Region, uid: number, padding: Sides, margin: Sides) {
   for(const stack of region) {
-    wrapStack(stack, uid, padding);
+    wrapStack(stack, uid, padding, margin);
   }
 }
 
@@ -192,12 +242,14 @@ function translateRegionWithAdvance(region: RegionWithAdvance, v: Vector) {
  *
  * @param region The `RegionWithAdvance` to modify.
  * @param uid The `uid` of the corresponding layout tree node.
- * @param padding The amount of padding to apply.
+ * @param padding The amount of padding to apply on each side.
+ * @param margin The margin around the padding.
  */
-function wrapRegionWithAdvance(region: RegionWithAdvance, uid: number, padding: number) {
-  region.advance = add(region.advance, { dx: 2 * padding, dy: 0 });
-  wrapRegion(region.region, uid, padding);
-  translateRegion(region.region, { dx: padding, dy: 0 });
+function wrapRegionWithAdvance(region: RegionWithAdvance, uid: number, padding: Sides, margin: Sides) {
+  const space = addSides(padding, margin);
+  region.advance = add(region.advance, { dx: space.left + space.right, dy: 0 });
+  wrapRegion(region.region, uid, padding, margin);
+  translateRegion(region.region, { dx: space.left, dy: 0 });
 }
 
 /**
@@ -218,11 +270,12 @@ type L1p = RegionWithAdvance[];
  *
  * @param layout The `Layout` to modify.
  * @param uid The `uid` of the corresponding layout tree node.
- * @param padding The amount of padding to apply.
+ * @param padding The amount of padding to apply on each side.
+ * @param margin The margin around the padding.
  */
-function wrapLayout(layout: L1p, uid: number, padding: number) {
+function wrapLayout(layout: L1p, uid: number, padding: Sides, margin: Sides) {
   for(const line of layout) {
-    wrapRegionWithAdvance(line, uid, padding);
+    wrapRegionWithAdvance(line, uid, padding, margin);
   }
 }
 
@@ -260,12 +313,13 @@ function extendV(a: L1p, b: L1p) {
  *
  * @param r The rectangle from which to produce a new layout.
  * @param text The text underlying this rectangle.
+ * @param strut Whether the rectangle belongs to a strut.
  * @returns A new layout consisting only of the rectangle `r`.
  */
-function layoutFromRect(r: Rect, text: string): L1p {
+function layoutFromRect(r: Rect, text: string, strut: boolean): L1p {
   return [
     {
-      region: [{ type: "Stack", cells: [], rect: r, text }],
+      region: [{ type: "Stack", cells: [], rect: r, text, strut }],
       advance: { dx: width(r), dy: 0 }
     }
   ];
@@ -314,44 +368,91 @@ function concatEvenly<A>(as: A[][]): A[] {
   }
 }
 
-class PebbleLayoutResult extends Render implements FragmentsInfo {
-  private layout: L1p;
-  private uidToColor: Map<number, string>;
-
-  constructor(layout: L1p, uidToColor: Map<number, string>) {
+class PebbleLayoutResult extends Render implements FragmentsInfo, HitTest, LinesInfo {
+  /**
+   * The stacks on each line of the layout, in their final position.
+   */
+  layout: L1p;
+  /**
+   * The style of the `Wrap` with each uid (if it has one).
+   */
+  uidToSty: Map<number, Partial<SVGStyle>>;
+  /**
+   * The `id` of the `Wrap` with each uid (if it has one).
+   */
+  uidToId: Map<number, string>;
+  /**
+   * The vertical offset applied to each line of the layout, indexed
+   * by line number.
+   */
+  lineOffsets: number[];
+  /**
+   * The path to each `Node` of the input tree, in preorder. Since
+   * uids are assigned to `Wrap`s in preorder, the uid of a `Wrap` is
+   * an index into this list.
+   */
+  paths: NodePath[];
+  /**
+   * The distance by which each atom (in preorder) was moved down from
+   * the baseline of its line, to vertically align its `Node` (see
+   * `alignLayoutTree`).
+   */
+  shifts: number[];
+  /**
+   * The line of the input tree of each line (see
+   * `sourceLineNumbers`).
+   */
+  sourceLines: number[];
+
+  constructor(
+    layout: L1p,
+    uidToSty: Map<number, Partial<SVGStyle>>,
+    uidToId: Map<number, string>,
+    lineOffsets: number[],
+    paths: NodePath[],
+    shifts: number[],
+    sourceLines: number[]
+  ) {
     super();
     this.layout = layout;
-    this.uidToColor = uidToColor;
+    this.uidToSty = uidToSty;
+    this.uidToId = uidToId;
+    this.lineOffsets = lineOffsets;
+    this.paths = paths;
+    this.shifts = shifts;
+    this.sourceLines = sourceLines;
   }
 
   /**
-   * Return a list of rectangles along with their fill colors, one
-   * pair for every cell in a `Stack`. The largest, outermost
-   * rectangle is returned first and the smallest, most nested
-   * rectangle is returned last.
+   * Return a list of rectangles along with their fill colors and
+   * uids, one triple for every cell in a `Stack`. The largest,
+   * outermost rectangle is returned first and the smallest, most
+   * nested rectangle is returned last.
    *
    * @param s The `Stack` whose rectangles to return.
    * @param includeBase An optional flag, indicating if we should
    * include the base fragment rectangle in the output (by default,
    * the base fragment is not included).
-   * @returns A list of `Rect` `string` pairs, the `string`s
-   * representing the color of each `Rect`.
+   * @returns A list of `Rect`, `Paint`, `number | undefined`
+   * triples, the `Paint`s representing the fill of each `Rect`, and
+   * the `number`s the uid of the `Wrap` it belongs to (which is
+   * `undefined` for the base fragment).
    */
-  private rectsOfStack(s: Stack, includeBase?: boolean): [Rect, string][] {
+  private rectsOfStack(s: Stack, includeBase?: boolean): [Rect, Paint, number | undefined][] {
     if(s.type === "Spacer") {
       return [];
     }
 
-    let out: [Rect, string][] = [];
+    let out: [Rect, Paint, number | undefined][] = [];
     for(let i = s.cells.length - 1; i >= 0; --i) {
       const r = inflate(s.rect, s.cells[i].padding);
-      const color = this.uidToColor.get(s.cells[i].uid) ?? "none";
-      out.push([r, color]);
+      const color = this.uidToSty.get(s.cells[i].uid)?.fill ?? "none";
+      out.push([r, color, s.cells[i].uid]);
     }
 
     if(includeBase) {
       // Add a rectangle to represent the underlying fragment.
-      out.push([ s.rect, "white" ]);
+      out.push([ s.rect, "white", undefined ]);
     }
 
     return out;
@@ -365,15 +466,20 @@ class PebbleLayoutResult extends Render implements FragmentsInfo {
     }
   }
 
-  render(svg: Svg, sty: SVGStyle) {
+  render(target: RenderTarget, sty: SVGStyle) {
     const that = this;
     const allRects = [...this.allStacks()].map(stk => that.rectsOfStack(stk, sty.debugFragmentBoundingBoxes));
-    for(const [rect, fill] of concatEvenly(allRects)) {
-      svg
+    for(const [rect, fill, uid] of concatEvenly(allRects)) {
+      const nodeSty = uid !== undefined ? this.uidToSty.get(uid) : undefined;
+      target
         .rect(width(rect), height(rect))
         .move(rect.left, rect.top)
         .fill(fill)
-        .stroke(fill === "white" ? "black" : "none"); // HACK!
+        .fillOpacity(nodeSty?.fillOpacity)
+        .stroke(fill === "white" ? "black" : "none") // HACK!
+        .nodeId(uid !== undefined ? this.uidToId.get(uid) : undefined)
+        .classNames(nodeSty?.classNames)
+        .attributes(nodeSty?.attributes);
     }
   }
 
@@ -399,6 +505,7 @@ class PebbleLayoutResult extends Render implements FragmentsInfo {
 
   fragmentsInfo(): FragmentInfo[] {
     let out: FragmentInfo[] = [];
+    let atomIndex = 0;
 
     for(let lineNo = 0; lineNo < this.layout.length; ++lineNo) {
       for(const stk of this.layout[lineNo].region) {
@@ -406,23 +513,78 @@ class PebbleLayoutResult extends Render implements FragmentsInfo {
           continue;
         }
 
+        const shift = this.shifts[atomIndex++];
+        if(stk.strut) {
+          continue;
+        }
+
         out.push({
           rect: stk.rect,
           lineNo,
+          sourceLineNo: this.sourceLines[lineNo],
           text: stk.text,
+          baseline: this.lineOffsets[lineNo] + shift,
         });
       }
     }
 
     return out;
   }
+
+  linesInfo(): LineInfo[] {
+    // Each line is translated from the measured coordinate system of
+    // its atoms (in which the baseline is at `y = 0`) by its offset.
+    return linesOfFragments(this.fragmentsInfo(), this.lineOffsets, this.sourceLines);
+  }
+
+  nodeOutlines(): NodeOutline[] {
+    // Collect the (padded) rectangles of each uid.
+    const rectsOfUid: Rect[][] = this.paths.map(() => []);
+    for(const stack of this.allStacks()) {
+      if(stack.type === "Spacer") {
+        continue;
+      }
+
+      for(const cell of stack.cells) {
+        rectsOfUid[cell.uid].push(inflate(stack.rect, cell.padding));
+      }
+    }
+
+    let out: NodeOutline[] = [];
+    rectsOfUid.forEach((rects, uid) => {
+      if(rects.length > 0) {
+        out.push({ path: this.paths[uid], outline: fromRectangles(rects), id: this.uidToId.get(uid) });
+      }
+    });
+    return out;
+  }
+
+  nodeAt(p: Point): NodePath | null {
+    return nodeAtPoint(this.nodeOutlines(), p);
+  }
+
+  outlineOf(path: NodePath): Polygon | null {
+    return outlineAtPath(this.nodeOutlines(), path);
+  }
 }
 
 export class PebbleLayoutSettings implements ViewSettings {
   public idealLeading: number;
+  /**
+   * If set, lines which are wider than `maxWidth` are broken (see
+   * `softWrap`).
+   */
+  public maxWidth?: number;
+  /**
+   * The direction in which fragments advance (see
+   * `WritingDirection`). Defaults to `"LTR"`.
+   */
+  public direction?: WritingDirection;
 
-  constructor(idealLeading: number) {
+  constructor(idealLeading: number, maxWidth?: number, direction?: WritingDirection) {
     this.idealLeading = idealLeading;
+    this.maxWidth = maxWidth;
+    this.direction = direction;
   }
 
   viewSettings(): SettingView[] {
@@ -432,35 +594,72 @@ export class PebbleLayoutSettings implements ViewSettings {
   }
 
   clone() {
-    return new PebbleLayoutSettings(this.idealLeading);
+    return new PebbleLayoutSettings(this.idealLeading, this.maxWidth, this.direction);
   }
 }
 
-export default class PebbleLayout implements alt.Layout {
+export default class PebbleLayout implements IncrementalLayout<DirectedLayoutResult<PebbleLayoutResult>> {
   private settings: PebbleLayoutSettings;
 
   constructor(settings: PebbleLayoutSettings) {
     this.settings = settings;
   }
 
-  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): PebbleLayoutResult {
+  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): DirectedLayoutResult<PebbleLayoutResult> {
+    return this.relayout(layoutTree, null, 0);
+  }
+
+  relayout(
+    layoutTree: alt.LayoutTree<alt.WithMeasurements>,
+    previous: DirectedLayoutResult<PebbleLayoutResult> | null,
+    firstDirtyLine: number
+  ): DirectedLayoutResult<PebbleLayoutResult> {
+    const direction = this.settings.direction ?? "LTR";
+
+    // The lines of the clean prefix of `layoutTree` (see
+    // `cleanPrefix`) are taken from the `previous` layout, so only
+    // the rest of the root `Node` is laid out.
+    const prev = previous?.logical ?? null;
+    const prefix = prev !== null ? cleanPrefix(layoutTree, firstDirtyLine) : null;
+    const prefixLines = prefix !== null ? prev!.sourceLines.indexOf(prefix.lines) : 0;
+    assert(prefixLines >= 0, "The previous layout doesn't have the lines of the prefix");
+    const prefixLayout = prev?.layout.slice(0, prefixLines) ?? [];
+    const tree = prefix?.rest ?? layoutTree;
+
     /**
-     * Produce a unique ID.
+     * Produce a unique ID. The `Node`s of the prefix keep their uids,
+     * which follow the uid of the root `Node`.
      */
     const nextUid = (() => {
       let _nextUid = 0;
       return () => {
-        return _nextUid++;
+        const uid = _nextUid++;
+        return uid === 0 ? uid : uid + (prefix?.nodes ?? 0);
       };
     })();
 
+    const wrapped = this.settings.maxWidth !== undefined
+      ? softWrap(tree, this.settings.maxWidth, layoutTree)
+      : tree;
     const empty: rlt.LayoutTree<rlt.WithMeasurements> = { type: "Spacer", width: 0, text: "" };
-    const rlt: rlt.LayoutTree<rlt.WithMeasurements> = reassocLayoutTree(layoutTree, empty);
-    const uidToColor: Map<number, string> = new Map();
+    const [aligned, shifts] = alignLayoutTree(withMinimumSizes(logicalTree(wrapped, direction)), true);
+    const rlt: rlt.LayoutTree<rlt.WithMeasurements> = reassocLayoutTree(aligned, empty);
+    const uidToSty: Map<number, Partial<SVGStyle>> = new Map();
+    const uidToId: Map<number, string> = new Map();
+    for(let uid = 1; uid <= (prefix?.nodes ?? 0); ++uid) {
+      const sty = prev!.uidToSty.get(uid);
+      if(sty !== undefined) {
+        uidToSty.set(uid, sty);
+      }
+      const id = prev!.uidToId.get(uid);
+      if(id !== undefined) {
+        uidToId.set(uid, id);
+      }
+    }
 
     const go = (root: rlt.LayoutTree<rlt.WithMeasurements>): L1p => {
       switch(root.type) {
-        case "Atom": return layoutFromRect(root.rect, root.text);
+        case "Atom": return layoutFromRect(baselineRect(root), root.text, isStrut(root));
         case "Spacer": return layoutFromSpacer(root.width);
         case "JoinH": {
           const layout = go(root.lhs);
@@ -474,33 +673,66 @@ export default class PebbleLayout implements alt.Layout {
         }
         case "Wrap": {
           const uid = nextUid();
-          if(root.sty?.fill) {
-            uidToColor.set(uid, root.sty.fill);
+          if(root.sty !== undefined) {
+            uidToSty.set(uid, root.sty);
+          }
+          if(root.id !== undefined) {
+            uidToId.set(uid, root.id);
           }
           const layout = go(root.child);
-          wrapLayout(layout, uid, root.padding);
+          wrapLayout(layout, uid, paddingSides(root.padding), paddingSides(root.margin ?? 0));
           return layout;
         }
       }
     }
 
-    const layout = go(rlt);
+    // The stacks of the prefix are already in their final position.
+    const layout = [...prefixLayout, ...go(rlt)];
+    let prefixAtoms = 0;
+    for(const line of prefixLayout) {
+      prefixAtoms += line.region.filter(stack => stack.type === "Stack").length;
+    }
+    const sourceLines = [
+      ...prev?.sourceLines.slice(0, prefixLines) ?? [],
+      ...sourceLineNumbers(wrapped).map(lineNo => lineNo + (prefix?.lines ?? 0))
+    ];
 
     // Now, finalize the layout by vertically positioning each line.
+    // Lines before `firstDirtyLine` are identical to those in the
+    // `previous` layout, so we reuse their offsets.
     let lastLineOffset = 0;
     const done: Region = [];
+    const lineOffsets: number[] = [];
     for(const line of layout) {
-      const currentLineOffset = leadingRegion(done, line.region);
-      const effectiveLeading = currentLineOffset - lastLineOffset;
-      const adjustedOffset = lastLineOffset + Math.max(effectiveLeading, this.settings.idealLeading);
+      const lineNo = lineOffsets.length;
+      let adjustedOffset: number;
+      if(prev !== null && sourceLines[lineNo] < firstDirtyLine && lineNo < prev.lineOffsets.length) {
+        adjustedOffset = prev.lineOffsets[lineNo];
+      } else {
+        const currentLineOffset = leadingRegion(done, line.region);
+        const effectiveLeading = currentLineOffset - lastLineOffset;
+        adjustedOffset = lastLineOffset + Math.max(effectiveLeading, this.settings.idealLeading);
+      }
 
       // Put the current line in its place.
-      translateRegion(line.region, { dx: 0, dy: adjustedOffset });
+      if(lineNo >= prefixLines) {
+        translateRegion(line.region, { dx: 0, dy: adjustedOffset });
+      }
       done.push(...line.region);
+      lineOffsets.push(adjustedOffset);
 
       lastLineOffset = adjustedOffset;
     }
 
-    return new PebbleLayoutResult(layout, uidToColor);
+    const result = new PebbleLayoutResult(
+      layout,
+      uidToSty,
+      uidToId,
+      lineOffsets,
+      prefix !== null ? nodePathsAfterPrefix(prev!.paths, prefix) : nodePaths(layoutTree),
+      [...prev?.shifts.slice(0, prefixAtoms) ?? [], ...shifts],
+      sourceLines
+    );
+    return new DirectedLayoutResult(result, direction);
   }
 }
@@ -1,7 +1,7 @@
 import assert from "./assert";
 import { Point, subPoints } from "./point";
-import { Rect, expandToInclude, union, width, height } from "./rect";
-import { Svg, Render, SVGStyle, BorderStyle, DEFAULT_BORDER_STYLE } from "./render";
+import { Rect, Sides, expandToInclude, uniformSides, union, width, height } from "./rect";
+import { PathCommand, Render, RenderTarget, SVGStyle, BorderStyle, DEFAULT_BORDER_STYLE } from "./render";
 import { cross } from "./vector";
 
 /**
@@ -405,24 +405,33 @@ function cornerFromDirections(a: Direction, b: Direction): Corner {
  * Offset the edges in a rectilinear `Path` by `amt`, returning a new
  * `Path`.
  *
- * @param amt The amount by which to offset each segment in `path`.
+ * @param amt The amount by which to offset each segment in `path`,
+ * either the same for every segment, or by the side of the path
+ * which each segment faces (so that, for example, the segments
+ * facing left are offset by `amt.left`).
  * @param path The `Path` to offset.
  * @returns A new `Path`, the same as `path`, but each edge offset by
  * `amt`.
  */
-export function offsetPath(amt: number, path: Path): Path {
+export function offsetPath(amt: number | Sides, path: Path): Path {
   const out: Path = [];
+  const sides = typeof amt === "number" ? uniformSides(amt) : amt;
 
   eachTripleInPath(path, (a, b, c): EachTripleIterationDecision => {
     const ab = subPoints(b, a);
     const cb = subPoints(b, c);
-    const bisector = {
-      dx: (ab.dx + cb.dx) / Math.abs(ab.dx + cb.dx) * amt,
-      dy: (ab.dy + cb.dy) / Math.abs(ab.dy + cb.dy) * amt,
-    };
     const s = isTurnCW(a, b, c) ? -1 : 1;
 
-    out.push({ x: b.x + bisector.dx * s, y: b.y + bisector.dy * s });
+    // The direction in which `b` moves outward; the vertical segment
+    // at `b` faces left or right, and the horizontal one up or down.
+    const outward = {
+      dx: (ab.dx + cb.dx) / Math.abs(ab.dx + cb.dx) * s,
+      dy: (ab.dy + cb.dy) / Math.abs(ab.dy + cb.dy) * s,
+    };
+    const amtX = outward.dx < 0 ? sides.left : sides.right;
+    const amtY = outward.dy < 0 ? sides.top : sides.bottom;
+
+    out.push({ x: b.x + outward.dx * amtX, y: b.y + outward.dy * amtY });
     return { type: "None" };
   });
 
@@ -440,7 +449,7 @@ export function offsetPath(amt: number, path: Path): Path {
  * @returns A new `Polygon`, the same as `polygon`, but where each
  * edge in each of the polygon's paths have been offset by `amt`.
  */
-export function offsetPolygon(amt: number, polygon: Polygon): Polygon {
+export function offsetPolygon(amt: number | Sides, polygon: Polygon): Polygon {
   return polygon.map(path => offsetPath(amt, path));
 }
 
@@ -1177,13 +1186,13 @@ function shouldDrawSegment(seg: RectiSegment, border: BorderStyle): boolean {
 }
 
 /**
- * Construct an SVG path string corresponding to the given `path`.
+ * Construct the drawing commands corresponding to the given `path`.
  *
- * @param path The path to convert to an SVG path string.
+ * @param path The path to convert to drawing commands.
  * @param border The properties of the border.
- * @returns An SVG path string.
+ * @returns A list of path commands.
  */
-function pathStringOfPath(path: Path, border: Partial<BorderStyle>): string {
+function pathCommandsOfPath(path: Path, border: Partial<BorderStyle>): PathCommand[] {
   let borderNonPartial = {...DEFAULT_BORDER_STYLE, ...border};
 
   path = offsetPath(borderNonPartial.borderOffset, path);
@@ -1195,9 +1204,9 @@ function pathStringOfPath(path: Path, border: Partial<BorderStyle>): string {
   let pathContinues: boolean = false;
 
   /**
-   * The output path string under construction.
+   * The output path commands under construction.
    */
-  let out: string = "";
+  let out: PathCommand[] = [];
 
   for(let i = 0; i < path.length; ++i) {
     const a = path[(i + 0) % path.length];
@@ -1224,7 +1233,7 @@ function pathStringOfPath(path: Path, border: Partial<BorderStyle>): string {
       // If the path is not continuing, then we need to issue a move
       // command before drawing any more segments.
       const p = translateAlongDirection(a, abDir, actualRadius);
-      out += `M ${p.x} ${p.y} `;
+      out.push({ type: "MoveTo", x: p.x, y: p.y });
     }
 
     if(shouldDrawAB && shouldDrawBC) {
@@ -1232,73 +1241,118 @@ function pathStringOfPath(path: Path, border: Partial<BorderStyle>): string {
 
       if(actualRadius === 0) {
         // If the radius is zero, just draw a line immediately to point `b`.
-        out += `L ${b.x} ${b.y} `
+        out.push({ type: "LineTo", x: b.x, y: b.y });
       } else {
         // Find points representing the begining and end of the corner arc.
         const arcBegin: Point = translateAlongDirection(b, abDir, -actualRadius);
         const arcEnd:   Point = translateAlongDirection(b, bcDir,  actualRadius);
 
-        out += `L ${arcBegin.x} ${arcBegin.y} A ${actualRadius} ${actualRadius} 0 0 ${isTurnCW(a, b, c) ? "1" : "0"} ${arcEnd.x} ${arcEnd.y} `;
+        out.push({ type: "LineTo", x: arcBegin.x, y: arcBegin.y });
+        out.push({
+          type: "ArcTo",
+          corner: b,
+          x: arcEnd.x,
+          y: arcEnd.y,
+          radius: actualRadius,
+          clockwise: isTurnCW(a, b, c)
+        });
       }
     } else if(shouldDrawAB) {
       // Just AB is drawn, so don't build a rounded corner. Also
       // record the fact that we've stopped drawing the path.
       pathContinues = false;
       const p = translateAlongDirection(b, abDir, -actualRadius);
-      out += `L ${p.x} ${p.y} `;
+      out.push({ type: "LineTo", x: p.x, y: p.y });
     } else {
       // Don't draw anything.
       pathContinues = false;
     }
   };
 
-  return out + (pathContinues ? " Z" : "");
+  if(pathContinues) {
+    out.push({ type: "Close" });
+  }
+  return out;
 }
 
 export class PolygonRendering extends Render {
   polygon: Polygon;
+  /**
+   * The `id` of the `Node` which `polygon` outlines, if any.
+   */
+  nodeId?: string;
+  /**
+   * The nesting depth of the `Node` which `polygon` outlines (an
+   * outermost `Node` has depth 1), if any. Shadows are only drawn for
+   * polygons with a depth.
+   */
+  depth?: number;
 
-  constructor(polygon: Polygon) {
+  constructor(polygon: Polygon, nodeId?: string, depth?: number) {
     super();
     this.polygon = polygon;
+    this.nodeId = nodeId;
+    this.depth = depth;
   }
 
-  render(svg: Svg, sty: SVGStyle) {
-    for(const path of this.polygon) {
-      if(path.length <= 2) {
-        continue;
+  render(target: RenderTarget, sty: SVGStyle) {
+    const paths = this.polygon.filter(path => path.length > 2);
+
+    // Choose the radius of the fill to be the radius of the nearest
+    // border, adjusted by the offset of said border.
+    let nearestBorder: Partial<BorderStyle> | undefined = undefined;
+    for(const border of sty.borders) {
+      if(nearestBorder === undefined) {
+        nearestBorder = border;
+      } else if(border.borderOffset === undefined) {
+        nearestBorder = border;
+        break;
+      } else if(border.borderOffset < nearestBorder.borderOffset!) {
+        nearestBorder = border;
       }
+    }
 
-      // Choose the radius of the fill to be the radius of the nearest
-      // border, adjusted by the offset of said border.
-      let nearestBorder: Partial<BorderStyle> | undefined = undefined;
-      for(const border of sty.borders) {
-        if(nearestBorder === undefined) {
-          nearestBorder = border;
-        } else if(border.borderOffset === undefined) {
-          nearestBorder = border;
-          break;
-        } else if(border.borderOffset < nearestBorder.borderOffset!) {
-          nearestBorder = border;
-        }
+    const borderRadius = Math.max(
+      (nearestBorder?.borderRadius ?? 0) - (nearestBorder?.borderOffset ?? 0),
+      0
+    );
+
+    // Draw shadows. These go beneath every path of the polygon, so
+    // that the shadow of one path doesn't fall on the fill of another.
+    const elevation = sty.elevation;
+    if(elevation !== undefined && this.depth !== undefined && (sty.fill ?? "none") !== "none") {
+      const dx = elevation.dx * this.depth;
+      const dy = elevation.dy * this.depth;
+      for(const path of paths) {
+        const shadow = path.map(p => ({ x: p.x + dx, y: p.y + dy }));
+        target
+          .path(pathCommandsOfPath(shadow, { ...DEFAULT_BORDER_STYLE, borderRadius }))
+          .fill(elevation.color)
+          .fillOpacity(elevation.opacity)
+          .blur(elevation.blur);
       }
+    }
 
-      const borderRadius = Math.max(
-        (nearestBorder?.borderRadius ?? 0) - (nearestBorder?.borderOffset ?? 0),
-        0
-      );
-
+    for(const path of paths) {
       // Draw fill
-      svg
-        .path(pathStringOfPath(path, { ...DEFAULT_BORDER_STYLE, borderRadius }))
-        .fill(sty.fill ?? "none");
+      target
+        .path(pathCommandsOfPath(path, { ...DEFAULT_BORDER_STYLE, borderRadius }))
+        .fill(sty.fill ?? "none")
+        .fillOpacity(sty.fillOpacity)
+        .nodeId(this.nodeId)
+        .classNames(sty.classNames)
+        .attributes(sty.attributes);
       // Draw borders
       for(const border of sty.borders) {
-        svg
-          .path(pathStringOfPath(path, border))
+        target
+          .path(pathCommandsOfPath(path, border))
           .stroke(border.borderStroke)
           .strokeWidth(border.borderWidth)
-          .fill("none");
+          .strokeDasharray(border.borderDasharray)
+          .fill("none")
+          .nodeId(this.nodeId)
+          .classNames(sty.classNames)
+          .attributes(sty.attributes);
       }
     }
   }
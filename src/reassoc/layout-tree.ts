@@ -6,6 +6,7 @@ import * as alt from "../layout-tree";
 import { Polygon } from "../polygon";
 import { Rect } from "../rect";
 import { SVGStyle } from "../render";
+import { VerticalAlign } from "../vertical-align";
 
 export interface Ann {
   JoinH: object;
@@ -40,8 +41,21 @@ export type Spacer<X extends Ann = Ann> = {
 export type Wrap<X extends Ann = Ann> = {
   type: "Wrap";
   child: LayoutTree<X>;
-  padding: number;
+  padding: alt.Padding;
+  /**
+   * The `margin` of the `Node` which this `Wrap` was produced from.
+   */
+  margin?: alt.Padding;
   sty?: Partial<SVGStyle>;
+  /**
+   * The `verticalAlign` of the `Node` which this `Wrap` was produced
+   * from.
+   */
+  verticalAlign?: VerticalAlign;
+  /**
+   * The `id` of the `Node` which this `Wrap` was produced from.
+   */
+  id?: string;
 } & X["Wrap"];
 
 export type LayoutTree<X extends Ann = Ann> = JoinH<X> | JoinV<X> | Atom<X> | Spacer<X> | Wrap<X>;
@@ -61,7 +75,7 @@ export type WithAtomAndSpacerOf<A extends alt.Ann> = {
 export type WithMeasurements<A = {}> = {
   JoinH:   object;
   JoinV:   object;
-  Atom:    { rect: Rect };
+  Atom:    { rect: Rect, baseline?: number };
   Spacer:  { width: number };
   Wrap:    object;
 } & A;
@@ -77,7 +91,7 @@ export type WithOutlines<A = {}> = {
 export type WithPositions<A = {}> = {
   JoinH:   object;
   JoinV:   object;
-  Atom:    { rect: Rect };
+  Atom:    { rect: Rect, baseline: number };
   Spacer:  { width: number };
   Wrap:    { rect: Rect };
 } & A;
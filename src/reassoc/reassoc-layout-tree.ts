@@ -212,12 +212,84 @@ export default function reassocLayoutTree<A extends alt.Ann>(
       };
 
       // The below song-and-dance is necessary so that if the current
-      // `lt` doesn't contain the `sty` property, the output `Wrap`
-      // node won't have it either.
+      // `lt` doesn't contain the `margin`, `sty`, `verticalAlign` or
+      // `id` properties, the output `Wrap` node won't have them
+      // either.
+      if(lt.margin !== undefined) {
+        out.margin = lt.margin;
+      }
       if(lt.sty !== undefined) {
         out.sty = lt.sty;
       }
+      if(lt.verticalAlign !== undefined) {
+        out.verticalAlign = lt.verticalAlign;
+      }
+      const id = alt.nodeIdOf(lt);
+      if(id !== undefined) {
+        out.id = id;
+      }
       return out;
     }
   }
 }
+
+/**
+ * Count the lines of a rocks layout tree, that is, one more than the
+ * number of `JoinV`s in it.
+ *
+ * @param lt The layout tree.
+ * @returns The number of lines of `lt`.
+ */
+export function linesOfLayoutTree<A extends rlt.Ann>(lt: rlt.LayoutTree<A>): number {
+  switch(lt.type) {
+    case "JoinH": return linesOfLayoutTree(lt.lhs) + linesOfLayoutTree(lt.rhs) - 1;
+    case "JoinV": return linesOfLayoutTree(lt.lhs) + linesOfLayoutTree(lt.rhs);
+    case "Atom":
+    case "Spacer": return 1;
+    case "Wrap": return linesOfLayoutTree(lt.child);
+  }
+}
+
+/**
+ * Find the subtree of a reassociated tree which holds its first
+ * `lines` lines. The lines of the root `Node` are joined from left
+ * to right, so this is on the path of `JoinV`s from the child of the
+ * root `Wrap` to its first line.
+ *
+ * @param lt A tree returned by `reassocLayoutTree`, possibly with
+ * more annotations.
+ * @param lines The number of lines.
+ * @returns The subtree, or `null` if the first `lines` lines aren't
+ * laid out by a single subtree.
+ */
+export function prefixOfLines<A extends rlt.Ann>(lt: rlt.LayoutTree<A>, lines: number): rlt.LayoutTree<A> | null {
+  if(lt.type !== "Wrap") {
+    return null;
+  }
+
+  let root = lt.child;
+  let count = linesOfLayoutTree(root);
+  while(root.type === "JoinV" && count > lines) {
+    count -= linesOfLayoutTree(root.rhs);
+    root = root.lhs;
+  }
+
+  return count === lines ? root : null;
+}
+
+/**
+ * Put the lines of `prefix` above the lines of `lt`, by joining
+ * `prefix` with the first line of `lt`. This undoes `prefixOfLines`:
+ * the lines of a tree are the lines of its prefix followed by those
+ * of the reassociated rest of its root `Node`.
+ *
+ * @param lt The child of a root `Wrap`.
+ * @param prefix The lines to put first.
+ * @returns A new layout tree with the lines of `prefix` followed by
+ * the lines of `lt`.
+ */
+export function withPrefixLines<A extends rlt.Ann>(lt: rlt.LayoutTree<A>, prefix: rlt.LayoutTree<A>): rlt.LayoutTree<A> {
+  return lt.type === "JoinV"
+    ? { ...lt, lhs: withPrefixLines(lt.lhs, prefix) }
+    : { type: "JoinV", lhs: prefix, rhs: lt } as rlt.JoinV<A>;
+}
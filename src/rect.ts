@@ -13,6 +13,65 @@ export type Rect = {
   bottom: number;
 };
 
+/**
+ * An amount on each side of a rectangle (for example, the padding
+ * around it).
+ */
+export type Sides = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+/**
+ * Construct a `Sides` with the same amount on every side.
+ *
+ * @param amt The amount on each side.
+ * @returns A new `Sides`.
+ */
+export function uniformSides(amt: number): Sides {
+  return { top: amt, right: amt, bottom: amt, left: amt };
+}
+
+/**
+ * Add the amounts on each side of `a` and `b`.
+ *
+ * @param a The first `Sides`.
+ * @param b The second `Sides`.
+ * @returns A new `Sides`, whose amount on each side is the sum of
+ * the amounts on that side of `a` and `b`.
+ */
+export function addSides(a: Sides, b: Sides): Sides {
+  return {
+    top: a.top + b.top,
+    right: a.right + b.right,
+    bottom: a.bottom + b.bottom,
+    left: a.left + b.left
+  };
+}
+
+/**
+ * Scale the amount on each side of `s` by `t`.
+ *
+ * @param s The `Sides` to scale.
+ * @param t The scale factor.
+ * @returns A new `Sides`, scaled by `t`.
+ */
+export function scaleSides(s: Sides, t: number): Sides {
+  return { top: s.top * t, right: s.right * t, bottom: s.bottom * t, left: s.left * t };
+}
+
+/**
+ * Find the largest amount on any side of `s`.
+ *
+ * @param s The `Sides` to search.
+ * @returns The largest of the amounts of `s`.
+ */
+export function maxSide(s: Sides): number {
+  return Math.max(s.top, s.right, s.bottom, s.left);
+}
+
 /**
  * Construct a new rectangle from the position of its upper-left
  * corner, and its width and height.
@@ -85,15 +144,17 @@ export function height(r: Rect): number {
  * translated outwards by `amt`.
  *
  * @param r The input rectangle.
- * @param amt The amount to inflate `r`.
+ * @param amt The amount to inflate `r`, either on every side, or on
+ * each side.
  * @returns A new `Rect`, representing `r` inflated by `amt`.
  */
-export function inflate(r: Rect, amt: number): Rect {
+export function inflate(r: Rect, amt: number | Sides): Rect {
+  const s = typeof amt === "number" ? uniformSides(amt) : amt;
   return {
-    left: r.left - amt,
-    right: r.right + amt,
-    top: r.top - amt,
-    bottom: r.bottom + amt
+    left: r.left - s.left,
+    right: r.right + s.right,
+    top: r.top - s.top,
+    bottom: r.bottom + s.bottom
   };
 }
 
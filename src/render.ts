@@ -1,4 +1,8 @@
+import assert from "./assert";
+import { Point } from "./point";
 import { Rect, width, height, inflate, union } from "./rect";
+import { Atom, FragmentsInfo, LayoutTree, WithMeasurements, eachAtom } from "./layout-tree";
+import { WritingDirection } from "./writing-direction";
 
 export type BorderStyle = {
   /**
@@ -34,6 +38,12 @@ export type BorderStyle = {
    * The width of the border stroke
    */
   borderWidth: number;
+  /**
+   * The lengths of alternating dashes and gaps in the border stroke
+   * (as in SVG's `stroke-dasharray`). An empty array draws a solid
+   * border.
+   */
+  borderDasharray: number[];
 };
 
 export const DEFAULT_BORDER_STYLE: BorderStyle = {
@@ -45,18 +55,155 @@ export const DEFAULT_BORDER_STYLE: BorderStyle = {
   borderRight: true,
   borderStroke: "black",
   borderWidth: 1,
+  borderDasharray: [],
+};
+
+/**
+ * A color stop in a gradient.
+ */
+export type GradientStop = {
+  /**
+   * The position of the stop along the gradient, from 0 to 1.
+   */
+  offset: number;
+  color: string;
+  opacity?: number;
+};
+
+/**
+ * A gradient which varies along a line through the bounding box of
+ * the filled shape.
+ */
+export type LinearGradient = {
+  type: "LinearGradient";
+  /**
+   * The direction of the gradient in degrees, clockwise from
+   * left-to-right.
+   */
+  angle: number;
+  stops: GradientStop[];
+};
+
+/**
+ * A gradient which varies outwards from the center of the bounding
+ * box of the filled shape.
+ */
+export type RadialGradient = {
+  type: "RadialGradient";
+  stops: GradientStop[];
+};
+
+/**
+ * A pattern of evenly spaced parallel lines.
+ */
+export type HatchPattern = {
+  type: "HatchPattern";
+  /**
+   * The color of the lines.
+   */
+  color: string;
+  /**
+   * The color behind the lines. If omitted, the background is
+   * transparent.
+   */
+  background?: string;
+  /**
+   * The distance between successive lines.
+   */
+  spacing: number;
+  /**
+   * The angle of the lines in degrees, clockwise from vertical.
+   */
+  angle: number;
+  lineWidth: number;
+};
+
+/**
+ * The ways in which a shape can be filled: either a solid CSS color
+ * or a gradient or pattern.
+ */
+export type Paint = string | LinearGradient | RadialGradient | HatchPattern;
+
+/**
+ * Find a solid color which approximates `paint`. This is used by
+ * targets which can't draw gradients or patterns.
+ *
+ * @param paint The paint to approximate.
+ * @returns A CSS color.
+ */
+export function solidColorOfPaint(paint: Paint): string {
+  if(typeof paint === "string") {
+    return paint;
+  }
+
+  switch(paint.type) {
+    case "LinearGradient":
+    case "RadialGradient": return paint.stops[0]?.color ?? "none";
+    case "HatchPattern": return paint.background ?? paint.color;
+  }
+}
+
+/**
+ * A drop shadow drawn beneath each node, so that more deeply nested
+ * nodes appear to be raised further above the page.
+ */
+export type Elevation = {
+  /**
+   * The offset of the shadow of an outermost node. The shadow of a
+   * node is offset by this amount times the node's depth (an
+   * outermost node has depth 1, its children have depth 2, and so
+   * on).
+   */
+  dx: number;
+  dy: number;
+  /**
+   * The standard deviation of the gaussian blur applied to shadows.
+   */
+  blur: number;
+  color: string;
+  opacity: number;
+};
+
+export const DEFAULT_ELEVATION: Elevation = {
+  dx: 1,
+  dy: 1.5,
+  blur: 1.5,
+  color: "black",
+  opacity: 0.3,
 };
 
 /**
  * The styles to apply to a rendering.
  */
 export type SVGStyle = {
-  fill: string;
+  fill: Paint;
+  /**
+   * The opacity of the fill, from 0 to 1. If omitted, the fill is
+   * opaque.
+   */
+  fillOpacity?: number;
   borders: Partial<BorderStyle>[];
   /**
    * The color of (non-border) strokes (i.e. line segments).
    */
   stroke: string;
+  /**
+   * CSS class names to add to the elements which depict a node.
+   */
+  classNames: string[];
+  /**
+   * Arbitrary presentation attributes (e.g. `{ "stroke-linejoin":
+   * "round" }`) to add to the elements which depict a node. These are
+   * only understood by the `Svg` target.
+   */
+  attributes: { [name: string]: string };
+  /**
+   * If set, a shadow is drawn beneath each filled node outline drawn
+   * by a `PolygonRendering` (i.e. by the blocks, s-blocks and rocks
+   * layouts). Shadows extend past the bounding box of a layout, so
+   * leave some padding around it.
+   */
+  elevation?: Elevation;
   debugFragmentBoundingBoxes: boolean;
 };
 
@@ -64,17 +211,21 @@ export const DEFAULT_STYLE: SVGStyle = {
   fill: "white",
   stroke: "black",
   borders: [],
+  classNames: [],
+  attributes: {},
   debugFragmentBoundingBoxes: false,
 }
 
 export abstract class Render {
   /**
-   * Mutate the given `svg`, adding elements which represent `this`.
+   * Mutate the given `target`, adding elements which represent
+   * `this`.
    */
-  abstract render(svg: Svg, sty: SVGStyle): void;
+  abstract render(target: RenderTarget, sty: SVGStyle): void;
 
   /**
-   * Find a bounding box which encloses the SVG generated by `render`.
+   * Find a bounding box which encloses the elements generated by
+   * `render`.
    */
   abstract boundingBox(): Rect | null;
 
@@ -94,42 +245,71 @@ export abstract class Render {
 }
 
 /**
- * Given a value which extends `Render`, produce an svg string
- * representing the value. Accepts an optional `window` which allows
- * this function to operate in contexts where we don't have a document
- * (such as node).
+ * Render `a` into `target`, and fit the target's viewbox to the
+ * bounding box of `a`.
  *
- * @param a The value to render as an SVG.
- * @param window The optional window object to use instead of the
- * default window.
+ * @param target The target to render into.
+ * @param a The value to render.
+ * @param padding The amount of space to leave around the bounding
+ * box of `a`.
  * @param debugFragmentBoundingBoxes An optional flag which, when
  * true, will instruct the renderer to include renderings of the base
  * fragment rectangles in the output.
- * @returns An SVG, serialized as a string.
+ * @returns `target`.
  */
-export function toSVG<A extends Render>(
-  a: A,
+export function renderTo<T extends RenderTarget>(
+  target: T,
+  a: Render,
   padding?: number,
   debugFragmentBoundingBoxes?: boolean
-): string {
+): T {
   if(!padding) {
     padding = 0;
   }
 
-  const svg = new Svg();
-  const sty = DEFAULT_STYLE;
+  const sty = { ...DEFAULT_STYLE };
   if(debugFragmentBoundingBoxes !== undefined) {
     sty.debugFragmentBoundingBoxes = debugFragmentBoundingBoxes;
   }
-  a.render(svg, sty);
+  a.render(target, sty);
 
   let bbox = a.boundingBox();
   if(bbox) {
     bbox = inflate(bbox, padding);
-    svg.viewbox(bbox);
-    svg.width(width(bbox));
+    target.viewbox(bbox);
+    target.width(width(bbox));
   }
 
+  return target;
+}
+
+/**
+ * Given a value which extends `Render`, produce an svg string
+ * representing the value.
+ *
+ * @param a The value to render as an SVG.
+ * @param padding The amount of space to leave around the bounding
+ * box of `a`.
+ * @param debugFragmentBoundingBoxes An optional flag which, when
+ * true, will instruct the renderer to include renderings of the base
+ * fragment rectangles in the output.
+ * @param stylesheet An optional CSS stylesheet to embed in the SVG.
+ * @param idPrefix An optional prefix for the ids defined in the SVG
+ * (see `Svg.idPrefix`).
+ * @returns An SVG, serialized as a string.
+ */
+export function toSVG<A extends Render>(
+  a: A,
+  padding?: number,
+  debugFragmentBoundingBoxes?: boolean,
+  stylesheet?: string,
+  idPrefix?: string
+): string {
+  const svg = renderTo(new Svg(), a, padding, debugFragmentBoundingBoxes);
+  if(stylesheet !== undefined) {
+    svg.stylesheet(stylesheet);
+  }
+  svg.idPrefix(idPrefix);
   return svg.build();
 }
 
@@ -146,9 +326,9 @@ class Stack extends Render {
     this.b = b;
   }
 
-  render(svg: Svg, sty: SVGStyle) {
-    this.a.render(svg, sty);
-    this.b.render(svg, sty);
+  render(target: RenderTarget, sty: SVGStyle) {
+    this.a.render(target, sty);
+    this.b.render(target, sty);
   }
 
   boundingBox(): Rect | null {
@@ -174,8 +354,8 @@ class WithStyle extends Render {
     this.sty = sty;
   }
 
-  render(svg: Svg, sty: SVGStyle) {
-    this.a.render(svg, { ...sty, ...this.sty });
+  render(target: RenderTarget, sty: SVGStyle) {
+    this.a.render(target, { ...sty, ...this.sty });
   }
 
   boundingBox(): Rect | null {
@@ -183,8 +363,149 @@ class WithStyle extends Render {
   }
 }
 
+/**
+ * How `TextRendering` should vertically position text within its
+ * fragment.
+ *
+ * - `"Measured"`: The text is drawn on the `baseline` of its
+ *   fragment, i.e. at the measured `baseline` of its atom (or at `y =
+ *   0` in the coordinate system of the atom's `rect`, if the atom has
+ *   no `baseline`).
+ * - `"Top"`: The top of the text is aligned to the top of the
+ *   fragment.
+ * - `"Bottom"`: The baseline of the text is aligned to the bottom of
+ *   the fragment.
+ */
+export type TextBaseline = "Measured" | "Top" | "Bottom";
+
+export type TextStyle = {
+  fontFamily: string;
+  /**
+   * The font size, in pixels.
+   */
+  fontSize: number;
+  baseline: TextBaseline;
+  /**
+   * The color of the text. May be a function, in which case it is
+   * called with each atom (and its index in document order) to find
+   * the color of that atom.
+   */
+  color: string | ((atom: Atom<WithMeasurements>, index: number) => string);
+  /**
+   * CSS class names to add to the text of each atom. As with `color`,
+   * this may be a function of the atom and its index.
+   */
+  classNames: string[] | ((atom: Atom<WithMeasurements>, index: number) => string[]);
+  /**
+   * The writing direction of the layout whose fragments are rendered.
+   * In the `"TTB"` direction, text is rotated a quarter turn
+   * clockwise to run down its fragment.
+   */
+  direction: WritingDirection;
+};
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: "monospace",
+  fontSize: 12,
+  baseline: "Measured",
+  color: "black",
+  classNames: [],
+  direction: "LTR",
+};
+
+/**
+ * A rendering of the text of each fragment of a layout. Stack a
+ * `TextRendering` above a layout result to produce a finished image
+ * of the text, e.g.
+ *
+ * ```
+ * const result = algo.layout(tree);
+ * toSVG(result.stack(new TextRendering(result, tree)));
+ * ```
+ */
+export class TextRendering extends Render {
+  private fragments: FragmentsInfo;
+  private layoutTree: LayoutTree<WithMeasurements>;
+  private textStyle: TextStyle;
+
+  /**
+   * @param fragments The laid-out fragments whose text to render.
+   * @param layoutTree The measured tree from which `fragments` were
+   * laid out. Its atoms must be in one-to-one correspondence with the
+   * fragments.
+   * @param textStyle The style of the text.
+   */
+  constructor(fragments: FragmentsInfo, layoutTree: LayoutTree<WithMeasurements>, textStyle?: Partial<TextStyle>) {
+    super();
+    this.fragments = fragments;
+    this.layoutTree = layoutTree;
+    this.textStyle = { ...DEFAULT_TEXT_STYLE, ...textStyle };
+  }
+
+  render(target: RenderTarget, _sty: SVGStyle) {
+    const { fontFamily, fontSize, baseline, color, classNames, direction } = this.textStyle;
+    const atoms = eachAtom(this.layoutTree);
+
+    let index = 0;
+    for(const frag of this.fragments.fragmentsInfo()) {
+      const atom = atoms.next().value;
+      if(atom === undefined) {
+        break;
+      }
+
+      const text = target
+        .text(frag.text)
+        .font(fontFamily, fontSize)
+        .fill(typeof color === "string" ? color : color(atom, index))
+        .classNames(Array.isArray(classNames) ? classNames : classNames(atom, index));
+
+      if(direction === "TTB") {
+        // The fragment is a rotated copy of the atom, so the text
+        // starts at the top of the fragment, and its own "top" faces
+        // the right of the fragment.
+        text.rotate(90);
+        switch(baseline) {
+          case "Measured": {
+            text.move(frag.baseline, frag.rect.top);
+          } break;
+          case "Top": {
+            text
+              .move(frag.rect.right, frag.rect.top)
+              .dominantBaseline("text-before-edge");
+          } break;
+          case "Bottom": {
+            text.move(frag.rect.left, frag.rect.top);
+          } break;
+        }
+      } else {
+        // Right-to-left text is also drawn from the left edge of its
+        // fragment.
+        switch(baseline) {
+          case "Measured": {
+            text.move(frag.rect.left, frag.baseline);
+          } break;
+          case "Top": {
+            text
+              .move(frag.rect.left, frag.rect.top)
+              .dominantBaseline("text-before-edge");
+          } break;
+          case "Bottom": {
+            text.move(frag.rect.left, frag.rect.bottom);
+          } break;
+        }
+      }
+
+      ++index;
+    }
+  }
+
+  boundingBox(): Rect | null {
+    return null;
+  }
+}
+
 export class EmptyRendering extends Render {
-  render(_svg: Svg, _sty: SVGStyle) {
+  render(_target: RenderTarget, _sty: SVGStyle) {
     // Nothing to do.
   }
 
@@ -193,88 +514,118 @@ export class EmptyRendering extends Render {
   }
 }
 
-type SVGTextElement = {
+
+/**
+ * A command in a path drawn by a `RenderTarget`. Paths are stored in
+ * this structured form (rather than as SVG path strings) so that
+ * every backend can draw them with its own primitives.
+ *
+ * An `ArcTo` command draws a circular arc of the given `radius` from
+ * the current point to `(x, y)`. The arc is tangent to the lines from
+ * the current point to `corner`, and from `corner` to `(x, y)`.
+ */
+export type PathCommand =
+    { type: "MoveTo", x: number, y: number }
+  | { type: "LineTo", x: number, y: number }
+  | { type: "ArcTo", corner: Point, x: number, y: number, radius: number, clockwise: boolean }
+  | { type: "Close" };
+
+/**
+ * An animation of one attribute of an element from one value to
+ * another. Only the `Svg` target animates elements (using SMIL);
+ * other targets draw elements as they are at the start of their
+ * animations.
+ */
+export type Animation = {
+  attributeName: string;
+  from: string;
+  to: string;
+  /**
+   * The duration of the animation, in seconds.
+   */
+  duration: number;
+};
+
+export type TextElement = {
   type: "text";
   text: string;
   x: number;
   y: number;
-  style?: string;
+  fontFamily?: string;
+  /**
+   * The font size, in pixels.
+   */
+  fontSize?: number;
+  fill?: string;
+  dominantBaseline?: string;
+  /**
+   * The angle, in degrees clockwise, by which the text is rotated
+   * about `(x, y)`.
+   */
+  rotate?: number;
+  classNames?: string[];
+  animations?: Animation[];
 };
 
-interface SVGFillAndStroke {
-  fill?: string;
+export interface FillAndStroke {
+  fill?: Paint;
+  fillOpacity?: number;
   stroke?: string;
   strokeWidth?: number;
+  strokeDasharray?: number[];
+  /**
+   * The `id` of the `Node` which this element depicts, if any.
+   */
+  nodeId?: string;
+  classNames?: string[];
+  /**
+   * Additional presentation attributes. Only the `Svg` target
+   * emits these.
+   */
+  attributes?: { [name: string]: string };
+  /**
+   * The standard deviation of a gaussian blur to apply to the
+   * element. Only the `Svg` target blurs elements.
+   */
+  blur?: number;
+  animations?: Animation[];
 };
 
-type SVGRectElement = {
+export type RectElement = {
   type: "rect";
   width: number;
   height: number;
   x: number;
   y: number;
-} & SVGFillAndStroke;
+} & FillAndStroke;
 
-type SVGPathElement = {
+export type PathElement = {
   type: "path";
-  d: string;
-} & SVGFillAndStroke;
+  commands: PathCommand[];
+} & FillAndStroke;
 
-type SVGLineElement = {
+export type LineElement = {
   type: "line";
   x1: number;
   x2: number;
   y1: number;
   y2: number;
-} & SVGFillAndStroke;
+} & FillAndStroke;
 
-type SVGElement = SVGTextElement | SVGRectElement | SVGPathElement | SVGLineElement;
+export type DrawElement = TextElement | RectElement | PathElement | LineElement;
 
-function sanitize(str: string) {
-  return String(str)
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-}
-
-function buildElement(elt: SVGElement): string {
-  let strokeProperties = "";
-  if(elt.type === "rect" || elt.type === "path" || elt.type === "line") {
-    if(elt.fill !== undefined) {
-      strokeProperties += ` fill=\"${elt.fill}\"`;
-    }
-
-    if(elt.stroke !== undefined) {
-      strokeProperties += ` stroke=\"${elt.stroke}\"`;
-    }
-
-    if(elt.strokeWidth !== undefined) {
-      strokeProperties += ` stroke-width=\"${elt.strokeWidth}\"`;
-    }
-  }
-
-
-  switch(elt.type) {
-    case "text": {
-      let out = `<text x=\"${elt.x}\" y=\"${elt.y}\"`;
-      if(elt.style) {
-        out += ` style=\"${elt.style}\"`;
-      }
-      const text = sanitize(elt.text)
-      return `${out}>${text}</text>`;
-    };
-    case "rect":
-      return `<rect x=\"${elt.x}\" y=\"${elt.y}\" width=\"${elt.width}\" height=\"${elt.height}\"${strokeProperties} />`;
-    case "path":
-      return `<path d=\"${elt.d}\"${strokeProperties} />`;
-    case "line":
-      return `<line x1=\"${elt.x1}\" y1=\"${elt.y1}\" x2=\"${elt.x2}\" y2=\"${elt.y2}\"${strokeProperties} />`;
-  }
-}
-
-export class Svg {
-  private elements: SVGElement[];
+/**
+ * A backend-neutral drawing surface. `Render`ables add text, rect,
+ * path and line elements to a `RenderTarget`, which records them in
+ * order. Each backend (`Svg`, `CanvasTarget`, `PdfTarget`) then turns
+ * the recorded elements into its own output.
+ *
+ * Elements are drawn in the order in which they were added, and
+ * follow the painting rules of SVG: an element with no `fill` is
+ * filled in black, and an element with no `stroke` is not stroked.
+ */
+export abstract class RenderTarget {
+  protected elements: DrawElement[];
   private _viewbox: Rect | undefined;
   private _width: number | undefined;
   private _height: number | undefined;
@@ -284,7 +635,8 @@ export class Svg {
   }
 
   /**
-   * Set or get the SVG's viewbox.
+   * Set or get the target's viewbox, i.e. the region of the drawing
+   * which is visible in the output.
    */
   viewbox(vb?: Rect) {
     if(vb !== undefined) {
@@ -294,7 +646,7 @@ export class Svg {
   }
 
   /**
-   * Set or get the SVG's width.
+   * Set or get the target's width.
    */
   width(w?: number) {
     if(w !== undefined) {
@@ -304,7 +656,7 @@ export class Svg {
   }
 
   /**
-   * Set or get the SVG's height.
+   * Set or get the target's height.
    */
   height(h?: number) {
     if(h !== undefined) {
@@ -313,68 +665,402 @@ export class Svg {
     return this._height;
   }
 
-  private append(e: SVGElement) {
+  /**
+   * Find the size of the output, in output units, and the scale from
+   * the viewbox to the output. If only one of `width` and `height` is
+   * set, the other is chosen to preserve the aspect ratio of the
+   * viewbox.
+   *
+   * @returns The output width and height, and the scale factors in
+   * `x` and `y`, or `null` if no viewbox has been set.
+   */
+  protected outputSize(): { width: number, height: number, sx: number, sy: number } | null {
+    if(this._viewbox === undefined) {
+      return null;
+    }
+
+    const vbWidth = width(this._viewbox);
+    const vbHeight = height(this._viewbox);
+
+    let w = this._width;
+    let h = this._height;
+    if(w === undefined && h === undefined) {
+      w = vbWidth;
+      h = vbHeight;
+    } else if(w === undefined) {
+      w = vbHeight === 0 ? vbWidth : h! * vbWidth / vbHeight;
+    } else if(h === undefined) {
+      h = vbWidth === 0 ? vbHeight : w * vbHeight / vbWidth;
+    }
+
+    return {
+      width: w,
+      height: h!,
+      sx: vbWidth === 0 ? 1 : w / vbWidth,
+      sy: vbHeight === 0 ? 1 : h! / vbHeight,
+    };
+  }
+
+  /**
+   * Add an element which was built elsewhere (e.g. recorded by
+   * another target). Elements are usually added with the builder
+   * methods below.
+   */
+  append(e: DrawElement) {
     this.elements.push(e);
   }
 
-  text(s: string): SvgTextBuilder {
-    const elt: SVGTextElement = { type: "text", text: s, x: 0, y: 0 };
+  text(s: string): TextBuilder {
+    const elt: TextElement = { type: "text", text: s, x: 0, y: 0 };
     this.append(elt);
-    return new SvgTextBuilder(elt);
+    return new TextBuilder(elt);
   }
 
   rect(w: number, h: number) {
-    const elt: SVGRectElement = { type: "rect", width: w, height: h, x: 0, y: 0 };
+    const elt: RectElement = { type: "rect", width: w, height: h, x: 0, y: 0 };
     this.append(elt);
-    return new SvgRectBuilder(elt);
+    return new RectBuilder(elt);
   }
 
-  path(p: string) {
-    const elt: SVGPathElement = { type: "path", d: p };
+  path(commands: PathCommand[]) {
+    const elt: PathElement = { type: "path", commands };
     this.append(elt);
-    return new SvgPathBuilder(elt);
+    return new PathBuilder(elt);
   }
 
   line(x1: number, y1: number, x2: number, y2: number) {
-    const elt: SVGLineElement = { type: "line", x1, y1, x2, y2 };
+    const elt: LineElement = { type: "line", x1, y1, x2, y2 };
     this.append(elt);
-    return new SvgLineBuilder(elt);
+    return new LineBuilder(elt);
+  }
+}
+
+function sanitize(str: string) {
+  return String(str)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a list of `PathCommand`s to an SVG path string.
+ *
+ * @param commands The commands to convert.
+ * @returns An SVG path string.
+ */
+export function svgPathData(commands: PathCommand[]): string {
+  let out: string[] = [];
+  for(const cmd of commands) {
+    switch(cmd.type) {
+      case "MoveTo": out.push(`M ${cmd.x} ${cmd.y}`); break;
+      case "LineTo": out.push(`L ${cmd.x} ${cmd.y}`); break;
+      case "ArcTo": {
+        out.push(`A ${cmd.radius} ${cmd.radius} 0 0 ${cmd.clockwise ? "1" : "0"} ${cmd.x} ${cmd.y}`);
+      } break;
+      case "Close": out.push("Z"); break;
+    }
+  }
+  return out.join(" ");
+}
+
+/**
+ * Check if `name` can be used as the name of an XML attribute.
+ */
+function isAttributeName(name: string): boolean {
+  return /^[A-Za-z_:][-A-Za-z0-9_:.]*$/.test(name);
+}
+
+/**
+ * Check if `prefix` can begin the ids defined in an SVG (see
+ * `Svg.idPrefix`). The ids are XML names without colons (`NCName`s),
+ * so the prefix must be one too.
+ *
+ * @param prefix The prefix to check.
+ * @returns `true` if `prefix` is a valid id prefix, and `false`
+ * otherwise.
+ */
+export function isIdPrefix(prefix: string): boolean {
+  return /^[A-Za-z_][-A-Za-z0-9_.]*$/.test(prefix);
+}
+
+function buildClassAttribute(classNames: string[] | undefined): string {
+  if(classNames === undefined || classNames.length === 0) {
+    return "";
+  }
+  return ` class=\"${sanitize(classNames.join(" "))}\"`;
+}
+
+/**
+ * Build the SMIL `<animate>` elements for a list of animations. Each
+ * animation holds its final value once it finishes.
+ */
+function buildAnimations(animations: Animation[] | undefined): string {
+  return (animations ?? []).map(a => {
+    assert(isAttributeName(a.attributeName), `"${a.attributeName}" is not a valid attribute name`);
+    return `<animate attributeName=\"${a.attributeName}\" from=\"${sanitize(a.from)}\" to=\"${sanitize(a.to)}\"`
+      + ` dur=\"${a.duration}s\" fill=\"freeze\" />`;
+  }).join("");
+}
+
+/**
+ * Build the SVG element which defines a gradient or pattern.
+ *
+ * @param id The id of the element.
+ * @param paint The gradient or pattern to define.
+ * @returns An SVG element, serialized as a string.
+ */
+function buildPaintServer(id: string, paint: Exclude<Paint, string>): string {
+  const buildStops = (stops: GradientStop[]) => stops.map(stop => {
+    let out = `<stop offset=\"${stop.offset}\" stop-color=\"${sanitize(stop.color)}\"`;
+    if(stop.opacity !== undefined) {
+      out += ` stop-opacity=\"${stop.opacity}\"`;
+    }
+    return `${out} />`;
+  }).join("");
+
+  switch(paint.type) {
+    case "LinearGradient": {
+      // Round the end points of the gradient vector so that (for
+      // instance) a 90 degree angle doesn't produce 0.49999999999999994.
+      const round = (n: number) => Math.round(n * 10000) / 10000;
+      const rad = paint.angle * Math.PI / 180;
+      const dx = Math.cos(rad) / 2;
+      const dy = Math.sin(rad) / 2;
+      return `<linearGradient id=\"${id}\" x1=\"${round(0.5 - dx)}\" y1=\"${round(0.5 - dy)}\" x2=\"${round(0.5 + dx)}\" y2=\"${round(0.5 + dy)}\">`
+        + `${buildStops(paint.stops)}</linearGradient>`;
+    }
+    case "RadialGradient": {
+      return `<radialGradient id=\"${id}\">${buildStops(paint.stops)}</radialGradient>`;
+    }
+    case "HatchPattern": {
+      const s = paint.spacing;
+      let out = `<pattern id=\"${id}\" patternUnits=\"userSpaceOnUse\" width=\"${s}\" height=\"${s}\" patternTransform=\"rotate(${paint.angle})\">`;
+      if(paint.background !== undefined) {
+        out += `<rect width=\"${s}\" height=\"${s}\" fill=\"${sanitize(paint.background)}\" />`;
+      }
+      out += `<line x1=\"0\" y1=\"0\" x2=\"0\" y2=\"${s}\" stroke=\"${sanitize(paint.color)}\" stroke-width=\"${paint.lineWidth}\" />`;
+      return `${out}</pattern>`;
+    }
+  }
+}
+
+/**
+ * Build an SVG element.
+ *
+ * @param elt The element to build.
+ * @param paintRef A function which, given a gradient or pattern,
+ * returns a reference to its definition.
+ * @param blurRef A function which, given the standard deviation of a
+ * blur, returns a reference to the definition of its filter.
+ * @returns The SVG element, serialized as a string.
+ */
+function buildElement(
+  elt: DrawElement,
+  paintRef: (paint: Exclude<Paint, string>) => string,
+  blurRef: (stdDeviation: number) => string
+): string {
+  let strokeProperties = "";
+  if(elt.type === "rect" || elt.type === "path" || elt.type === "line") {
+    if(elt.fill !== undefined) {
+      const fill = typeof elt.fill === "string" ? sanitize(elt.fill) : paintRef(elt.fill);
+      strokeProperties += ` fill=\"${fill}\"`;
+    }
+
+    if(elt.fillOpacity !== undefined) {
+      strokeProperties += ` fill-opacity=\"${elt.fillOpacity}\"`;
+    }
+
+    if(elt.stroke !== undefined) {
+      strokeProperties += ` stroke=\"${sanitize(elt.stroke)}\"`;
+    }
+
+    if(elt.strokeWidth !== undefined) {
+      strokeProperties += ` stroke-width=\"${elt.strokeWidth}\"`;
+    }
+
+    if(elt.strokeDasharray !== undefined && elt.strokeDasharray.length > 0) {
+      strokeProperties += ` stroke-dasharray=\"${elt.strokeDasharray.join(" ")}\"`;
+    }
+
+    if(elt.blur !== undefined && elt.blur > 0) {
+      strokeProperties += ` filter=\"${blurRef(elt.blur)}\"`;
+    }
+
+    if(elt.nodeId !== undefined) {
+      strokeProperties += ` data-node-id=\"${sanitize(elt.nodeId)}\"`;
+    }
+
+    strokeProperties += buildClassAttribute(elt.classNames);
+
+    for(const [name, value] of Object.entries(elt.attributes ?? {})) {
+      assert(isAttributeName(name), `"${name}" is not a valid attribute name`);
+      strokeProperties += ` ${name}=\"${sanitize(value)}\"`;
+    }
+  }
+
+
+  switch(elt.type) {
+    case "text": {
+      let out = `<text x=\"${elt.x}\" y=\"${elt.y}\"`;
+      if(elt.fontFamily !== undefined && elt.fontSize !== undefined) {
+        out += ` style=\"font-family:${sanitize(elt.fontFamily)};font-size: ${elt.fontSize}px;white-space: pre\"`;
+      }
+      if(elt.fill !== undefined) {
+        out += ` fill=\"${sanitize(elt.fill)}\"`;
+      }
+      if(elt.dominantBaseline !== undefined) {
+        out += ` dominant-baseline=\"${elt.dominantBaseline}\"`;
+      }
+      if(elt.rotate !== undefined && elt.rotate !== 0) {
+        out += ` transform=\"rotate(${elt.rotate} ${elt.x} ${elt.y})\"`;
+      }
+      out += buildClassAttribute(elt.classNames);
+      const text = sanitize(elt.text)
+      return `${out}>${text}${buildAnimations(elt.animations)}</text>`;
+    };
+    case "rect":
+      return closeElement(
+        "rect",
+        `x=\"${elt.x}\" y=\"${elt.y}\" width=\"${elt.width}\" height=\"${elt.height}\"${strokeProperties}`,
+        elt.animations
+      );
+    case "path":
+      return closeElement("path", `d=\"${svgPathData(elt.commands)}\"${strokeProperties}`, elt.animations);
+    case "line":
+      return closeElement(
+        "line",
+        `x1=\"${elt.x1}\" y1=\"${elt.y1}\" x2=\"${elt.x2}\" y2=\"${elt.y2}\"${strokeProperties}`,
+        elt.animations
+      );
+  }
+}
+
+/**
+ * Build an SVG element which has no children other than its
+ * animations. Elements without animations are self-closing.
+ */
+function closeElement(tag: string, attributes: string, animations: Animation[] | undefined): string {
+  if(animations === undefined || animations.length === 0) {
+    return `<${tag} ${attributes} />`;
+  }
+  return `<${tag} ${attributes}>${buildAnimations(animations)}</${tag}>`;
+}
+
+/**
+ * A `RenderTarget` which serializes its elements as an SVG document.
+ */
+export class Svg extends RenderTarget {
+  private _stylesheet: string | undefined;
+  private _idPrefix: string = "rb";
+
+  /**
+   * Set or get the prefix of the ids of the gradients, patterns and
+   * filters defined in the SVG. When several SVGs are inlined into the same
+   * document, give each one a different prefix so that their ids
+   * don't collide. The prefix must be an XML name without colons (see
+   * `isIdPrefix`).
+   */
+  idPrefix(prefix?: string) {
+    if(prefix !== undefined) {
+      assert(isIdPrefix(prefix), `"${prefix}" is not a valid id prefix`);
+      this._idPrefix = prefix;
+    }
+    return this._idPrefix;
+  }
+
+  /**
+   * Set or get the CSS stylesheet which is embedded in the SVG. The
+   * stylesheet can refer to the `classNames` and `data-node-id`
+   * attributes of elements, so that a rendering can be restyled
+   * without laying it out again.
+   */
+  stylesheet(css?: string) {
+    if(css !== undefined) {
+      this._stylesheet = css;
+    }
+    return this._stylesheet;
   }
 
   build(): string {
     let out = "<svg version=\"1.1\" xmlns=\"http://www.w3.org/2000/svg\"";
 
-    if(this._width !== undefined) {
-      out += ` width=\"${this._width}\"`;
+    const w = this.width();
+    if(w !== undefined) {
+      out += ` width=\"${w}\"`;
     }
 
-    if(this._height !== undefined) {
-      out += ` height=\"${this._height}\"`;
+    const h = this.height();
+    if(h !== undefined) {
+      out += ` height=\"${h}\"`;
     }
 
-    if(this._viewbox !== undefined) {
-      const x = this._viewbox.left;
-      const y = this._viewbox.top;
-      const w = width(this._viewbox);
-      const h = height(this._viewbox);
-      out += ` viewBox=\"${x} ${y} ${w} ${h}\"`;
+    const vb = this.viewbox();
+    if(vb !== undefined) {
+      out += ` viewBox=\"${vb.left} ${vb.top} ${width(vb)} ${height(vb)}\"`;
     }
 
-    return `${out}>${this.elements.map(buildElement).join("")}</svg>`;
+    let style = "";
+    if(this._stylesheet !== undefined) {
+      // The stylesheet goes in a CDATA section, so that it doesn't
+      // need escaping (other than splitting up any "]]>").
+      style = `<style><![CDATA[${this._stylesheet.replace(/]]>/g, "]]]]><![CDATA[>")}]]></style>`;
+    }
+
+    // Each distinct gradient or pattern is defined once, and
+    // referred to by every element which uses it.
+    const paintIds: Map<string, string> = new Map();
+    let defs = "";
+    const paintRef = (paint: Exclude<Paint, string>) => {
+      const key = JSON.stringify(paint);
+      let id = paintIds.get(key);
+      if(id === undefined) {
+        id = `${this._idPrefix}-paint-${paintIds.size}`;
+        paintIds.set(key, id);
+        defs += buildPaintServer(id, paint);
+      }
+      return `url(#${id})`;
+    };
+
+    // Likewise, each distinct blur is defined once as a filter. The
+    // filter region is enlarged so that the blur isn't clipped.
+    const blurIds: Map<number, string> = new Map();
+    const blurRef = (stdDeviation: number) => {
+      let id = blurIds.get(stdDeviation);
+      if(id === undefined) {
+        id = `${this._idPrefix}-blur-${blurIds.size}`;
+        blurIds.set(stdDeviation, id);
+        defs += `<filter id=\"${id}\" x=\"-50%\" y=\"-50%\" width=\"200%\" height=\"200%\">`
+          + `<feGaussianBlur stdDeviation=\"${stdDeviation}\" /></filter>`;
+      }
+      return `url(#${id})`;
+    };
+
+    const body = this.elements.map(elt => buildElement(elt, paintRef, blurRef)).join("");
+    if(defs.length > 0) {
+      defs = `<defs>${defs}</defs>`;
+    }
+
+    return `${out}>${style}${defs}${body}</svg>`;
   }
 }
 
 class FillAndStrokeBuilder {
-  private fs: SVGFillAndStroke;
-  constructor(fs: SVGFillAndStroke) {
+  private fs: FillAndStroke;
+  constructor(fs: FillAndStroke) {
     this.fs = fs;
   }
 
-  fill(f?: string) {
+  fill(f?: Paint) {
     this.fs.fill = f;
     return this;
   }
 
+  fillOpacity(o?: number) {
+    this.fs.fillOpacity = o;
+    return this;
+  }
+
   stroke(s?: string) {
     this.fs.stroke = s;
     return this;
@@ -384,11 +1070,41 @@ class FillAndStrokeBuilder {
     this.fs.strokeWidth = w;
     return this;
   }
+
+  strokeDasharray(d?: number[]) {
+    this.fs.strokeDasharray = d;
+    return this;
+  }
+
+  blur(stdDeviation?: number) {
+    this.fs.blur = stdDeviation;
+    return this;
+  }
+
+  animate(a: Animation) {
+    this.fs.animations = [...this.fs.animations ?? [], a];
+    return this;
+  }
+
+  nodeId(id?: string) {
+    this.fs.nodeId = id;
+    return this;
+  }
+
+  classNames(c?: string[]) {
+    this.fs.classNames = c;
+    return this;
+  }
+
+  attributes(a?: { [name: string]: string }) {
+    this.fs.attributes = a;
+    return this;
+  }
 }
 
-class SvgRectBuilder extends FillAndStrokeBuilder {
-  private it: SVGRectElement;
-  constructor(it: SVGRectElement) {
+class RectBuilder extends FillAndStrokeBuilder {
+  private it: RectElement;
+  constructor(it: RectElement) {
     super(it);
     this.it = it;
   }
@@ -400,21 +1116,21 @@ class SvgRectBuilder extends FillAndStrokeBuilder {
   }
 }
 
-class SvgPathBuilder extends FillAndStrokeBuilder {
-  constructor(it: SVGPathElement) {
+class PathBuilder extends FillAndStrokeBuilder {
+  constructor(it: PathElement) {
     super(it);
   }
 }
 
-class SvgLineBuilder extends FillAndStrokeBuilder {
-  constructor(it: SVGLineElement) {
+class LineBuilder extends FillAndStrokeBuilder {
+  constructor(it: LineElement) {
     super(it);
   }
 }
 
-class SvgTextBuilder {
-  private it: SVGTextElement;
-  constructor(it: SVGTextElement) {
+class TextBuilder {
+  private it: TextElement;
+  constructor(it: TextElement) {
     this.it = it;
   }
 
@@ -425,9 +1141,33 @@ class SvgTextBuilder {
   }
 
   font(family: string, size: number) {
-    // HACK: These style properties should be set in a more principled
-    // way.
-    this.it.style = `font-family:${family};font-size: ${size}px;white-space: pre`;
+    this.it.fontFamily = family;
+    this.it.fontSize = size;
+    return this;
+  }
+
+  fill(f?: string) {
+    this.it.fill = f;
+    return this;
+  }
+
+  dominantBaseline(b?: string) {
+    this.it.dominantBaseline = b;
+    return this;
+  }
+
+  rotate(deg?: number) {
+    this.it.rotate = deg;
+    return this;
+  }
+
+  classNames(c?: string[]) {
+    this.it.classNames = c;
+    return this;
+  }
+
+  animate(a: Animation) {
+    this.it.animations = [...this.it.animations ?? [], a];
     return this;
   }
 }
@@ -16,7 +16,7 @@ type RectWithPadding = {
    */
   rect: r.Rect;
   /**
-   * It's maximum padding.
+   * Its maximum padding on any side (see `Timetable.getMaxPadding`).
    */
   maxPadding: number;
 };
@@ -27,6 +27,12 @@ const CELL_SIZE = 100;
 
 export default class Backing {
   private elements: RectOrSpacerWithPadding[];
+  /**
+   * The number of elements at the start of `elements` which are
+   * already in their final position (see `withPrefix`). These
+   * elements aren't translated.
+   */
+  private frozen: number;
   /**
    * Mapping from y-coordinate to set of indices into `elements`.
    */
@@ -44,6 +50,31 @@ export default class Backing {
     this.elements = [];
     this.chunks = new Map();
     this.chunks.set(0, new Set());
+    this.frozen = 0;
+  }
+
+  /**
+   * Construct a new `Backing` which starts with the first `end`
+   * elements of `previous`. These elements are in their final
+   * position, so translating them has no effect.
+   *
+   * @param previous The `Backing` whose elements to copy.
+   * @param end The number of elements to copy.
+   * @returns A new `Backing` with `end` elements.
+   */
+  static withPrefix(previous: Backing, end: number): Backing {
+    const backing = new Backing();
+    for(let i = 0; i < end; ++i) {
+      const elt = previous.elements[i];
+      if(typeof elt === "number") {
+        backing.pushSpacer(elt);
+      } else {
+        backing.pushRect(elt.rect, elt.maxPadding);
+      }
+    }
+
+    backing.frozen = end;
+    return backing;
   }
 
   private chunkRangeOfRect(r: RectWithPadding): [number, number] {
@@ -81,7 +112,7 @@ export default class Backing {
 
   private translateRect(index: number, v: v.Vector) {
     const elt = this.elements[index];
-    if(typeof elt === "number") {
+    if(typeof elt === "number" || index < this.frozen) {
       return;
     }
 
@@ -138,7 +169,7 @@ export default class Backing {
 
   /**
    * Translate each rectangle in the `Range` by the given offset
-   * vector (spacers are ignored).
+   * vector (spacers and frozen rectangles are ignored).
    *
    * @param range The `Range` of indices to offset.
    * @param v The vector by which to offset each element in the `Range`.
@@ -153,7 +184,7 @@ export default class Backing {
 
   /**
    * Translate each rectangle in the `Region` by the given offset
-   * vector (spacers are ignored).
+   * vector (spacers and frozen rectangles are ignored).
    *
    * @param region The `Region` to offset.
    * @param v The vector by which to offset each element in the `Region`.
@@ -1,18 +1,38 @@
 import * as alt from "../layout-tree";
 import Backing from "./backing";
 import assert from "../assert";
-import reassocLayoutTree from "../reassoc/reassoc-layout-tree";
-import { FragmentsInfo, FragmentInfo } from "../layout-tree";
+import reassocLayoutTree, { prefixOfLines, withPrefixLines } from "../reassoc/reassoc-layout-tree";
+import {
+  FragmentsInfo,
+  FragmentInfo,
+  HitTest,
+  LineInfo,
+  LinesInfo,
+  NodeOutline,
+  NodePath,
+  baselineRect,
+  linesOfFragments,
+  nodePaths,
+  paddingSides
+} from "../layout-tree";
 import { LayoutTree, WithMeasurements, WithOutlines } from "../reassoc/layout-tree";
 import { Polygon, PolygonRendering } from "../polygon";
-import { Rect, horizontallyOverlap, inflate, width, height, union } from "../rect";
+import { Rect, Sides, addSides, horizontallyOverlap, inflate, scaleSides, width, height, union } from "../rect";
 import { Region, EMPTY, joinRegions, enumerateIndices, regionFromStackRef } from "./region";
-import { Svg, Render, SVGStyle } from "../render";
-import { Timetable, WithRegions, regionOfLayoutTree } from "./timetable";
+import { Render, RenderTarget, SVGStyle } from "../render";
+import { Timetable, TimetablePrefix, WithRegions, regionOfLayoutTree } from "./timetable";
 import { add, Vector } from "../vector";
 import { fromRectangles } from "../polygon/from-rectangles";
+import { IncrementalLayout, cleanPrefix, nodePathsAfterPrefix } from "../incremental";
+import { nodeAtPoint, outlineAtPath } from "../hit-test";
+import { Point } from "../point";
 import { pathOfRect, offsetPolygon, simplifyPolygons } from "../polygon";
 import { NumberSettingView, SettingView, ToggleSettingView, ViewSettings } from "../settings";
+import { softWrap, sourceLineNumbers } from "../soft-wrap";
+import { DirectedLayoutResult, WritingDirection, logicalTree } from "../writing-direction";
+import { Grid, snapToGrid, withGridCoordinates } from "../grid";
+import { alignLayoutTree } from "../vertical-align";
+import { isStrut, withMinimumSizes } from "../min-size";
 
 /**
  * Find the leading between regions `a` and `b`. In other words, find
@@ -141,26 +161,72 @@ function leading(backing: Backing, timetable: Timetable, a: Region, b: Region):
  * `LayoutTree<WithRegions>` which has the same structure as the input
  * tree, but is annotated with the region of each `Node`.
  */
-class UnsimplifiedRocksLayoutResult extends Render implements FragmentsInfo {
+class UnsimplifiedRocksLayoutResult extends Render implements FragmentsInfo, HitTest, LinesInfo {
   backing: Backing;
   timetable: Timetable;
-  layoutTree: LayoutTree<WithRegions>;
-
-  constructor(backing: Backing, timetable: Timetable, layoutTree: LayoutTree<WithRegions>) {
+  layoutTree: LayoutTree<WithRegions<WithMeasurements>>;
+  /**
+   * The region of each line of the layout, along with its advance.
+   */
+  lines: L1s;
+  /**
+   * The vertical offset applied to each line of the layout, indexed
+   * by line number.
+   */
+  lineOffsets: number[];
+  /**
+   * The path to each `Node` of the input tree, in preorder. The
+   * `Wrap`s of `layoutTree` (also in preorder) correspond one-to-one
+   * with these paths.
+   */
+  paths: NodePath[];
+  /**
+   * The distance by which each atom (in preorder) was moved down from
+   * the baseline of its line, to vertically align its `Node` (see
+   * `alignLayoutTree`).
+   */
+  shifts: number[];
+  /**
+   * The line of the input tree of each line (see
+   * `sourceLineNumbers`).
+   */
+  sourceLines: number[];
+  /**
+   * The grid onto which the layout was snapped, if any.
+   */
+  grid?: Grid;
+
+  constructor(
+    backing: Backing,
+    timetable: Timetable,
+    layoutTree: LayoutTree<WithRegions<WithMeasurements>>,
+    lines: L1s,
+    lineOffsets: number[],
+    paths: NodePath[],
+    shifts: number[],
+    sourceLines: number[],
+    grid?: Grid
+  ) {
     super();
     this.backing = backing;
     this.timetable = timetable;
     this.layoutTree = layoutTree;
+    this.lines = lines;
+    this.lineOffsets = lineOffsets;
+    this.paths = paths;
+    this.shifts = shifts;
+    this.sourceLines = sourceLines;
+    this.grid = grid;
   }
 
-  render(svg: Svg, sty: SVGStyle): void {
+  render(target: RenderTarget, sty: SVGStyle): void {
     const go = (root: LayoutTree<WithRegions>) => {
       switch(root.type) {
         case "Atom": {
           if(sty.debugFragmentBoundingBoxes) {
             const r = this.backing.getByIndex(root.stackRef.index);
             assert(typeof r !== "number", "Found Spacer where Atom is expected");
-            svg
+            target
               .rect(width(r), height(r))
               .fill("white")
               .stroke("black")
@@ -175,9 +241,13 @@ class UnsimplifiedRocksLayoutResult extends Render implements FragmentsInfo {
         } break;
         case "Wrap": {
           for(const rect of this.iterRectsInRegion(root.region)) {
-            svg
+            target
               .rect(width(rect), height(rect))
               .fill(root.sty?.fill ?? "none")
+              .fillOpacity(root.sty?.fillOpacity)
+              .nodeId(root.id)
+              .classNames(root.sty?.classNames)
+              .attributes(root.sty?.attributes)
               .move(rect.left, rect.top);
           }
 
@@ -228,16 +298,25 @@ class UnsimplifiedRocksLayoutResult extends Render implements FragmentsInfo {
   fragmentsInfo(): FragmentInfo[] {
     let out: FragmentInfo[] = [];
     let lineNo = 0;
+    let atomIndex = 0;
     const go = (root: LayoutTree<WithRegions>) => {
       switch(root.type) {
         case "Atom": {
+          const shift = this.shifts[atomIndex++];
+          if(isStrut(root)) {
+            break;
+          }
+
           const rect = this.backing.getByIndex(root.stackRef.index);
           assert(typeof rect !== "number", "Found Spacer where Atom is expected");
-          out.push({
+          const info: FragmentInfo = {
             rect,
             lineNo,
-            text: root.text
-          });
+            sourceLineNo: this.sourceLines[lineNo],
+            text: root.text,
+            baseline: this.lineOffsets[lineNo] + shift
+          };
+          out.push(this.grid !== undefined ? withGridCoordinates(info, this.grid, this.lineOffsets[0]) : info);
         } break;
         case "Spacer": break;
         case "JoinV": {
@@ -255,6 +334,47 @@ class UnsimplifiedRocksLayoutResult extends Render implements FragmentsInfo {
     go(this.layoutTree);
     return out;
   }
+
+  linesInfo(): LineInfo[] {
+    // Each line is translated from the measured coordinate system of
+    // its atoms (in which the baseline is at `y = 0`) by its offset.
+    return linesOfFragments(this.fragmentsInfo(), this.lineOffsets, this.sourceLines);
+  }
+
+  nodeOutlines(): NodeOutline[] {
+    let out: NodeOutline[] = [];
+    let wrapIndex = 0;
+    const go = (root: LayoutTree<WithRegions>) => {
+      switch(root.type) {
+        case "Atom":
+        case "Spacer": break;
+        case "JoinV":
+        case "JoinH": {
+          go(root.lhs);
+          go(root.rhs);
+        } break;
+        case "Wrap": {
+          const path = this.paths[wrapIndex++];
+          const rects = [...this.iterRectsInRegion(root.region)];
+          if(rects.length > 0) {
+            out.push({ path, outline: fromRectangles(rects), id: root.id });
+          }
+          go(root.child);
+        } break;
+      }
+    };
+
+    go(this.layoutTree);
+    return out;
+  }
+
+  nodeAt(p: Point): NodePath | null {
+    return nodeAtPoint(this.nodeOutlines(), p);
+  }
+
+  outlineOf(path: NodePath): Polygon | null {
+    return outlineAtPath(this.nodeOutlines(), path);
+  }
 }
 
 
@@ -270,11 +390,11 @@ type L1s = RegionWithAdvance[];
  *
  * @param backing The `Backing` table.
  * @param region The `RegionWithAdvance` to modify.
- * @param padding The amount of padding to apply.
+ * @param padding The amount of padding to apply on each side.
  */
-function wrapRegionWithAdvance(backing: Backing, region: RegionWithAdvance, padding: number) {
-  region.advance = add(region.advance, { dx: 2 * padding, dy: 0 });
-  backing.translateRegion(region.region, { dx: padding, dy: 0 });
+function wrapRegionWithAdvance(backing: Backing, region: RegionWithAdvance, padding: Sides) {
+  region.advance = add(region.advance, { dx: padding.left + padding.right, dy: 0 });
+  backing.translateRegion(region.region, { dx: padding.left, dy: 0 });
 }
 
 /**
@@ -282,9 +402,9 @@ function wrapRegionWithAdvance(backing: Backing, region: RegionWithAdvance, padd
  *
  * @param backing The `Backing` table.
  * @param layout The `Layout` to modify.
- * @param padding The amount of padding to apply.
+ * @param padding The amount of padding to apply on each side.
  */
-function wrapLayout(backing: Backing, layout: L1s, padding: number) {
+function wrapLayout(backing: Backing, layout: L1s, padding: Sides) {
   for(const line of layout) {
     wrapRegionWithAdvance(backing, line, padding);
   }
@@ -325,6 +445,26 @@ function extendH(backing: Backing, a: L1s, b: L1s) {
   a.push(...b.slice(1));
 }
 
+/**
+ * Snap the left edge of each rectangle on a line onto a column of
+ * the grid. Each rectangle is moved rightward at least as far as the
+ * rectangle before it, so the space between rectangles (and hence
+ * the padding around them) only grows.
+ *
+ * @param backing The `Backing` table.
+ * @param line The line whose rectangles to snap.
+ * @param columnWidth The width of a column of the grid.
+ */
+function snapLineToGrid(backing: Backing, line: RegionWithAdvance, columnWidth: number) {
+  let shift = 0;
+  for(const [rect, index] of backing.iterRegioni(line.region)) {
+    shift = snapToGrid(rect.left + shift, columnWidth) - rect.left;
+    if(shift !== 0) {
+      backing.translateRange({ begin: index, end: index + 1 }, { dx: shift, dy: 0 });
+    }
+  }
+}
+
 /**
  * Extend a layout vertically with another layout.
  *
@@ -337,9 +477,27 @@ function extendV(a: L1s, b: L1s) {
 
 export class RocksLayoutSettings implements ViewSettings {
   public idealLeading: number;
+  /**
+   * If set, lines which are wider than `maxWidth` are broken (see
+   * `softWrap`).
+   */
+  public maxWidth?: number;
+  /**
+   * The direction in which fragments advance (see
+   * `WritingDirection`). Defaults to `"LTR"`.
+   */
+  public direction?: WritingDirection;
+  /**
+   * If set, fragments are snapped onto the columns and lines onto
+   * the rows of `grid` (see `Grid`).
+   */
+  public grid?: Grid;
 
-  constructor(idealLeading: number) {
+  constructor(idealLeading: number, maxWidth?: number, direction?: WritingDirection, grid?: Grid) {
     this.idealLeading = idealLeading;
+    this.maxWidth = maxWidth;
+    this.direction = direction;
+    this.grid = grid;
   }
 
   viewSettings(): SettingView[] {
@@ -349,28 +507,82 @@ export class RocksLayoutSettings implements ViewSettings {
   }
 
   clone() {
-    return new RocksLayoutSettings(this.idealLeading);
+    return new RocksLayoutSettings(this.idealLeading, this.maxWidth, this.direction, this.grid);
   }
 }
 
-export class RocksLayout implements alt.Layout {
+export class RocksLayout implements IncrementalLayout<DirectedLayoutResult<UnsimplifiedRocksLayoutResult>> {
   private settings: RocksLayoutSettings;
 
   constructor(settings: RocksLayoutSettings) {
     this.settings = settings;
   }
 
-  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): UnsimplifiedRocksLayoutResult {
-    const backing = new Backing();
+  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): DirectedLayoutResult<UnsimplifiedRocksLayoutResult> {
+    return this.relayout(layoutTree, null, 0);
+  }
+
+  relayout(
+    layoutTree: alt.LayoutTree<alt.WithMeasurements>,
+    previous: DirectedLayoutResult<UnsimplifiedRocksLayoutResult> | null,
+    firstDirtyLine: number
+  ): DirectedLayoutResult<UnsimplifiedRocksLayoutResult> {
+    const direction = this.settings.direction ?? "LTR";
+
+    // The lines of the clean prefix of `layoutTree` (see
+    // `cleanPrefix`) are taken from the `previous` layout: its
+    // subtree of the reassociated tree, its columns of the
+    // `Timetable` and its rectangles in the `Backing`. Only the rest
+    // of the root `Node` is laid out.
+    const prev = previous?.logical ?? null;
+    const prefix = prev !== null ? cleanPrefix(layoutTree, firstDirtyLine) : null;
+    const prefixLines = prefix !== null ? prev!.sourceLines.indexOf(prefix.lines) : 0;
+    assert(prefixLines >= 0, "The previous layout doesn't have the lines of the prefix");
+    const prefixTree = prefix !== null ? prefixOfLines(prev!.layoutTree, prefixLines) : null;
+    assert(prefix === null || prefixTree !== null, "The previous layout doesn't have the lines of the prefix");
+    const tree = prefix?.rest ?? layoutTree;
+
+    const wrapped = this.settings.maxWidth !== undefined
+      ? softWrap(tree, this.settings.maxWidth, layoutTree)
+      : tree;
     const empty: LayoutTree<WithMeasurements> = { type: "Spacer", width: 0, text: "" };
-    const rlt: LayoutTree<WithMeasurements> = reassocLayoutTree(layoutTree, empty);
-    const [timetable, ltWithRegions] = Timetable.fromLayoutTree(rlt);
+    const [aligned, shifts] = alignLayoutTree(withMinimumSizes(logicalTree(wrapped, direction)), true);
+    let rlt: LayoutTree<WithMeasurements> = reassocLayoutTree(aligned, empty);
+
+    let backing = new Backing();
+    let timetablePrefix: TimetablePrefix<WithMeasurements> | undefined = undefined;
+    let prefixAtoms = 0;
+    if(prefix !== null && prefixTree !== null) {
+      assert(rlt.type === "Wrap");
+      rlt = { ...rlt, child: withPrefixLines(rlt.child, prefixTree) };
+
+      // The root `Wrap` has uid 1, so the `Wrap`s of the prefix have
+      // the uids which follow it.
+      timetablePrefix = { layoutTree: prefixTree, timetable: prev!.timetable, nextUid: prefix.nodes + 2 };
+
+      const end = regionOfLayoutTree(prefixTree);
+      assert(end !== "EmptyRegion");
+      backing = Backing.withPrefix(prev!.backing, end.range.end);
+      for(let i = 0; i < end.range.end; ++i) {
+        if(typeof backing.getByIndex(i) !== "number") {
+          ++prefixAtoms;
+        }
+      }
+    }
+    const [timetable, ltWithRegions] = Timetable.fromLayoutTree(rlt, timetablePrefix);
 
     const go = (root: LayoutTree<WithRegions<WithMeasurements>>): L1s => {
+      if(root === prefixTree) {
+        // The rectangles of the prefix are frozen in the `Backing`,
+        // so wrapping it in the root `Wrap` only changes the advance
+        // of its lines.
+        return prev!.lines.slice(0, prefixLines).map(line => ({ ...line }));
+      }
+
       switch(root.type) {
         case "Atom": {
           const maxPadding = timetable.getMaxPadding(root.stackRef.index);
-          assert(root.stackRef.index === backing.pushRect(root.rect, maxPadding));
+          assert(root.stackRef.index === backing.pushRect(baselineRect(root), maxPadding));
           return [{
             region: regionFromStackRef(root.stackRef),
             advance: { dx: width(root.rect), dy: 0}
@@ -394,31 +606,73 @@ export class RocksLayout implements alt.Layout {
           return layout;
         }
         case "Wrap": {
+          // Note: Horizontally, the margin of a `Wrap` takes up space
+          // just like its padding. It isn't drawn, since the
+          // `Timetable` only counts it in the space between
+          // fragments.
           const layout = go(root.child);
-          wrapLayout(backing, layout, root.padding);
+          const margin = paddingSides(root.margin ?? 0);
+          wrapLayout(backing, layout, addSides(paddingSides(root.padding), margin));
           return layout;
         }
       }
     }
 
     const layout = go(ltWithRegions);
+    const grid = this.settings.grid;
+    if(grid !== undefined) {
+      for(const line of layout.slice(prefixLines)) {
+        snapLineToGrid(backing, line, grid.columnWidth);
+      }
+    }
+
+    const sourceLines = [
+      ...prev?.sourceLines.slice(0, prefixLines) ?? [],
+      ...sourceLineNumbers(wrapped).map(lineNo => lineNo + (prefix?.lines ?? 0))
+    ];
 
     // Now, finalize the layout by vertically positioning each line.
+    // Lines before `firstDirtyLine` are identical to those in the
+    // `previous` layout, so we can skip finding their leading, which
+    // is the most expensive part of the layout.
     let lastLineOffset = 0;
     let done: Region = EMPTY;
+    const lineOffsets: number[] = [];
     for(const line of layout) {
-      const currentLineOffset = leading(backing, timetable, done, line.region);
-      const effectiveLeading = currentLineOffset - lastLineOffset;
-      const adjustedOffset = lastLineOffset + Math.max(effectiveLeading, this.settings.idealLeading);
+      const lineNo = lineOffsets.length;
+      let adjustedOffset: number;
+      if(prev !== null && sourceLines[lineNo] < firstDirtyLine && lineNo < prev.lineOffsets.length) {
+        adjustedOffset = prev.lineOffsets[lineNo];
+      } else {
+        const currentLineOffset = leading(backing, timetable, done, line.region);
+        const effectiveLeading = currentLineOffset - lastLineOffset;
+        adjustedOffset = lastLineOffset + Math.max(effectiveLeading, this.settings.idealLeading);
+        if(grid !== undefined && lineNo > 0) {
+          adjustedOffset = snapToGrid(adjustedOffset, grid.rowHeight, lineOffsets[0]);
+        }
+      }
 
-      // Put the current line in its place.
+      // Put the current line in its place (the lines of the prefix
+      // already are).
       backing.translateRegion(line.region, { dx: 0, dy: adjustedOffset });
       done = joinRegions(done, line.region);
+      lineOffsets.push(adjustedOffset);
 
       lastLineOffset = adjustedOffset;
     }
 
-    return new UnsimplifiedRocksLayoutResult(backing, timetable, ltWithRegions);
+    const result = new UnsimplifiedRocksLayoutResult(
+      backing,
+      timetable,
+      ltWithRegions,
+      layout,
+      lineOffsets,
+      prefix !== null ? nodePathsAfterPrefix(prev!.paths, prefix) : nodePaths(layoutTree),
+      [...prev?.shifts.slice(0, prefixAtoms) ?? [], ...shifts],
+      sourceLines,
+      grid
+    );
+    return new DirectedLayoutResult(result, direction);
   }
 }
 
@@ -441,24 +695,31 @@ export function outlineOfLayoutTree(layoutTree: LayoutTree<WithOutlines>): Polyg
   }
 }
 
-class OutlinedRocksLayoutResult extends Render implements FragmentsInfo {
+class OutlinedRocksLayoutResult extends Render implements FragmentsInfo, HitTest, LinesInfo {
   private layoutTree: LayoutTree<WithRegions<WithOutlines>>;
-  private unsimplifiedResult: UnsimplifiedRocksLayoutResult;
+  /**
+   * The result of the underlying `RocksLayout`, in the same direction
+   * as this result.
+   */
+  unsimplifiedResult: DirectedLayoutResult<UnsimplifiedRocksLayoutResult>;
 
-  constructor(layoutTree: LayoutTree<WithRegions<WithOutlines>>, unsimplifiedResult: UnsimplifiedRocksLayoutResult) {
+  constructor(
+    layoutTree: LayoutTree<WithRegions<WithOutlines>>,
+    unsimplifiedResult: DirectedLayoutResult<UnsimplifiedRocksLayoutResult>
+  ) {
     super();
     this.layoutTree = layoutTree;
     this.unsimplifiedResult = unsimplifiedResult;
   }
 
-  render(svg: Svg, sty: SVGStyle) {
-    const go = (root: LayoutTree<WithRegions<WithOutlines>>) => {
+  render(target: RenderTarget, sty: SVGStyle) {
+    const go = (root: LayoutTree<WithRegions<WithOutlines>>, depth: number) => {
       switch(root.type) {
         case "Atom": {
           if(sty.debugFragmentBoundingBoxes) {
-            const r = this.unsimplifiedResult.backing.getByIndex(root.stackRef.index);
+            const r = this.unsimplifiedResult.logical.backing.getByIndex(root.stackRef.index);
             assert(typeof r !== "number", "Found Spacer where Atom is expected");
-            svg
+            target
               .rect(width(r), height(r))
               .fill("white")
               .stroke("black")
@@ -468,21 +729,21 @@ class OutlinedRocksLayoutResult extends Render implements FragmentsInfo {
         case "Spacer": break;
         case "JoinV":
         case "JoinH": {
-          go(root.lhs);
-          go(root.rhs);
+          go(root.lhs, depth);
+          go(root.rhs, depth);
         } break;
         case "Wrap": {
-          const r = new PolygonRendering(root.outline).withStyles({
+          const r = new PolygonRendering(root.outline, root.id, depth + 1).withStyles({
             fill: "none",
             ...root.sty,
           });
-          r.render(svg, sty);
-          go(root.child);
+          r.render(target, sty);
+          go(root.child, depth + 1);
         } break;
       }
     }
 
-    go(this.layoutTree);
+    go(this.layoutTree, 0);
   }
 
   boundingBox(): Rect | null {
@@ -495,17 +756,79 @@ class OutlinedRocksLayoutResult extends Render implements FragmentsInfo {
   }
 
   fragmentsInfo(): FragmentInfo[] {
-    return this.unsimplifiedResult.fragmentsInfo();
+    return this.unsimplifiedResult.logical.fragmentsInfo();
+  }
+
+  linesInfo(): LineInfo[] {
+    return this.unsimplifiedResult.logical.linesInfo();
+  }
+
+  nodeOutlines(): NodeOutline[] {
+    let out: NodeOutline[] = [];
+    let wrapIndex = 0;
+    const go = (root: LayoutTree<WithRegions<WithOutlines>>) => {
+      switch(root.type) {
+        case "Atom":
+        case "Spacer": break;
+        case "JoinV":
+        case "JoinH": {
+          go(root.lhs);
+          go(root.rhs);
+        } break;
+        case "Wrap": {
+          const path = this.unsimplifiedResult.logical.paths[wrapIndex++];
+          if(root.outline.length > 0) {
+            out.push({ path, outline: root.outline, id: root.id });
+          }
+          go(root.child);
+        } break;
+      }
+    };
+
+    go(this.layoutTree);
+    return out;
+  }
+
+  nodeAt(p: Point): NodePath | null {
+    return nodeAtPoint(this.nodeOutlines(), p);
+  }
+
+  outlineOf(path: NodePath): Polygon | null {
+    return outlineAtPath(this.nodeOutlines(), path);
   }
 }
 
 export class OutlinedRocksLayoutSettings implements ViewSettings {
   public idealLeading: number;
   public enableSimplification: boolean;
-
-  constructor(idealLeading: number, enableSimplification: boolean) {
+  /**
+   * If set, lines which are wider than `maxWidth` are broken (see
+   * `softWrap`).
+   */
+  public maxWidth?: number;
+  /**
+   * The direction in which fragments advance (see
+   * `WritingDirection`). Defaults to `"LTR"`.
+   */
+  public direction?: WritingDirection;
+  /**
+   * If set, fragments are snapped onto the columns and lines onto
+   * the rows of `grid` (see `Grid`).
+   */
+  public grid?: Grid;
+
+  constructor(
+    idealLeading: number,
+    enableSimplification: boolean,
+    maxWidth?: number,
+    direction?: WritingDirection,
+    grid?: Grid
+  ) {
     this.idealLeading = idealLeading;
     this.enableSimplification = enableSimplification;
+    this.maxWidth = maxWidth;
+    this.direction = direction;
+    this.grid = grid;
   }
 
   viewSettings(): SettingView[] {
@@ -516,7 +839,13 @@ export class OutlinedRocksLayoutSettings implements ViewSettings {
   }
 
   clone() {
-    return new OutlinedRocksLayoutSettings(this.idealLeading, this.enableSimplification);
+    return new OutlinedRocksLayoutSettings(
+      this.idealLeading,
+      this.enableSimplification,
+      this.maxWidth,
+      this.direction,
+      this.grid
+    );
   }
 }
 
@@ -525,16 +854,25 @@ export class OutlinedRocksLayoutSettings implements ViewSettings {
  * rectilinear polygons which outline each rock, and optionally
  * simplifies them.
  */
-export class OutlinedRocksLayout implements alt.Layout {
+export class OutlinedRocksLayout implements IncrementalLayout<DirectedLayoutResult<OutlinedRocksLayoutResult>> {
   private settings: OutlinedRocksLayoutSettings;
 
   constructor(settings: OutlinedRocksLayoutSettings) {
     this.settings = settings;
   }
 
-  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): OutlinedRocksLayoutResult {
+  layout(layoutTree: alt.LayoutTree<alt.WithMeasurements>): DirectedLayoutResult<OutlinedRocksLayoutResult> {
+    return this.relayout(layoutTree, null, 0);
+  }
+
+  relayout(
+    layoutTree: alt.LayoutTree<alt.WithMeasurements>,
+    previous: DirectedLayoutResult<OutlinedRocksLayoutResult> | null,
+    firstDirtyLine: number
+  ): DirectedLayoutResult<OutlinedRocksLayoutResult> {
     const algo = new RocksLayout(this.settings);
-    const unsimplified = algo.layout(layoutTree);
+    const directed = algo.relayout(layoutTree, previous?.logical.unsimplifiedResult ?? null, firstDirtyLine);
+    const unsimplified = directed.logical;
     const outerBBox = unsimplified.boundingBox();
     const outerOutline: Polygon = outerBBox ? [pathOfRect(outerBBox)] : [];
 
@@ -609,7 +947,7 @@ export class OutlinedRocksLayout implements alt.Layout {
         case "Atom":
         case "Spacer": return root;
         case "Wrap": {
-          let childOutline = offsetPolygon(-root.padding, outline);
+          let childOutline = offsetPolygon(scaleSides(paddingSides(root.padding), -1), outline);
 
           return {
             ...root,
@@ -621,6 +959,6 @@ export class OutlinedRocksLayout implements alt.Layout {
     }
 
     const withOutlines = go(unsimplified.layoutTree, outerOutline);
-    return new OutlinedRocksLayoutResult(withOutlines, unsimplified);
+    return new DirectedLayoutResult(new OutlinedRocksLayoutResult(withOutlines, directed), directed.direction);
   }
 }
@@ -2,7 +2,10 @@
  * The `Timetable` is a table with a column for each fragment in the
  * layout. Each row corresponds to a "time slice" in the layout.
  */
+import assert from "../assert";
 import { LayoutTree, Ann } from "../reassoc/layout-tree";
+import { paddingSides } from "../layout-tree";
+import { Sides, addSides, maxSide, uniformSides } from "../rect";
 import { Region, StackRef, regionFromStackRef } from "./region";
 
 export type WithRegions<A = {}> = {
@@ -35,9 +38,15 @@ type BaseCell = {
    */
   uid: number;
   /**
-   * The amount of _cumulative_ padding this `Cell` represents.
+   * The amount of _cumulative_ padding on each side which this
+   * `Cell` represents. This includes the margins of the `Wrap`s
+   * inside it, but not its own margin.
    */
-  padding: number;
+  padding: Sides;
+  /**
+   * The margin of the `Wrap` which this `Cell` represents.
+   */
+  margin: Sides;
 };
 
 type Cell = BaseCell | number; // A reference to a different cell in the column.
@@ -45,7 +54,7 @@ type Cell = BaseCell | number; // A reference to a different cell in the column.
 /**
  * The cell which is implicitly at the base of every column.
  */
-const BASE_CELL: Cell = { uid: 0, padding: 0 };
+const BASE_CELL: Cell = { uid: 0, padding: uniformSides(0), margin: uniformSides(0) };
 
 type Column = Cell[];
 type ColumnOrSpacer = Column | null;
@@ -70,6 +79,17 @@ function topOfColumn(column: Column, initialIndex?: number): BaseCell {
   }
 }
 
+/**
+ * Find the space which a `Cell` takes up around its fragment; its
+ * cumulative padding, plus its margin.
+ *
+ * @param cell The `Cell` whose space to find.
+ * @returns The space on each side.
+ */
+function spaceOfCell(cell: BaseCell): Sides {
+  return addSides(cell.padding, cell.margin);
+}
+
 /**
  * Fill a `Column` so that its depth is equal to `depth` by inserting
  * references to the topmost element.
@@ -87,23 +107,40 @@ function fillColumn(column: Column, depth: number) {
 /**
  * Add a `Cell` to a `Column` with the given `amount` and `uid`.
  *
- * @param amount The amount to wrap.
+ * @param padding The amount to wrap.
+ * @param margin The margin around the new `Cell`.
  * @param uid The uid of the new `Cell`.
  */
-function wrapColumn(column: Column, padding: number, uid: number) {
+function wrapColumn(column: Column, padding: Sides, margin: Sides, uid: number) {
   const top = topOfColumn(column);
   if(top.uid === uid) {
     // Then update the existing entry.
-    top.padding += padding;
+    top.padding = addSides(top.padding, padding);
+    top.margin = addSides(top.margin, margin);
   } else {
     const cell: Cell = {
-      padding: padding + top.padding,
+      padding: addSides(padding, spaceOfCell(top)),
+      margin,
       uid
     };
     column.push(cell);
   }
 }
 
+/**
+ * A subtree of a `LayoutTree` which was annotated by an earlier call
+ * to `Timetable.fromLayoutTree`, and whose columns can be taken from
+ * the `Timetable` built by that call.
+ */
+export type TimetablePrefix<A extends Ann> = {
+  layoutTree: LayoutTree<WithRegions<A>>;
+  timetable: Timetable;
+  /**
+   * The uid of the first `Wrap` after `layoutTree`.
+   */
+  nextUid: number;
+};
+
 export class Timetable {
   /**
    * A list of columns, each one a list of `Cell`s. It is assumed that
@@ -125,9 +162,14 @@ export class Timetable {
    * `Region`.
    *
    * @param layoutTree The layout tree from which to build the table.
+   * @param prefix A subtree of `layoutTree` whose leaves come before
+   * every other leaf of `layoutTree`, and whose `Wrap`s come right
+   * after the root `Wrap` of `layoutTree`. Its columns are copied
+   * from `prefix.timetable` (without the cells of the `Wrap`s around
+   * it), and it keeps its annotations.
    * @returns A pair of `Timetable` and `LayoutTreeWithRegions`.
    */
-  static fromLayoutTree<A extends Ann>(layoutTree: LayoutTree<A>): [Timetable, LayoutTree<WithRegions<A>>] {
+  static fromLayoutTree<A extends Ann>(layoutTree: LayoutTree<A>, prefix?: TimetablePrefix<A>): [Timetable, LayoutTree<WithRegions<A>>] {
 
     // Start at 1 to account for the uid of the `BASE_CELL`.
     let _nextId = 1;
@@ -136,6 +178,17 @@ export class Timetable {
     const columns: ColumnOrSpacer[] = [];
 
     const go = (root: LayoutTree<A>): [number, LayoutTree<WithRegions<A>>] => {
+      if(prefix !== undefined && root === prefix.layoutTree) {
+        const region = regionOfLayoutTree(prefix.layoutTree);
+        assert(region !== "EmptyRegion" && region.range.begin === columns.length, "The prefix must come first");
+        for(let i = region.range.begin; i < region.range.end; ++i) {
+          const col = prefix.timetable.columns[i];
+          columns.push(col === null ? null : col.slice(0, region.depth + 1));
+        }
+        _nextId = prefix.nextUid;
+        return [region.depth, prefix.layoutTree];
+      }
+
       switch(root.type) {
         case "Spacer": {
           const index = columns.length;
@@ -179,6 +232,8 @@ export class Timetable {
         }
         case "Wrap": {
           const uid = nextId();
+          const padding = paddingSides(root.padding);
+          const margin = paddingSides(root.margin ?? 0);
 
           const begin = columns.length;
           const [depth, child] = go(root.child);
@@ -192,7 +247,7 @@ export class Timetable {
 
             if(col !== null) {
               fillColumn(col, depth);
-              wrapColumn(col, root.padding, uid);
+              wrapColumn(col, padding, margin, uid);
             }
           }
 
@@ -244,39 +299,42 @@ export class Timetable {
   }
 
   /**
-   * Get the cumulative padding amount at a particular column index
-   * and depth. Throws if the given column index points to a spacer.
+   * Get the cumulative padding amount on each side at a particular
+   * column index and depth. Throws if the given column index points
+   * to a spacer.
    *
    * @param stackRef The `StackRef` to lookup.
-   * @returns The cumulative padding amount.
+   * @returns The cumulative padding amount on each side.
    */
-  getPadding(stackRef: StackRef): number {
+  getPadding(stackRef: StackRef): Sides {
     return topOfColumn(this.columns[stackRef.index]!, stackRef.depth).padding;
   }
 
   /**
-   * Get the maximum padding that can be applied to the element at the
-   * given index.
+   * Get the maximum padding (including margins) that can be applied
+   * to any side of the element at the given index.
    *
    * @param index The index of the element.
-   * @returns The maximum padding that may be applied to the element
-   * at `index`.
+   * @returns The maximum padding that may be applied to any side of
+   * the element at `index`.
    */
   getMaxPadding(index: number): number {
-    return this.getPadding({ index, depth: this.maxDepth });
+    const column = this.columns[index]!;
+    return maxSide(spaceOfCell(topOfColumn(column, this.maxDepth)));
   }
 
   /**
    * Given two indices, find the minimum amount of padding that must
    * occur around `a` and `b`, respectively, for the resulting layout
-   * to be sound.
+   * to be sound. The padding includes the margins of the outermost
+   * `Wrap`s which `a` and `b` don't share.
    *
    * @param aIdx The first index.
    * @param bIdx The second index.
    * @returns A pair, consisting of `a`'s required padding and `b`'s
-   * required padding.
+   * required padding on each side.
    */
-  spaceBetween(aIdx: number, bIdx: number): [number, number] {
+  spaceBetween(aIdx: number, bIdx: number): [Sides, Sides] {
     // Start at the maximum depth.
     let a = { index: aIdx, depth: this.maxDepth };
     let b = { index: bIdx, depth: this.maxDepth };
@@ -284,7 +342,7 @@ export class Timetable {
     // The space between a non-spacer element and a spacer is always
     // zero.
     if(this.isSpacer(a) || this.isSpacer(b)) {
-      return [0, 0];
+      return [uniformSides(0), uniformSides(0)];
     }
 
     // Traverse down the columns corresponding to `a` and `b`, finding
@@ -313,8 +371,8 @@ export class Timetable {
       --b.depth;
     }
 
-    const aAmt = this.getPadding(a);
-    const bAmt = this.getPadding(b);
+    const aAmt = spaceOfCell(topOfColumn(this.columns[a.index]!, a.depth));
+    const bAmt = spaceOfCell(topOfColumn(this.columns[b.index]!, b.depth));
     return [aAmt, bAmt];
   }
 
@@ -349,7 +407,8 @@ export class Timetable {
           if(typeof cell === "number") {
             row[colNo] = `ref(${cell})`;
           } else {
-            row[colNo] = `${cell.padding} id=${cell.uid}`;
+            const { top, right, bottom, left } = cell.padding;
+            row[colNo] = `${top}/${right}/${bottom}/${left} id=${cell.uid}`;
           }
         }
       }
@@ -3,17 +3,34 @@ import { IntervalTree } from "@sbcohen/containers";
 import {
   FragmentsInfo,
   FragmentInfo,
-  Layout,
+  HitTest,
   LayoutTree,
+  LineInfo,
+  LinesInfo,
+  NodeOutline,
+  NodePath,
   WithMeasurements,
   WithOutlines,
   Ann,
-  eachAtom
+  baselineRect,
+  eachAtom,
+  linesOfFragments,
+  nodeIdOf,
+  nodePaths,
+  paddingSides
 } from "../layout-tree";
+import { nodeAtPoint, outlineAtPath } from "../hit-test";
+import { Point } from "../point";
 import { Polygon, PolygonRendering } from "../polygon";
-import { Rect, clone, width, height, translate } from "../rect";
-import { Svg, Render, SVGStyle } from "../render";
+import { Rect, Sides, clone, width, height, translate } from "../rect";
+import { Render, RenderTarget, SVGStyle } from "../render";
 import { ViewSettings, SettingView } from "../settings";
+import { IncrementalLayout, cleanPrefix, nodePathsAfterPrefix } from "../incremental";
+import { softWrap, sourceLineNumbers } from "../soft-wrap";
+import { DirectedLayoutResult, WritingDirection, logicalTree } from "../writing-direction";
+import { Grid, snapToGrid, withGridCoordinates } from "../grid";
+import { alignLayoutTree } from "../vertical-align";
+import { isStrut, withMinimumSizes } from "../min-size";
 
 /**
  * A range of indices.
@@ -69,8 +86,14 @@ type WithFragmentRanges<A = {}> = {
   Node:    { fragmentRange: Range, lineRange: Range, uid: number };
 } & A;
 
+/**
+ * A horizontal space on a line. Each gadget but a `"GridFill"`
+ * (which fills the space needed to snap a fragment onto a grid, see
+ * `snapToColumns`) or a `"Margin"` (the margin outside one side of a
+ * `Node`) is the padding on one side of a `Node`.
+ */
 type HGadget = {
-  type: "BeginOfLine" | "EndOfLine" | "BeginOfNode" | "EndOfNode";
+  type: "BeginOfLine" | "EndOfLine" | "BeginOfNode" | "EndOfNode" | "GridFill" | "Margin";
   uid: number;
   width: number;
 };
@@ -115,71 +138,149 @@ type LayoutGuts<A extends Ann> = {
   lineToFragmentRange: Range[],
 };
 
+/**
+ * The part of a previous layout which `SBlocksLayout.relayout` reuses:
+ * the first children of the root `Node`, up to and including a
+ * `Newline`, along with their fragments and lines.
+ */
+type LayoutPrefix = {
+  /**
+   * The children of the root `Node`, annotated as in the previous
+   * layout.
+   */
+  children: LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands>>>[];
+  /**
+   * The fragments of the children, with their H-Gadgets (including
+   * those of the root `Node`). These are shared with the previous
+   * layout, so they must not be modified.
+   */
+  fragmentVector: FragmentVector;
+  /**
+   * The range of fragments of each line of the children.
+   */
+  lineToFragmentRange: Range[];
+  /**
+   * The number of `Node`s among the children.
+   */
+  nodes: number;
+};
+
+/**
+ * Count the children of the root `Node` of `layoutTree` which come
+ * before the line `line`.
+ *
+ * @param layoutTree The layout tree.
+ * @param line The line, which must follow a `Newline` child of the
+ * root `Node`.
+ * @returns The number of children, or `null` if `line` doesn't
+ * follow a `Newline` child of the root `Node`.
+ */
+function childrenBeforeLine<A extends Ann>(layoutTree: LayoutTree<A>, line: number): number | null {
+  if(layoutTree.type !== "Node") {
+    return null;
+  }
+
+  let newlines = 0;
+  const count = (root: LayoutTree<A>) => {
+    if(root.type === "Newline") {
+      newlines += 1;
+    } else if(root.type === "Node") {
+      root.children.forEach(count);
+    }
+  };
+
+  for(let i = 0; i < layoutTree.children.length && newlines < line; ++i) {
+    const child = layoutTree.children[i];
+    count(child);
+    if(child.type === "Newline" && newlines === line) {
+      return i + 1;
+    }
+  }
+  return null;
+}
+
 /**
  * Build a fragment vector, along with associated lookup tables needed
  * for width resolution.
  *
  * @param layoutTree The input layout tree.
+ * @param prefix If given, the children which come before those of
+ * the root of `layoutTree`.
  * @returns A `LayoutGuts` object which contains a `LayoutTree`
  * annotated with fragment and line ranges, a fragment vector which
  * has been annotated with H-Gadgets, and a mapping from line numbers
  * to fragment ranges.
  */
-function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGuts<WithMeasurements<WithFragmentRanges>> {
+function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>, prefix?: LayoutPrefix): LayoutGuts<WithMeasurements<WithFragmentRanges>> {
   /**
-   * Produce a unique ID.
+   * Produce a unique ID. The `Node`s of the prefix keep their uids,
+   * which follow the uid of the root `Node`.
    */
   const nextUid = (() => {
     let _nextUid = 0;
     return () => {
-      return _nextUid++;
+      const uid = _nextUid++;
+      return uid === 0 ? uid : uid + (prefix?.nodes ?? 0);
     };
   })();
 
   /**
    * The current line number.
    */
-  let line = 0;
+  let line = prefix?.lineToFragmentRange.length ?? 0;
 
-  const fragmentVector: FragmentVector = [];
+  const fragmentVector: FragmentVector = [...prefix?.fragmentVector ?? []];
 
   /**
    * A mapping from line number to fragment range (the range of
    * fragments on the line).
    */
-  const lineToFragmentRange: Range[] = [{ begin: 0, end: 0 }];
+  const lineToFragmentRange: Range[] = [
+    ...prefix?.lineToFragmentRange.map(range => ({ ...range })) ?? [],
+    { begin: fragmentVector.length, end: fragmentVector.length }
+  ];
 
   /**
    * Insert an H-Gadget at the beginning of the fragment at
-   * `index`. If the target fragment already has an h-gadget with the
-   * same UID, then this function is a noop.
+   * `index`, followed (further out) by a `"Margin"` H-Gadget if
+   * `margin` is nonzero. If the target fragment already has an
+   * h-gadget with the same UID, then this function is a noop.
    *
    * @param index The index of the fragment at which to insert the
    * H-Gadget.
+   * @param margin The width of the margin outside the H-Gadget.
    */
-  const insertBeginHGadget = (index: number, gadget: HGadget) => {
+  const insertBeginHGadget = (index: number, gadget: HGadget, margin: number) => {
     const fragment = fragmentVector[index];
     assert(fragment !== undefined);
 
     if(!hasHGadgetWithUID(gadget.uid, fragment.gadgetsBefore)) {
       fragment.gadgetsBefore.unshift(gadget);
+      if(margin !== 0) {
+        fragment.gadgetsBefore.unshift({ type: "Margin", uid: -1, width: margin });
+      }
     }
   };
 
   /**
-   * Insert an H-Gadget at the end of the fragment at `index`. If the
-   * target fragment already has an h-gadget with the same UID, then
-   * this function is a noop.
+   * Insert an H-Gadget at the end of the fragment at `index`,
+   * followed (further out) by a `"Margin"` H-Gadget if `margin` is
+   * nonzero. If the target fragment already has an h-gadget with the
+   * same UID, then this function is a noop.
    *
    * @param index The index of the fragment at which to insert the
    * H-Gadget.
+   * @param margin The width of the margin outside the H-Gadget.
    */
-  const insertEndHGadget = (index: number, gadget: HGadget) => {
+  const insertEndHGadget = (index: number, gadget: HGadget, margin: number) => {
     const fragment = fragmentVector[index];
     assert(fragment !== undefined);
 
     if(!hasHGadgetWithUID(gadget.uid, fragment.gadgetsAfter)) {
       fragment.gadgetsAfter.push(gadget);
+      if(margin !== 0) {
+        fragment.gadgetsAfter.push({ type: "Margin", uid: -1, width: margin });
+      }
     }
   };
 
@@ -198,7 +299,7 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
         const index = fragmentVector.length;
         fragmentVector.push({
           gadgetsBefore: [],
-          content: { type: "Atom", rect: clone(root.rect) },
+          content: { type: "Atom", rect: baselineRect(root) },
           gadgetsAfter: [],
           line,
         });
@@ -216,10 +317,16 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
       }
       case "Node": {
         const uid = nextUid();
-        const beginLine = line;
-        const beginIndex = fragmentVector.length;
+        const padding = paddingSides(root.padding);
+        const margin = paddingSides(root.margin ?? 0);
 
-        const children = root.children.map(go);
+        // The root `Node` begins with the children of the prefix,
+        // whose fragments already have their H-Gadgets.
+        const rootPrefix = root === layoutTree ? prefix : undefined;
+        const beginLine = rootPrefix !== undefined ? 0 : line;
+        const beginIndex = rootPrefix !== undefined ? 0 : fragmentVector.length;
+
+        const children = [...rootPrefix?.children ?? [], ...root.children.map(go)];
 
         const endLine = line + 1; // (exclusive)
         const endIndex = fragmentVector.length;
@@ -232,7 +339,17 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
          */
         let insertAtBeginning: HGadget | null = null;
 
-        for(let i = beginIndex; i < endIndex; ++i) {
+        // The last fragment of the prefix is the last on its line.
+        const prefixEnd = rootPrefix?.fragmentVector.length ?? beginIndex;
+        if(prefixEnd > beginIndex) {
+          insertAtBeginning = {
+            type: "BeginOfLine",
+            width: padding.left,
+            uid
+          };
+        }
+
+        for(let i = prefixEnd; i < endIndex; ++i) {
           const thisFragment = fragmentVector[i];
           const nextFragment = fragmentVector[i + 1];
 
@@ -242,7 +359,7 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
           if(insertAtBeginning !== null
             && (thisFragment.content.type === "Atom" || isLastFragmentOnLine)) {
 
-            insertBeginHGadget(i, insertAtBeginning);
+            insertBeginHGadget(i, insertAtBeginning, margin.left);
             insertAtBeginning = null;
           }
 
@@ -253,12 +370,12 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
             // spacers).
             insertEndHGadget(i, {
               type: "EndOfLine",
-              width: root.padding,
+              width: padding.right,
               uid
-            });
+            }, margin.right);
             insertAtBeginning = {
               type: "BeginOfLine",
-              width: root.padding,
+              width: padding.left,
               uid
             };
           }
@@ -268,15 +385,15 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
         if(beginIndex !== endIndex) {
           insertBeginHGadget(beginIndex, {
             type: "BeginOfNode",
-            width: root.padding,
+            width: padding.left,
             uid
-          });
+          }, margin.left);
 
           insertEndHGadget(endIndex - 1, {
             type: "EndOfNode",
-            width: root.padding,
+            width: padding.right,
             uid
-          });
+          }, margin.right);
         }
 
         return {
@@ -303,6 +420,44 @@ function buildFragmentVector(layoutTree: LayoutTree<WithMeasurements>): LayoutGu
   }
 }
 
+/**
+ * Snap each atom onto a column of the grid by inserting a
+ * `"GridFill"` H-Gadget before it. The gadget is inserted before the
+ * atom's other gadgets, so that the filled space lies between
+ * S-Blocks, and their padding is unchanged.
+ *
+ * @param layoutGuts The layout guts, which are modified.
+ * @param columnWidth The width of a column of the grid.
+ * @param firstLine The first line to snap; the lines before it are
+ * left as they are.
+ */
+function snapToColumns(layoutGuts: LayoutGuts<WithFragmentRanges>, columnWidth: number, firstLine: number = 0) {
+  for(const range of layoutGuts.lineToFragmentRange.slice(firstLine)) {
+    let x = 0;
+    for(let i = range.begin; i < range.end; ++i) {
+      const fragment = layoutGuts.fragmentVector[i];
+      for(const gadget of fragment.gadgetsBefore) {
+        x += gadget.width;
+      }
+
+      if(fragment.content.type === "Atom") {
+        const fill = snapToGrid(x, columnWidth) - x;
+        if(fill > 0) {
+          fragment.gadgetsBefore.unshift({ type: "GridFill", uid: -1, width: fill });
+          x += fill;
+        }
+        x += width(fragment.content.rect);
+      } else {
+        x += fragment.content.width;
+      }
+
+      for(const gadget of fragment.gadgetsAfter) {
+        x += gadget.width;
+      }
+    }
+  }
+}
+
 type HorzLineDrawCommand = {
   type: "HorzLine";
   /**
@@ -496,7 +651,12 @@ function extentBetweenLines(minLine: number, maxLine: number, uid: number, guts:
  * function mutates `leading`, and returns a draw command which can be
  * used to draw the corresponding horizontal segment of the S-Block.
  *
- * @param padding The amount of padding this V-Gadget needs to represent.
+ * @param padding The padding of the `Node` which this V-Gadget
+ * represents; the V-Gadget represents its top padding if it is above
+ * `line`, and its bottom padding otherwise.
+ * @param margin The margin of the `Node`. The V-Gadget reserves the
+ * margin on the same side as its padding, outside of the line it
+ * draws.
  * @param lineNo The line number above which to put this V-Gadget.
  * @param extent The horizontal extent of the V-Gadget.
  * @param side A flag specifying if the V-Gadget should be placed
@@ -506,12 +666,14 @@ function extentBetweenLines(minLine: number, maxLine: number, uid: number, guts:
  * @returns A DrawCommand that can be resolved to a line once we know
  * the absolute height of each line and leading.
  */
-function addVGadget(padding: number, lineNo: number, extent: Extent, side: "Above" | "Below", reversed: boolean, leading: Leading): DrawCommand {
+function addVGadget(padding: Sides, margin: Sides, lineNo: number, extent: Extent, side: "Above" | "Below", reversed: boolean, leading: Leading): DrawCommand {
   if(extent[0] === extent[1]) {
     return nopCommand();
   }
 
   const line = leading[lineNo];
+  const amount = side === "Above" ? padding.top : padding.bottom;
+  const reserved = amount + (side === "Above" ? margin.top : margin.bottom);
 
   // Find the maximum height of the leading at `line`.
   let offset = 0;
@@ -524,14 +686,14 @@ function addVGadget(padding: number, lineNo: number, extent: Extent, side: "Abov
   }
 
   const vGadget: VGadget = {
-    offset: offset + padding,
+    offset: offset + reserved,
   };
 
   // Update the `maximumAboveLineOffset` or `maximumBelowLineOffset`.
   if(side === "Above") {
-    line.maximumAboveLineOffset = Math.max(line.maximumAboveLineOffset, offset + padding);
+    line.maximumAboveLineOffset = Math.max(line.maximumAboveLineOffset, offset + reserved);
   } else {
-    line.maximumBelowLineOffset = Math.max(line.maximumBelowLineOffset, offset + padding);
+    line.maximumBelowLineOffset = Math.max(line.maximumBelowLineOffset, offset + reserved);
   }
 
   // Add the interval for this VGadget to the relevant interval tree.
@@ -545,7 +707,7 @@ function addVGadget(padding: number, lineNo: number, extent: Extent, side: "Abov
     side,
     extent,
     reversed,
-    offset: offset + padding
+    offset: offset + amount
   }
 }
 
@@ -559,10 +721,15 @@ type LayoutGutsWithLeading<A extends Ann> = LayoutGuts<A> & { leading: Leading }
  * absolute vertical position of the lines, which is not yet known.
  *
  * @param layoutGuts The layout guts, annotated with fragment ranges.
+ * @param prefix The first children of the root `Node`, which already
+ * have their `DrawCommands` (see `LayoutPrefix`).
  * @returns A new `LayoutGuts`, additionally annotated with
  * `DrawCommands`.
  */
-function resolveWidths<A>(layoutGuts: LayoutGuts<WithFragmentRanges<A>>): LayoutGutsWithLeading<WithFragmentRanges<WithDrawCommands<A>>> {
+function resolveWidths<A>(
+  layoutGuts: LayoutGuts<WithFragmentRanges<A>>,
+  prefix: LayoutTree<WithFragmentRanges<WithDrawCommands<A>>>[] = []
+): LayoutGutsWithLeading<WithFragmentRanges<WithDrawCommands<A>>> {
   /**
    * An array, one element per line. Each line has two interval trees;
    * a tree for the VGadgets above the line, and a tree for the
@@ -576,13 +743,49 @@ function resolveWidths<A>(layoutGuts: LayoutGuts<WithFragmentRanges<A>>): Layout
           belowLine: new IntervalTree()
         }));
 
+  /**
+   * Add the V-Gadgets of a `Node` which already has its
+   * `DrawCommand`s (and those of the `Node`s below it) to `leading`,
+   * in the same order as `go` would.
+   */
+  const replay = (root: LayoutTree<WithFragmentRanges<WithDrawCommands<A>>>) => {
+    if(root.type !== "Node") {
+      return root;
+    }
+
+    root.children.forEach(replay);
+    const margin = paddingSides(root.margin ?? 0);
+    for(const cmd of root.drawCommands) {
+      if(cmd.type !== "HorzLine") {
+        continue;
+      }
+
+      // See `addVGadget`.
+      const line = leading[cmd.lineNo];
+      if(cmd.side === "Above") {
+        const offset = cmd.offset + margin.top;
+        line.maximumAboveLineOffset = Math.max(line.maximumAboveLineOffset, offset);
+        line.aboveLine.set(cmd.extent, { offset });
+      } else {
+        const offset = cmd.offset + margin.bottom;
+        line.maximumBelowLineOffset = Math.max(line.maximumBelowLineOffset, offset);
+        line.belowLine.set(cmd.extent, { offset });
+      }
+    }
+    return root;
+  };
+
   const go = (root: LayoutTree<WithFragmentRanges<A>>): LayoutTree<WithFragmentRanges<WithDrawCommands<A>>> => {
     switch(root.type) {
       case "Newline": return root;
       case "Atom": return root;
       case "Spacer": return root;
       case "Node": {
-        const children = root.children.map(go);
+        const children = root === layoutGuts.layoutTree
+          ? root.children.map((child, i) => i < prefix.length ? replay(prefix[i]) : go(child))
+          : root.children.map(go);
+        const padding = paddingSides(root.padding);
+        const margin = paddingSides(root.margin ?? 0);
 
         if(rangeLength(root.lineRange) === 0) {
           return {
@@ -614,8 +817,8 @@ function resolveWidths<A>(layoutGuts: LayoutGuts<WithFragmentRanges<A>>): Layout
           }
 
           // Generate draw commands.
-          const topLine = addVGadget(root.padding, line, extent, "Above", true, leading);
-          const bottomLine = addVGadget(root.padding, line, extent, "Below", false, leading);
+          const topLine = addVGadget(padding, margin, line, extent, "Above", true, leading);
+          const bottomLine = addVGadget(padding, margin, line, extent, "Below", false, leading);
 
           return {
             ...root,
@@ -649,10 +852,10 @@ function resolveWidths<A>(layoutGuts: LayoutGuts<WithFragmentRanges<A>>): Layout
           //
 
           // Generate draw commands.
-          const topRight = addVGadget(root.padding, firstLine, firstLineExtent, "Above", true, leading);
-          const bottomRight = addVGadget(root.padding, firstLine, firstLineExtent, "Below", false, leading);
-          const topLeft = addVGadget(root.padding, lastLine, lastLineExtent, "Above", true, leading);
-          const bottomLeft = addVGadget(root.padding, lastLine, lastLineExtent, "Below", false, leading);
+          const topRight = addVGadget(padding, margin, firstLine, firstLineExtent, "Above", true, leading);
+          const bottomRight = addVGadget(padding, margin, firstLine, firstLineExtent, "Below", false, leading);
+          const topLeft = addVGadget(padding, margin, lastLine, lastLineExtent, "Above", true, leading);
+          const bottomLeft = addVGadget(padding, margin, lastLine, lastLineExtent, "Below", false, leading);
 
           return {
             ...root,
@@ -709,11 +912,11 @@ function resolveWidths<A>(layoutGuts: LayoutGuts<WithFragmentRanges<A>>): Layout
         const secondToLastLineExtent: Extent = [lastLineExtent[1], bounds[1]];
 
         // Generate draw commands.
-        const topRight = addVGadget(root.padding, firstLine, firstLineExtent, "Above", true, leading);
-        const topLeft = addVGadget(root.padding, secondLine, secondLineExtent, "Above", true, leading);
+        const topRight = addVGadget(padding, margin, firstLine, firstLineExtent, "Above", true, leading);
+        const topLeft = addVGadget(padding, margin, secondLine, secondLineExtent, "Above", true, leading);
 
-        const bottomLeft = addVGadget(root.padding, lastLine, lastLineExtent, "Below", false, leading);
-        const bottomRight = addVGadget(root.padding, secondToLastLine, secondToLastLineExtent, "Below", false, leading);
+        const bottomLeft = addVGadget(padding, margin, lastLine, lastLineExtent, "Below", false, leading);
+        const bottomRight = addVGadget(padding, margin, secondToLastLine, secondToLastLineExtent, "Below", false, leading);
 
         return {
           ...root,
@@ -748,30 +951,75 @@ type LineMetrics = {
    * leading).
    */
   yBottom: number;
+  /**
+   * The absolute position of the baseline of the atoms on the line,
+   * or of the top of the line if it has no atoms.
+   */
+  baseline: number;
 };
 
-function resolveHeights(layoutGuts: LayoutGutsWithLeading<WithMeasurements<WithFragmentRanges<WithDrawCommands>>>, idealLeading: number): LayoutTree<WithMeasurements<WithFragmentRanges<WithOutlines>>> {
+/**
+ * Find the height of each line, and position each fragment and
+ * outline accordingly. The layout guts are left unchanged.
+ *
+ * @returns The positioned layout tree, and the baseline of each
+ * line.
+ */
+function resolveHeights(
+  layoutGuts: LayoutGutsWithLeading<WithMeasurements<WithFragmentRanges<WithDrawCommands>>>,
+  idealLeading: number,
+  grid?: Grid
+): [LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands<WithOutlines>>>>, number[]] {
   let y = 0;
   /**
    * An array holding the `LineMetrics` of each line. There is one
    * element for every line in the layout.
    */
   const lineMetrics: LineMetrics[] = [];
+  /**
+   * The position of the atom of each fragment, by index.
+   */
+  const rects: Rect[] = [];
   for(let lineNo = 0; lineNo < layoutGuts.leading.length; ++lineNo) {
     const line = layoutGuts.leading[lineNo];
     y += line.maximumAboveLineOffset;
 
+    // The baseline of each atom is at `y = 0` in the coordinate
+    // system of its rect (see `baselineRect`), so the atoms on the
+    // line are aligned by placing their baselines at the greatest
+    // ascent of any atom on the line below its top.
+    let ascent: number | undefined = undefined;
+    for(const obj of eachObjectOnLine(lineNo, layoutGuts)) {
+      if(obj.type === "Atom") {
+        ascent = Math.max(ascent ?? -Infinity, -obj.rect.top);
+      }
+    }
+    let baseline = y + (ascent ?? 0);
+
+    // On a grid, the baseline of each line after the first is moved
+    // down onto a row, along with the rest of the line.
+    if(grid !== undefined && lineNo > 0) {
+      const snapped = snapToGrid(baseline, grid.rowHeight, lineMetrics[0].baseline);
+      y += snapped - baseline;
+      baseline = snapped;
+    }
+
     // Find the height of the line by measuring each atom on the
     // line. We can simultaneously find the x-position of each
     // rectangle on the line as well.
     let lineHeight = idealLeading;
     let x = 0;
+    let index = layoutGuts.lineToFragmentRange[lineNo].begin;
     for(const obj of eachObjectOnLine(lineNo, layoutGuts)) {
       if(obj.type === "Atom") {
-        lineHeight = Math.max(lineHeight, height(obj.rect));
-        obj.rect = translate(obj.rect, { dx: x, dy: y - obj.rect.top });
-        x += width(obj.rect);
+        const rect = translate(obj.rect, { dx: x, dy: baseline });
+        rects[index++] = rect;
+        lineHeight = Math.max(lineHeight, rect.bottom - y);
+        x += width(rect);
       } else {
+        if(obj.type === "Spacer") {
+          ++index;
+        }
         x += obj.width;
       }
     }
@@ -779,6 +1027,7 @@ function resolveHeights(layoutGuts: LayoutGutsWithLeading<WithMeasurements<WithF
     lineMetrics.push({
       yTop: y,
       yBottom: y + lineHeight,
+      baseline,
     });
     y += lineHeight + line.maximumBelowLineOffset;
   }
@@ -833,15 +1082,14 @@ function resolveHeights(layoutGuts: LayoutGutsWithLeading<WithMeasurements<WithF
   // to position each fragment and attach outlines to each `Node`.
 
   y = 0;
-  const go = (root: LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands>>>): LayoutTree<WithMeasurements<WithFragmentRanges<WithOutlines>>> => {
+  const go = (root: LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands>>>): LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands<WithOutlines>>>> => {
     switch(root.type) {
       case "Newline": return root;
       case "Atom": {
-        const frag = layoutGuts.fragmentVector[root.index].content;
-        assert(frag.type === "Atom");
+        assert(rects[root.index] !== undefined);
         return {
           ...root,
-          rect: frag.rect
+          rect: rects[root.index]
         };
       }
       case "Spacer": return root;
@@ -857,25 +1105,73 @@ function resolveHeights(layoutGuts: LayoutGutsWithLeading<WithMeasurements<WithF
     }
   }
 
-  return go(layoutGuts.layoutTree);
+  return [go(layoutGuts.layoutTree), lineMetrics.map(m => m.baseline)];
 }
 
-class SBlocksLayoutResult extends Render implements FragmentsInfo {
-  private layoutTree: LayoutTree<WithMeasurements<WithFragmentRanges<WithOutlines>>>;
-
-  constructor(layoutTree: LayoutTree<WithMeasurements<WithFragmentRanges<WithOutlines>>>) {
+class SBlocksLayoutResult extends Render implements FragmentsInfo, HitTest, LinesInfo {
+  layoutTree: LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands<WithOutlines>>>>;
+  /**
+   * The fragments of the layout, with their H-Gadgets, before they
+   * were positioned.
+   */
+  fragmentVector: FragmentVector;
+  /**
+   * The range of fragments of each line.
+   */
+  lineToFragmentRange: Range[];
+  private baselines: number[];
+  /**
+   * The path to each `Node` of the input tree, in preorder. These
+   * correspond one-to-one with the `Node`s of `layoutTree` (also in
+   * preorder), but may differ from their paths in `layoutTree` if the
+   * input was soft wrapped.
+   */
+  paths: NodePath[];
+  /**
+   * The distance by which each atom (in preorder) was moved down from
+   * the baseline of its line, to vertically align its `Node` (see
+   * `alignLayoutTree`).
+   */
+  shifts: number[];
+  /**
+   * The line of the input tree of each line (see
+   * `sourceLineNumbers`).
+   */
+  sourceLines: number[];
+  /**
+   * The grid onto which the layout was snapped, if any.
+   */
+  private grid?: Grid;
+
+  constructor(
+    layoutTree: LayoutTree<WithMeasurements<WithFragmentRanges<WithDrawCommands<WithOutlines>>>>,
+    fragmentVector: FragmentVector,
+    lineToFragmentRange: Range[],
+    baselines: number[],
+    paths: NodePath[],
+    shifts: number[],
+    sourceLines: number[],
+    grid?: Grid
+  ) {
     super();
     this.layoutTree = layoutTree;
+    this.fragmentVector = fragmentVector;
+    this.lineToFragmentRange = lineToFragmentRange;
+    this.baselines = baselines;
+    this.paths = paths;
+    this.shifts = shifts;
+    this.sourceLines = sourceLines;
+    this.grid = grid;
   }
 
-  render(svg: Svg, sty: SVGStyle): void {
-    const go = (root: LayoutTree<WithMeasurements<WithOutlines>>) => {
+  render(target: RenderTarget, sty: SVGStyle): void {
+    const go = (root: LayoutTree<WithMeasurements<WithOutlines>>, depth: number) => {
       switch(root.type) {
         case "Newline": break;
         case "Atom": {
           if(sty.debugFragmentBoundingBoxes) {
             const r = root.rect;
-            svg
+            target
               .rect(width(r), height(r))
               .fill("white")
               .stroke("black")
@@ -884,20 +1180,20 @@ class SBlocksLayoutResult extends Render implements FragmentsInfo {
         } break;
         case "Spacer": break;
         case "Node": {
-          const r = new PolygonRendering(root.outline).withStyles({
+          const r = new PolygonRendering(root.outline, nodeIdOf(root), depth + 1).withStyles({
             fill: "none",
             ...root.sty
           });
-          r.render(svg, sty);
+          r.render(target, sty);
 
           // Recurse on our children.
           for(const child of root.children) {
-            go(child);
+            go(child, depth + 1);
           }
         } break;
       }
     };
-    go(this.layoutTree);
+    go(this.layoutTree, 0);
   }
 
   boundingBox(): Rect | null {
@@ -911,22 +1207,79 @@ class SBlocksLayoutResult extends Render implements FragmentsInfo {
 
   fragmentsInfo(): FragmentInfo[] {
     let out: FragmentInfo[] = [];
+    let atomIndex = 0;
     for(const atom of eachAtom(this.layoutTree)) {
-      out.push({
+      const shift = this.shifts[atomIndex++];
+      if(isStrut(atom)) {
+        continue;
+      }
+
+      const info: FragmentInfo = {
         rect: atom.rect,
         lineNo: atom.line,
-        text: atom.text
-      });
+        sourceLineNo: this.sourceLines[atom.line],
+        text: atom.text,
+        baseline: this.baselines[atom.line] + shift
+      };
+      out.push(this.grid !== undefined ? withGridCoordinates(info, this.grid, this.baselines[0]) : info);
     }
     return out;
   }
+
+  linesInfo(): LineInfo[] {
+    return linesOfFragments(this.fragmentsInfo(), this.baselines, this.sourceLines);
+  }
+
+  nodeOutlines(): NodeOutline[] {
+    let out: NodeOutline[] = [];
+    let nodeIndex = 0;
+    const go = (root: LayoutTree<WithOutlines>) => {
+      if(root.type !== "Node") {
+        return;
+      }
+
+      const path = this.paths[nodeIndex++];
+      if(root.outline.length > 0) {
+        out.push({ path, outline: root.outline, id: nodeIdOf(root) });
+      }
+      root.children.forEach(go);
+    };
+    go(this.layoutTree);
+    return out;
+  }
+
+  nodeAt(p: Point): NodePath | null {
+    return nodeAtPoint(this.nodeOutlines(), p);
+  }
+
+  outlineOf(path: NodePath): Polygon | null {
+    return outlineAtPath(this.nodeOutlines(), path);
+  }
 }
 
 export class SBlocksLayoutSettings implements ViewSettings {
   public idealLeading: number;
+  /**
+   * If set, lines which are wider than `maxWidth` are broken (see
+   * `softWrap`).
+   */
+  public maxWidth?: number;
+  /**
+   * The direction in which fragments advance (see
+   * `WritingDirection`). Defaults to `"LTR"`.
+   */
+  public direction?: WritingDirection;
+  /**
+   * If set, fragments are snapped onto the columns and lines onto
+   * the rows of `grid` (see `Grid`).
+   */
+  public grid?: Grid;
 
-  constructor(idealLeading: number) {
+  constructor(idealLeading: number, maxWidth?: number, direction?: WritingDirection, grid?: Grid) {
     this.idealLeading = idealLeading;
+    this.maxWidth = maxWidth;
+    this.direction = direction;
+    this.grid = grid;
   }
 
   viewSettings(): SettingView[] {
@@ -934,21 +1287,87 @@ export class SBlocksLayoutSettings implements ViewSettings {
   }
 
   clone() {
-    return new SBlocksLayoutSettings(this.idealLeading);
+    return new SBlocksLayoutSettings(this.idealLeading, this.maxWidth, this.direction, this.grid);
   }
 }
 
-export default class SBlocksLayout implements Layout {
+export default class SBlocksLayout implements IncrementalLayout<DirectedLayoutResult<SBlocksLayoutResult>> {
   private settings: SBlocksLayoutSettings;
 
   constructor(settings: SBlocksLayoutSettings) {
     this.settings = settings;
   }
 
-  layout(layoutTree: LayoutTree<WithMeasurements>): SBlocksLayoutResult {
-    const guts = buildFragmentVector(layoutTree);
-    const gutsWLeading = resolveWidths(guts);
-    const withOutlines = resolveHeights(gutsWLeading, this.settings.idealLeading);
-    return new SBlocksLayoutResult(withOutlines);
+  layout(layoutTree: LayoutTree<WithMeasurements>): DirectedLayoutResult<SBlocksLayoutResult> {
+    return this.relayout(layoutTree, null, 0);
+  }
+
+  relayout(
+    layoutTree: LayoutTree<WithMeasurements>,
+    previous: DirectedLayoutResult<SBlocksLayoutResult> | null,
+    firstDirtyLine: number
+  ): DirectedLayoutResult<SBlocksLayoutResult> {
+    const direction = this.settings.direction ?? "LTR";
+
+    // The lines of the clean prefix of `layoutTree` (see
+    // `cleanPrefix`) are taken from the `previous` layout: the
+    // annotated children of the root `Node`, their fragments and
+    // their `DrawCommand`s. Only the rest of the root `Node` is laid
+    // out.
+    //
+    // Note: The heights are always resolved again, since the outline
+    // of the root `Node` spans every line: a wider line further down
+    // can push the first lines down.
+    const prev = previous?.logical ?? null;
+    const prefix = prev !== null ? cleanPrefix(layoutTree, firstDirtyLine) : null;
+    const prefixLines = prefix !== null ? prev!.sourceLines.indexOf(prefix.lines) : 0;
+    assert(prefixLines >= 0, "The previous layout doesn't have the lines of the prefix");
+    let layoutPrefix: LayoutPrefix | undefined = undefined;
+    if(prefix !== null) {
+      // Note: Soft wrapping and minimum sizes add children to the
+      // root `Node`, so its children in the previous layout don't
+      // match those of `layoutTree`.
+      const children = childrenBeforeLine(prev!.layoutTree, prefixLines);
+      assert(prev!.layoutTree.type === "Node" && children !== null, "The previous layout doesn't have the lines of the prefix");
+      const lineToFragmentRange = prev!.lineToFragmentRange.slice(0, prefixLines);
+      layoutPrefix = {
+        children: prev!.layoutTree.children.slice(0, children),
+        fragmentVector: prev!.fragmentVector.slice(0, lineToFragmentRange[prefixLines - 1].end),
+        lineToFragmentRange,
+        nodes: prefix.nodes
+      };
+    }
+    const tree = prefix?.rest ?? layoutTree;
+
+    const wrapped = this.settings.maxWidth !== undefined
+      ? softWrap(tree, this.settings.maxWidth, layoutTree)
+      : tree;
+    const grid = this.settings.grid;
+    // Note: The padding of S-Blocks is above and below each line, not
+    // around each fragment, so it doesn't take part in alignment.
+    const [aligned, shifts] = alignLayoutTree(withMinimumSizes(logicalTree(wrapped, direction)), false);
+    const guts = buildFragmentVector(aligned, layoutPrefix);
+    if(grid !== undefined) {
+      snapToColumns(guts, grid.columnWidth, prefixLines);
+    }
+    const gutsWLeading = resolveWidths(guts, layoutPrefix?.children);
+    const [withOutlines, baselines] = resolveHeights(gutsWLeading, this.settings.idealLeading, grid);
+
+    const prefixAtoms = layoutPrefix?.fragmentVector.filter(frag => frag.content.type === "Atom").length ?? 0;
+    const sourceLines = [
+      ...prev?.sourceLines.slice(0, prefixLines) ?? [],
+      ...sourceLineNumbers(wrapped).map(lineNo => lineNo + (prefix?.lines ?? 0))
+    ];
+    const result = new SBlocksLayoutResult(
+      withOutlines,
+      guts.fragmentVector,
+      guts.lineToFragmentRange,
+      baselines,
+      prefix !== null ? nodePathsAfterPrefix(prev!.paths, prefix) : nodePaths(layoutTree),
+      [...prev?.shifts.slice(0, prefixAtoms) ?? [], ...shifts],
+      sourceLines,
+      grid
+    );
+    return new DirectedLayoutResult(result, direction);
   }
 }
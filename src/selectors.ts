@@ -0,0 +1,324 @@
+/**
+ * This module implements style sheets: rules which choose, by the
+ * position of each syntax node in a syntax tree, whether it becomes a
+ * `Node` (see `fromTreeSitter`), and which style and padding the
+ * `Node` gets. A style sheet is a sequence of rules, each a list of
+ * selectors followed by a block of attributes, as in CSS:
+ *
+ *     call_expression > arguments { padding: 2; fill: #eef; }
+ *     string, comment { collapse: true; }
+ *     "(", ")" { wrap: false; }
+ *     block :nth-child(odd) { border: 1 black left; }
+ *     *:depth(1) { fill: white; }
+ *
+ * A selector is a sequence of compound selectors separated by
+ * combinators. `a > b` matches a `b` whose parent is an `a`, and
+ * `a b` matches a `b` with an `a` among its ancestors. A compound
+ * selector is a type of syntax node (a name, a quoted string for
+ * anonymous nodes such as `"("`, or `*` for any type), followed by
+ * any number of pseudo-classes:
+ *
+ * - `:nth-child(An+B)` The node is the (An+B)th child of its parent,
+ *   counting from 1, for some n >= 0 (`odd` and `even` are also
+ *   understood). Every child counts, named or not.
+ * - `:first-child` and `:last-child`.
+ * - `:depth(An+B)` The node is at depth An+B; the root is at depth 0.
+ *
+ * The attributes of a block are the style attributes of `Style`, as
+ * well as `wrap: <bool>;` and `collapse: <bool>;` (see `SyntaxRule`).
+ * When several rules match a syntax node, their attributes are merged
+ * (with `mergeStyles`) in order of the specificity of their selectors
+ * (pseudo-classes count more than types), then of their order in the
+ * sheet, so that later and more specific rules take precedence.
+ */
+
+import { Scanner, Style, mergeStyles, parseStyleBlock } from "./style";
+import { SyntaxNode, SyntaxRule } from "./tree-sitter";
+
+/**
+ * A syntax node, along with its position in its syntax tree.
+ */
+export type SyntaxContext = {
+  node: SyntaxNode;
+  parent: SyntaxContext | null;
+  /**
+   * The index of `node` in the children of its parent (or 0 if `node`
+   * is the root).
+   */
+  index: number;
+  depth: number;
+};
+
+/**
+ * The integers `a * n + b`, for every `n >= 0`.
+ */
+type Series = { a: number, b: number };
+
+type PseudoClass =
+  | { type: "nth-child", series: Series }
+  | { type: "first-child" }
+  | { type: "last-child" }
+  | { type: "depth", series: Series };
+
+type CompoundSelector = {
+  /**
+   * The type of syntax node, or `null` for any type.
+   */
+  nodeType: string | null;
+  pseudoClasses: PseudoClass[];
+};
+
+type Selector = {
+  /**
+   * The compound selectors, from left to right.
+   */
+  compounds: CompoundSelector[];
+  /**
+   * The combinator between each pair of adjacent compound selectors.
+   */
+  combinators: (">" | " ")[];
+};
+
+type Rule = {
+  selectors: Selector[];
+  style: Style;
+  wrap?: boolean;
+  collapse?: boolean;
+};
+
+function inSeries(k: number, { a, b }: Series): boolean {
+  if(a === 0) {
+    return k === b;
+  }
+  const n = (k - b) / a;
+  return Number.isInteger(n) && n >= 0;
+}
+
+function matchesCompound(compound: CompoundSelector, ctx: SyntaxContext): boolean {
+  if(compound.nodeType !== null && compound.nodeType !== ctx.node.type) {
+    return false;
+  }
+
+  return compound.pseudoClasses.every(pseudo => {
+    switch(pseudo.type) {
+      case "nth-child": return ctx.parent !== null && inSeries(ctx.index + 1, pseudo.series);
+      case "first-child": return ctx.parent !== null && ctx.index === 0;
+      case "last-child": return ctx.parent !== null && ctx.index === ctx.parent.node.children.length - 1;
+      case "depth": return inSeries(ctx.depth, pseudo.series);
+    }
+  });
+}
+
+/**
+ * Check whether the compound selectors of `selector` up to (and
+ * including) the one at `i` match `ctx`.
+ */
+function matchesSelector(selector: Selector, i: number, ctx: SyntaxContext): boolean {
+  if(!matchesCompound(selector.compounds[i], ctx)) {
+    return false;
+  } else if(i === 0) {
+    return true;
+  }
+
+  if(selector.combinators[i - 1] === ">") {
+    return ctx.parent !== null && matchesSelector(selector, i - 1, ctx.parent);
+  }
+
+  for(let ancestor = ctx.parent; ancestor !== null; ancestor = ancestor.parent) {
+    if(matchesSelector(selector, i - 1, ancestor)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the specificity of a selector: the number of its
+ * pseudo-classes, then of its types.
+ */
+function specificity(selector: Selector): [number, number] {
+  let pseudoClasses = 0, types = 0;
+  for(const compound of selector.compounds) {
+    pseudoClasses += compound.pseudoClasses.length;
+    types += compound.nodeType !== null ? 1 : 0;
+  }
+  return [pseudoClasses, types];
+}
+
+function compareSpecificity(a: [number, number], b: [number, number]): number {
+  return a[0] !== b[0] ? a[0] - b[0] : a[1] - b[1];
+}
+
+function parseSeries(scanner: Scanner): Series {
+  scanner.expect("(");
+  scanner.skipWhitespace();
+
+  let series: Series;
+  if(scanner.accept("odd")) {
+    series = { a: 2, b: 1 };
+  } else if(scanner.accept("even")) {
+    series = { a: 2, b: 0 };
+  } else {
+    const coefficient = scanner.tryRegexp(/[+-]?\d*n/y);
+    if(coefficient === null) {
+      series = { a: 0, b: parseInt(scanner.regexp(/[+-]?\d+/y, "an integer")) };
+    } else {
+      const digits = coefficient.slice(0, -1);
+      const a = digits === "" || digits === "+" ? 1 : digits === "-" ? -1 : parseInt(digits);
+      scanner.skipWhitespace();
+      const sign = scanner.tryRegexp(/[+-]/y);
+      scanner.skipWhitespace();
+      const b = sign === null ? 0 : parseInt(sign + scanner.regexp(/\d+/y, "an integer"));
+      series = { a, b };
+    }
+  }
+
+  scanner.skipWhitespace();
+  scanner.expect(")");
+  return series;
+}
+
+function parsePseudoClass(scanner: Scanner): PseudoClass {
+  const at = scanner.index;
+  const name = scanner.name();
+  switch(name) {
+    case "nth-child": return { type: "nth-child", series: parseSeries(scanner) };
+    case "first-child": return { type: "first-child" };
+    case "last-child": return { type: "last-child" };
+    case "depth": return { type: "depth", series: parseSeries(scanner) };
+    default: scanner.fail(`Unknown pseudo-class ":${name}"`, at);
+  }
+}
+
+function parseCompoundSelector(scanner: Scanner): CompoundSelector {
+  let nodeType: string | null = null;
+  if(scanner.peek("\"")) {
+    const quoted = scanner.regexp(/"(\\.|[^"\\])*"/y, "a quoted type");
+    nodeType = quoted.slice(1, -1).replace(/\\(.)/g, "$1");
+  } else if(!scanner.accept("*") && !scanner.peek(":")) {
+    nodeType = scanner.name();
+  }
+
+  let pseudoClasses: PseudoClass[] = [];
+  while(scanner.accept(":")) {
+    pseudoClasses.push(parsePseudoClass(scanner));
+  }
+  return { nodeType, pseudoClasses };
+}
+
+function parseSelector(scanner: Scanner): Selector {
+  let compounds = [parseCompoundSelector(scanner)];
+  let combinators: (">" | " ")[] = [];
+  for(;;) {
+    const skipped = scanner.skipWhitespace();
+    if(scanner.accept(">")) {
+      scanner.skipWhitespace();
+      combinators.push(">");
+    } else if(skipped && !scanner.peek(",") && !scanner.peek("{")) {
+      combinators.push(" ");
+    } else {
+      return { compounds, combinators };
+    }
+    compounds.push(parseCompoundSelector(scanner));
+  }
+}
+
+function parseBoolean(scanner: Scanner): boolean {
+  const value = scanner.regexp(/true|false/y, "true or false");
+  scanner.skipWhitespace();
+  scanner.expect(";");
+  return value === "true";
+}
+
+function parseRule(scanner: Scanner): Rule {
+  let selectors = [parseSelector(scanner)];
+  while(scanner.accept(",")) {
+    scanner.skipWhitespace();
+    selectors.push(parseSelector(scanner));
+  }
+
+  let rule: Omit<Rule, "style"> = { selectors };
+  const style = parseStyleBlock(scanner, key => {
+    switch(key) {
+      case "wrap": rule.wrap = parseBoolean(scanner); return true;
+      case "collapse": rule.collapse = parseBoolean(scanner); return true;
+      default: return false;
+    }
+  });
+  return { ...rule, style };
+}
+
+export class StyleSheet {
+  private rules: Rule[];
+
+  private constructor(rules: Rule[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Parse a style sheet (see this module's description).
+   *
+   * @param text The text of the style sheet.
+   * @returns The parsed style sheet.
+   * @throws `ParseError` if `text` isn't a valid style sheet.
+   */
+  static parse(text: string): StyleSheet {
+    const scanner = new Scanner(text);
+    let rules: Rule[] = [];
+    scanner.skipWhitespace();
+    while(!scanner.atEnd()) {
+      rules.push(parseRule(scanner));
+      scanner.skipWhitespace();
+    }
+    return new StyleSheet(rules);
+  }
+
+  /**
+   * Find the rule for a syntax node by merging the attributes of each
+   * of the sheet's rules which match it.
+   *
+   * @param ctx The syntax node, and its position in its tree.
+   * @returns The rule for the syntax node. Its properties are only
+   * set if a matching rule gives them.
+   */
+  ruleFor(ctx: SyntaxContext): SyntaxRule {
+    let matches: [[number, number], number][] = [];
+    this.rules.forEach((rule, order) => {
+      let best: [number, number] | null = null;
+      for(const selector of rule.selectors) {
+        if(matchesSelector(selector, selector.compounds.length - 1, ctx)) {
+          const s = specificity(selector);
+          if(best === null || compareSpecificity(s, best) > 0) {
+            best = s;
+          }
+        }
+      }
+      if(best !== null) {
+        matches.push([best, order]);
+      }
+    });
+    matches.sort(([sa, oa], [sb, ob]) => compareSpecificity(sa, sb) || oa - ob);
+
+    let style: Style = {};
+    let out: SyntaxRule = {};
+    for(const [_, order] of matches) {
+      const rule = this.rules[order];
+      mergeStyles(style, rule.style);
+      if(rule.wrap !== undefined) {
+        out.wrap = rule.wrap;
+      }
+      if(rule.collapse !== undefined) {
+        out.collapse = rule.collapse;
+      }
+    }
+
+    const { padding, ...sty } = style;
+    if(padding !== undefined) {
+      out.padding = padding;
+    }
+    if(Object.keys(sty).length > 0) {
+      out.sty = sty;
+    }
+    return out;
+  }
+}
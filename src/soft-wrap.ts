@@ -0,0 +1,289 @@
+/**
+ * This module implements soft line wrapping: a layout tree whose
+ * lines are too wide is rewritten by inserting line breaks (and
+ * indentation) between the children of its `Node`s. Every layout
+ * algorithm applies `softWrap` to its input when its settings have a
+ * `maxWidth`. The inserted line breaks are marked (see
+ * `isSoftNewline`), so that each line of the layout can be related
+ * back to a line of the input tree (see `sourceLineNumbers`).
+ */
+
+import { Ann, LayoutTree, Newline, Node, WithMeasurements, paddingSides } from "./layout-tree";
+import { width } from "./rect";
+
+type SoftNewline = { soft: true };
+
+/**
+ * Check whether a `Newline` was inserted by `softWrap`, rather than
+ * being a line break of the input tree. The layout algorithms copy
+ * the annotations of each `Newline`, so this function checks for the
+ * mark at runtime.
+ *
+ * @param newline The `Newline` to check.
+ * @returns `true` if `newline` was inserted by `softWrap`.
+ */
+export function isSoftNewline(newline: object): boolean {
+  return (newline as Partial<SoftNewline>).soft === true;
+}
+
+/**
+ * Find the line of the input tree of each line of a tree produced by
+ * `softWrap`. The continuation lines of a line which was broken share
+ * its line number.
+ *
+ * @param tree The wrapped tree (or any other tree, whose lines are
+ * numbered consecutively).
+ * @returns The line number in the input tree of each line of `tree`.
+ * There is one element for every line.
+ */
+export function sourceLineNumbers<A extends Ann>(tree: LayoutTree<A>): number[] {
+  let out: number[] = [0];
+  const go = (root: LayoutTree<A>) => {
+    switch(root.type) {
+      case "Newline": {
+        const last = out[out.length - 1];
+        out.push(isSoftNewline(root) ? last : last + 1);
+      } break;
+      case "Atom":
+      case "Spacer": break;
+      case "Node": root.children.forEach(go); break;
+    }
+  };
+
+  go(tree);
+  return out;
+}
+
+/**
+ * A point between two children of a `Node` at which a line may be
+ * broken.
+ */
+type BreakCandidate = {
+  node: Node<WithMeasurements>;
+  /**
+   * The break goes before the child at this index.
+   */
+  index: number;
+  /**
+   * The nesting depth of `node`; the outermost `Node` has depth 0.
+   */
+  depth: number;
+};
+
+/**
+ * The tokens of a line. The width of a line is the sum of the widths
+ * of its `"Piece"`s (atoms and spacers), the left padding and margin
+ * of each `"Open"` and the right padding and margin of each
+ * `"Close"` of a `Node`.
+ */
+type Token =
+    { type: "Open", left: number }
+  | { type: "Close", left: number, right: number }
+  | { type: "Piece", width: number }
+  | { type: "Candidate", candidate: BreakCandidate };
+
+/**
+ * Estimate the width of one character of text from the first atom or
+ * spacer in `tree` which has any text.
+ */
+function characterWidth(tree: LayoutTree<WithMeasurements>): number | null {
+  switch(tree.type) {
+    case "Newline": return null;
+    case "Atom": return tree.text.length > 0 ? width(tree.rect) / tree.text.length : null;
+    case "Spacer": return tree.text.length > 0 ? tree.width / tree.text.length : null;
+    case "Node": {
+      for(const child of tree.children) {
+        const w = characterWidth(child);
+        if(w !== null) {
+          return w;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Choose the line breaks of one line.
+ *
+ * When the line becomes wider than `maxWidth`, it is broken at the
+ * candidate belonging to the outermost `Node`, choosing the last such
+ * candidate on the line. As in a Wadler-style pretty printer, this
+ * keeps inner `Node`s on a single line whenever possible.
+ *
+ * @param tokens The tokens of the line.
+ * @param maxWidth The maximum width of the line.
+ * @param indent The width of the indentation of continuation lines.
+ * @param breaks The chosen breaks are added to this map, from each
+ * `Node` to the indices of the children before which it is broken
+ * (and the indentation of the line following each break).
+ */
+function breakLine(
+  tokens: Token[],
+  maxWidth: number,
+  indent: number,
+  breaks: Map<Node<WithMeasurements>, Map<number, number>>
+) {
+  // The width of the current visual line at position `x` is
+  // `base + x - start`.
+  let x = 0;
+  let base = 0;
+  let start = 0;
+  let open = 0;
+  let pieces = 0;
+  let candidates: { candidate: BreakCandidate, x: number, open: number, pieces: number }[] = [];
+
+  for(const token of tokens) {
+    switch(token.type) {
+      case "Open": {
+        x += token.left;
+        open += token.left;
+      } break;
+      case "Close": {
+        x += token.right;
+        open -= token.left;
+      } break;
+      case "Candidate": {
+        candidates.push({ candidate: token.candidate, x, open, pieces });
+      } break;
+      case "Piece": {
+        x += token.width;
+        pieces += 1;
+        while(base + x - start > maxWidth && candidates.length > 0) {
+          let best = 0;
+          for(let i = 1; i < candidates.length; ++i) {
+            if(candidates[i].candidate.depth <= candidates[best].candidate.depth) {
+              best = i;
+            }
+          }
+
+          const chosen = candidates[best];
+          if(!breaks.has(chosen.candidate.node)) {
+            breaks.set(chosen.candidate.node, new Map());
+          }
+          breaks.get(chosen.candidate.node)!.set(chosen.candidate.index, indent);
+
+          // The continuation line starts with the left padding and
+          // margin of each `Node` which is still open, followed by
+          // the indentation. Breaking at a later candidate which
+          // isn't separated from this one by any pieces would leave
+          // an empty line.
+          base = chosen.open + indent;
+          start = chosen.x;
+          candidates = candidates.slice(best + 1).filter(c => c.pieces > chosen.pieces);
+        }
+      } break;
+    }
+  }
+}
+
+/**
+ * Break the lines of `tree` which are wider than `maxWidth`. Lines
+ * are only broken between two children of a `Node` (and never
+ * directly before a `Spacer`), and each continuation line is indented
+ * by the indentation of the line it continues, plus two characters.
+ *
+ * Line widths are estimated by adding the widths of atoms and
+ * spacers to the padding of each `Node` (each line starts with the
+ * left padding of the `Node`s which are open at its start), so a
+ * layout algorithm may still produce lines which are slightly wider
+ * than `maxWidth`. Lines which can't be broken are left as they are.
+ * Since each line is broken on its own, wrapping the root `Node` with
+ * only some of its lines wraps those lines as `tree` would.
+ *
+ * The result has the same `Node`s as `tree`, in the same (pre)order,
+ * but since `Newline`s and `Spacer`s are inserted among their
+ * children, the `NodePath`s of the two trees may differ. The inserted
+ * `Newline`s are marked (see `isSoftNewline`).
+ *
+ * @param tree The tree to wrap.
+ * @param maxWidth The maximum width of a line.
+ * @param reference The tree from whose text the width of a character
+ * (and so the indentation of continuation lines) is estimated.
+ * Defaults to `tree`.
+ * @returns The wrapped tree.
+ */
+export function softWrap(
+  tree: LayoutTree<WithMeasurements>,
+  maxWidth: number,
+  reference: LayoutTree<WithMeasurements> = tree
+): LayoutTree<WithMeasurements> {
+  const continuation = 2 * (characterWidth(reference) ?? 0);
+
+  // First, find where to break each line.
+  const breaks: Map<Node<WithMeasurements>, Map<number, number>> = new Map();
+  let tokens: Token[] = [];
+  let leadingIndent = 0;
+  let seenAtom = false;
+  // The left padding and margin of the `Node`s which are open.
+  let openLeft = 0;
+
+  const finishLine = () => {
+    breakLine(tokens, maxWidth, leadingIndent + continuation, breaks);
+    tokens = openLeft > 0 ? [{ type: "Open", left: openLeft }] : [];
+    leadingIndent = 0;
+    seenAtom = false;
+  };
+
+  const go = (root: LayoutTree<WithMeasurements>, depth: number) => {
+    switch(root.type) {
+      case "Newline": finishLine(); break;
+      case "Atom": {
+        tokens.push({ type: "Piece", width: width(root.rect) });
+        seenAtom = true;
+      } break;
+      case "Spacer": {
+        tokens.push({ type: "Piece", width: root.width });
+        if(!seenAtom) {
+          leadingIndent += root.width;
+        }
+      } break;
+      case "Node": {
+        const padding = paddingSides(root.padding);
+        const margin = paddingSides(root.margin ?? 0);
+        const left = padding.left + margin.left;
+        const right = padding.right + margin.right;
+        tokens.push({ type: "Open", left });
+        openLeft += left;
+        root.children.forEach((child, index) => {
+          const prev = root.children[index - 1];
+          if(seenAtom && prev !== undefined && prev.type !== "Newline" && child.type !== "Spacer" && child.type !== "Newline") {
+            tokens.push({ type: "Candidate", candidate: { node: root, index, depth } });
+          }
+          go(child, depth + 1);
+        });
+        openLeft -= left;
+        tokens.push({ type: "Close", left, right });
+      } break;
+    }
+  };
+
+  go(tree, 0);
+  finishLine();
+
+  if(breaks.size === 0) {
+    return tree;
+  }
+
+  // Then, rebuild the tree with the breaks.
+  const rebuild = (root: LayoutTree<WithMeasurements>): LayoutTree<WithMeasurements> => {
+    if(root.type !== "Node") {
+      return root;
+    }
+
+    const indents = breaks.get(root);
+    let children: LayoutTree<WithMeasurements>[] = [];
+    root.children.forEach((child, index) => {
+      const indent = indents?.get(index);
+      if(indent !== undefined) {
+        const newline: Newline<WithMeasurements> & SoftNewline = { type: "Newline", soft: true };
+        children.push(newline, { type: "Spacer", width: indent, text: "" });
+      }
+      children.push(rebuild(child));
+    });
+
+    return { ...root, children };
+  };
+
+  return rebuild(tree);
+}
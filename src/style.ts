@@ -0,0 +1,378 @@
+/**
+ * This module implements the textual style attributes shared by the
+ * library's text formats (see `StyleSheet` and `parseMarkup`), along
+ * with a small `Scanner` on which their parsers are built. A block of
+ * style attributes looks like:
+ *
+ *     { padding: 2; fill: #fee; stroke: black; border: 1 4 red top; }
+ *
+ * - `padding: <number>;` The padding of the `Node`.
+ * - `fill: <color>;` and `stroke: <color>;` The fill and stroke of the
+ *   `Node`'s style, where a color is a hex color (`#fee`), `rgba(r g b
+ *   a)`, or a name (`black`).
+ * - `border: <width> [<radius> [<offset>]] [<color>] [<side>...];` A
+ *   border of the `Node`. If any sides (`top`, `bottom`, `left` or
+ *   `right`) are given, the border is only drawn on those sides. A
+ *   block may contain several borders.
+ */
+
+import assert from "./assert";
+import { BorderStyle, DEFAULT_BORDER_STYLE, SVGStyle } from "./render";
+
+/**
+ * A style, along with the padding of the `Node` to which it applies.
+ */
+export type Style = Partial<SVGStyle> & { padding?: number };
+
+/**
+ * Merge two sets of `Style`s, effectively taking the union of their
+ * properties. If the same property exists in both `dst` and `src`,
+ * then the property's value from `src` is preferred. The important
+ * consideration here is what to do about border styles. As opposed to
+ * other properties, multiple border declarations should be _combined_
+ * in `dst`, not overwritten.
+ *
+ * @param dst The destination `Styles`.
+ * @param src The source `Styles`.
+ */
+export function mergeStyles(dst: Style, src: Style) {
+  const dstBorders = dst.borders ? [...dst.borders] : [];
+  Object.assign(dst, src);
+  if(src.borders) {
+    dst.borders = [...src.borders, ...dstBorders];
+  }
+}
+
+/**
+ * An error in the text given to one of the library's parsers. The
+ * `line` and `column` (both counted from 1) locate the error.
+ */
+export class ParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${line}:${column}: ${message}`);
+    this.name = "ParseError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * A cursor into a text being parsed. The methods which read tokens
+ * don't skip the whitespace after them, so that parsers can choose
+ * where whitespace is significant (see `skipWhitespace`).
+ */
+export class Scanner {
+  readonly text: string;
+  index: number = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  atEnd(): boolean {
+    return this.index >= this.text.length;
+  }
+
+  /**
+   * Skip whitespace and comments (`/* ... *\/`).
+   *
+   * @returns `true` if anything was skipped.
+   */
+  skipWhitespace(): boolean {
+    const start = this.index;
+    for(;;) {
+      const ws = this.tryRegexp(/\s+/y);
+      if(this.text.startsWith("/*", this.index)) {
+        const end = this.text.indexOf("*/", this.index + 2);
+        if(end === -1) {
+          this.fail("Unterminated comment");
+        }
+        this.index = end + 2;
+      } else if(ws === null) {
+        break;
+      }
+    }
+    return this.index > start;
+  }
+
+  /**
+   * Check whether the text at the cursor begins with `s`.
+   */
+  peek(s: string): boolean {
+    return this.text.startsWith(s, this.index);
+  }
+
+  /**
+   * Read `s`, if the text at the cursor begins with it.
+   *
+   * @returns `true` if `s` was read.
+   */
+  accept(s: string): boolean {
+    if(this.peek(s)) {
+      this.index += s.length;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Read `s`, failing if the text at the cursor doesn't begin with it.
+   */
+  expect(s: string) {
+    if(!this.accept(s)) {
+      this.fail(`Expected "${s}"`);
+    }
+  }
+
+  /**
+   * Read the match of the sticky regular expression `re`, if there is
+   * one at the cursor.
+   *
+   * @returns The matched text, or `null`.
+   */
+  tryRegexp(re: RegExp): string | null {
+    re.lastIndex = this.index;
+    const m = re.exec(this.text);
+    if(m === null) {
+      return null;
+    }
+    this.index += m[0].length;
+    return m[0];
+  }
+
+  /**
+   * Read the match of the sticky regular expression `re`, failing if
+   * there isn't one at the cursor.
+   *
+   * @param re The expression to match.
+   * @param what A description of the expected token, for the error.
+   * @returns The matched text.
+   */
+  regexp(re: RegExp, what: string): string {
+    const s = this.tryRegexp(re);
+    if(s === null) {
+      this.fail(`Expected ${what}`);
+    }
+    return s;
+  }
+
+  name(): string {
+    return this.regexp(/[a-zA-Z_][a-zA-Z0-9_-]*/y, "a name");
+  }
+
+  number(): number {
+    return parseFloat(this.regexp(/-?(\d+(\.\d*)?|\.\d+)/y, "a number"));
+  }
+
+  /**
+   * Find the line and column (both counted from 1) of an index into
+   * the text.
+   */
+  position(index: number): { line: number, column: number } {
+    const before = this.text.slice(0, index).split("\n");
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  }
+
+  /**
+   * Throw a `ParseError` at `index` (by default, the cursor).
+   */
+  fail(message: string, index: number = this.index): never {
+    const { line, column } = this.position(index);
+    throw new ParseError(message, line, column);
+  }
+}
+
+const SIDES: { [side: string]: keyof BorderStyle } = {
+  top: "borderTop",
+  bottom: "borderBottom",
+  left: "borderLeft",
+  right: "borderRight",
+};
+
+function parseColor(scanner: Scanner): string {
+  if(scanner.accept("rgba(")) {
+    let components: number[] = [];
+    for(let i = 0; i < 4; ++i) {
+      scanner.skipWhitespace();
+      components.push(scanner.number());
+      scanner.skipWhitespace();
+      scanner.accept(",");
+    }
+    scanner.skipWhitespace();
+    scanner.expect(")");
+    return `rgba(${components.join(",")})`;
+  }
+
+  const hex = scanner.tryRegexp(/#[\da-f]+/iy);
+  return hex ?? scanner.regexp(/[a-zA-Z][a-zA-Z0-9-_]*/y, "a color");
+}
+
+function parseBorder(scanner: Scanner): Partial<BorderStyle> {
+  let ns: number[] = [scanner.number()];
+  scanner.skipWhitespace();
+  while(ns.length < 3 && scanner.tryRegexp(/(?=[-.\d])/y) !== null) {
+    ns.push(scanner.number());
+    scanner.skipWhitespace();
+  }
+
+  // One number is the border's width, two are its width and radius,
+  // and three are its width, radius and offset.
+  let sty: Partial<BorderStyle> = { borderWidth: ns[0] };
+  if(ns.length > 1) {
+    sty.borderRadius = ns[1];
+  }
+  if(ns.length > 2) {
+    sty.borderOffset = ns[2];
+  }
+
+  const start = scanner.index;
+  if(!scanner.peek(";")) {
+    const color = parseColor(scanner);
+    if(Object.hasOwn(SIDES, color)) {
+      scanner.index = start;
+    } else {
+      sty.borderStroke = color;
+      scanner.skipWhitespace();
+    }
+  }
+
+  // If no sides are given, the border is drawn on every side.
+  // Otherwise, the other sides are explicitly turned off.
+  let sides: Partial<BorderStyle> = {};
+  while(!scanner.peek(";")) {
+    const at = scanner.index;
+    const side = scanner.name();
+    if(!Object.hasOwn(SIDES, side)) {
+      scanner.fail(`Unknown side "${side}"`, at);
+    }
+    Object.assign(sides, { [SIDES[side]]: true });
+    scanner.skipWhitespace();
+  }
+  if(Object.keys(sides).length > 0) {
+    for(const side of Object.values(SIDES)) {
+      Object.assign(sty, { [side]: sides[side] ?? false });
+    }
+  }
+
+  return sty;
+}
+
+/**
+ * Parse the value of a style attribute, and the `;` after it. The
+ * attribute's name and the `:` have already been read.
+ *
+ * @param scanner The scanner, at the beginning of the value.
+ * @param key The name of the attribute.
+ * @param keyIndex The index of the attribute's name, for errors.
+ * @returns A style with the attribute.
+ */
+export function parseStyleAttribute(scanner: Scanner, key: string, keyIndex: number): Style {
+  let sty: Style;
+  switch(key) {
+    case "padding": sty = { padding: scanner.number() }; break;
+    case "fill": sty = { fill: parseColor(scanner) }; break;
+    case "stroke": sty = { stroke: parseColor(scanner) }; break;
+    case "border": sty = { borders: [parseBorder(scanner)] }; break;
+    default: scanner.fail(`Unknown style attribute "${key}"`, keyIndex);
+  }
+
+  scanner.skipWhitespace();
+  scanner.expect(";");
+  return sty;
+}
+
+/**
+ * Parse a block of style attributes (see this module's description),
+ * along with any other attributes which `other` understands.
+ *
+ * @param scanner The scanner, at the `{` which begins the block.
+ * @param other Parses the value of an attribute which isn't a style
+ * attribute (and the `;` after it), returning `false` if it doesn't
+ * understand the attribute either.
+ * @returns The merged style of the block's attributes.
+ */
+export function parseStyleBlock(
+  scanner: Scanner,
+  other: (key: string, keyIndex: number) => boolean = () => false
+): Style {
+  let sty: Style = {};
+  scanner.expect("{");
+  scanner.skipWhitespace();
+  while(!scanner.accept("}")) {
+    if(scanner.atEnd()) {
+      scanner.fail(`Expected "}"`);
+    }
+
+    const keyIndex = scanner.index;
+    const key = scanner.name();
+    scanner.skipWhitespace();
+    scanner.expect(":");
+    scanner.skipWhitespace();
+    if(!other(key, keyIndex)) {
+      mergeStyles(sty, parseStyleAttribute(scanner, key, keyIndex));
+    }
+    scanner.skipWhitespace();
+  }
+  return sty;
+}
+
+function printBorder(border: Partial<BorderStyle>): string {
+  assert(border.borderDasharray === undefined, "Dashed borders can't be printed");
+
+  let parts = [border.borderWidth ?? DEFAULT_BORDER_STYLE.borderWidth];
+  if(border.borderOffset !== undefined) {
+    parts.push(border.borderRadius ?? DEFAULT_BORDER_STYLE.borderRadius, border.borderOffset);
+  } else if(border.borderRadius !== undefined) {
+    parts.push(border.borderRadius);
+  }
+
+  let out = parts.join(" ");
+  if(border.borderStroke !== undefined) {
+    out += " " + border.borderStroke;
+  }
+
+  const sides = Object.keys(SIDES).filter(side => border[SIDES[side]] !== undefined);
+  if(sides.length > 0) {
+    const drawn = sides.filter(side => border[SIDES[side]] === true);
+    assert(drawn.length > 0, "Borders without sides can't be printed");
+    if(drawn.length < 4) {
+      out += " " + drawn.join(" ");
+    }
+  }
+  return out;
+}
+
+/**
+ * Print a block of style attributes, which `parseStyleBlock` parses
+ * into `sty`.
+ *
+ * @param sty The style to print. Only the properties which have style
+ * attributes (and colors rather than gradients or patterns) can be
+ * printed.
+ * @param indent The indentation of each attribute.
+ * @returns The block, from `{` to `}`.
+ */
+export function printStyleBlock(sty: Style, indent: string = "  "): string {
+  let lines: string[] = [];
+  for(const key of Object.keys(sty) as (keyof Style)[]) {
+    switch(key) {
+      case "padding":
+      case "stroke": lines.push(`${key}: ${sty[key]};`); break;
+      case "fill": {
+        assert(typeof sty.fill === "string", "Only solid fills can be printed");
+        lines.push(`fill: ${sty.fill};`);
+      } break;
+      case "borders": {
+        // `parseStyleBlock` puts later borders first.
+        for(const border of [...sty.borders!].reverse()) {
+          lines.push(`border: ${printBorder(border)};`);
+        }
+      } break;
+      default: assert(false, `The style property "${key}" can't be printed`);
+    }
+  }
+  return ["{", ...lines.map(line => indent + line), "}"].join("\n");
+}
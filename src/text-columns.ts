@@ -0,0 +1,130 @@
+/**
+ * This module counts the columns which text occupies in a monospace
+ * (terminal-like) rendering: most characters occupy one column, East
+ * Asian wide and fullwidth characters occupy two, combining marks and
+ * other zero-width characters occupy none, and a tab advances to the
+ * next tab stop. `measureLayoutTree` uses these columns to find the
+ * width of each `Spacer`.
+ */
+
+/**
+ * The default distance between tab stops, in columns.
+ */
+export const DEFAULT_TAB_WIDTH = 8;
+
+/**
+ * Inclusive ranges of code points which occupy no columns.
+ */
+const ZERO_WIDTH: [number, number][] = [
+  [0x0300, 0x036f], // Combining diacritical marks
+  [0x0483, 0x0489],
+  [0x0591, 0x05bd],
+  [0x0610, 0x061a],
+  [0x064b, 0x065f],
+  [0x1ab0, 0x1aff],
+  [0x1dc0, 0x1dff],
+  [0x200b, 0x200f], // Zero-width space, joiners and direction marks
+  [0x202a, 0x202e],
+  [0x2060, 0x2064],
+  [0x20d0, 0x20ff],
+  [0xfe00, 0xfe0f], // Variation selectors
+  [0xfe20, 0xfe2f],
+  [0xfeff, 0xfeff], // Zero-width no-break space
+  [0xe0100, 0xe01ef],
+];
+
+/**
+ * Inclusive ranges of code points which occupy two columns (East
+ * Asian wide and fullwidth characters, and emoji).
+ */
+const WIDE: [number, number][] = [
+  [0x1100, 0x115f], // Hangul Jamo
+  [0x2e80, 0x303e], // CJK radicals, punctuation
+  [0x3041, 0x33ff], // Kana, CJK compatibility
+  [0x3400, 0x4dbf], // CJK extension A
+  [0x4e00, 0x9fff], // CJK unified ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe30, 0xfe4f], // CJK compatibility forms
+  [0xff00, 0xff60], // Fullwidth forms
+  [0xffe0, 0xffe6],
+  [0x1f300, 0x1f64f], // Emoji
+  [0x1f900, 0x1f9ff],
+  [0x20000, 0x2fffd], // CJK extensions
+  [0x30000, 0x3fffd],
+];
+
+function inRanges(codePoint: number, ranges: [number, number][]): boolean {
+  return ranges.some(([lo, hi]) => lo <= codePoint && codePoint <= hi);
+}
+
+/**
+ * Find the number of columns which a character occupies. Tabs are
+ * handled by `advanceColumn`, since their width depends on where
+ * they are.
+ *
+ * @param codePoint The code point of the character.
+ * @returns 0, 1 or 2.
+ */
+export function charColumns(codePoint: number): number {
+  if(codePoint < 0x20 || (codePoint >= 0x7f && codePoint < 0xa0)) {
+    return 0;
+  } else if(codePoint < 0x300) {
+    return 1;
+  } else if(inRanges(codePoint, ZERO_WIDTH)) {
+    return 0;
+  } else if(inRanges(codePoint, WIDE)) {
+    return 2;
+  }
+  return 1;
+}
+
+/**
+ * Find the column after `text`, if it begins at `column`. A newline
+ * in `text` returns to column 0.
+ *
+ * @param text The text to advance over.
+ * @param column The column at which `text` begins.
+ * @param tabWidth The distance between tab stops.
+ * @returns The column after the last character of `text`.
+ */
+export function advanceColumn(text: string, column: number, tabWidth: number = DEFAULT_TAB_WIDTH): number {
+  for(const ch of text) {
+    if(ch === "\n") {
+      column = 0;
+    } else if(ch === "\t") {
+      column = (Math.floor(column / tabWidth) + 1) * tabWidth;
+    } else {
+      column += charColumns(ch.codePointAt(0)!);
+    }
+  }
+  return column;
+}
+
+/**
+ * Rewrite the text of a `Spacer` which begins at `column`, so that
+ * each character is replaced by as many spaces as the columns it
+ * occupies. The width of the result can then be measured like that
+ * of any other text.
+ *
+ * @param text The text of the `Spacer`.
+ * @param column The column at which the `Spacer` begins.
+ * @param tabWidth The distance between tab stops.
+ * @returns The text with tabs expanded, zero-width characters
+ * removed, and wide characters replaced by two spaces.
+ */
+export function expandSpacerText(text: string, column: number, tabWidth: number = DEFAULT_TAB_WIDTH): string {
+  let out = "";
+  for(const ch of text) {
+    if(ch === "\t" || ch === "\n" || charColumns(ch.codePointAt(0)!) !== 1) {
+      const next = advanceColumn(ch, column, tabWidth);
+      out += " ".repeat(Math.max(next - column, 0));
+      column = next;
+    } else {
+      out += ch;
+      column += 1;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,466 @@
+/**
+ * This module computes transitions between two layouts of related
+ * trees: each `Node`'s outline is morphed into its new outline, and
+ * each fragment is moved to its new position. A `Transition` can be
+ * sampled at any point in time with `transitionAt` (e.g. to drive a
+ * canvas animation), or rendered as an animated SVG with
+ * `TransitionRendering`.
+ */
+
+import {
+  Ann,
+  FragmentsInfo,
+  HitTest,
+  LayoutTree,
+  NodeOutline,
+  NodePath,
+  subtreeAtPath
+} from "./layout-tree";
+import { Point } from "./point";
+import { Path, Polygon, boundingBoxOfPath, isPathCCW } from "./polygon";
+import { Rect, union } from "./rect";
+import { PathCommand, Render, RenderTarget, SVGStyle, TextStyle, svgPathData } from "./render";
+import { pathsEqual } from "./hit-test";
+
+/**
+ * One end of a transition: a layout result, and the tree from which
+ * it was laid out. The tree supplies the style of each `Node`.
+ */
+export type TransitionEnd<A extends Ann = Ann> = {
+  result: Render & FragmentsInfo & HitTest;
+  tree: LayoutTree<A>;
+};
+
+/**
+ * The transition of a single `Node`'s outline. `from` and `to` have
+ * the same number of `Path`s, and corresponding `Path`s have the same
+ * number of vertices, so that the outline at any point in time can be
+ * found by interpolating between corresponding vertices.
+ */
+export type OutlineTransition = {
+  id?: string;
+  /**
+   * The path to the `Node` in the tree at the start of the
+   * transition, or `null` if the `Node` is new.
+   */
+  fromPath: NodePath | null;
+  /**
+   * The path to the `Node` in the tree at the end of the transition,
+   * or `null` if the `Node` was removed.
+   */
+  toPath: NodePath | null;
+  from: Polygon;
+  to: Polygon;
+  sty: Partial<SVGStyle>;
+};
+
+/**
+ * The transition of a single fragment. A fragment which only exists
+ * at one end of the transition has a `null` rectangle at the other
+ * end.
+ */
+export type FragmentTransition = {
+  text: string;
+  from: Rect | null;
+  to: Rect | null;
+};
+
+export type Transition = {
+  outlines: OutlineTransition[];
+  fragments: FragmentTransition[];
+  boundingBox: Rect | null;
+};
+
+/**
+ * The state of a transition at some point in time. Elements which
+ * appear or disappear during the transition fade in or out, so
+ * each element has an opacity.
+ */
+export type Keyframe = {
+  outlines: {
+    id?: string;
+    outline: Polygon;
+    opacity: number;
+    sty: Partial<SVGStyle>;
+  }[];
+  fragments: {
+    text: string;
+    rect: Rect;
+    opacity: number;
+  }[];
+};
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+  return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) };
+}
+
+function lerpRect(a: Rect, b: Rect, t: number): Rect {
+  return {
+    left: lerp(a.left, b.left, t),
+    top: lerp(a.top, b.top, t),
+    right: lerp(a.right, b.right, t),
+    bottom: lerp(a.bottom, b.bottom, t),
+  };
+}
+
+/**
+ * Put a `Path` into a canonical form: wound clockwise, and starting
+ * at its top-most (then left-most) vertex.
+ */
+function canonicalPath(path: Path): Path {
+  const out = isPathCCW(path) ? [...path].reverse() : [...path];
+
+  let start = 0;
+  for(let i = 1; i < out.length; ++i) {
+    if(out[i].y < out[start].y || (out[i].y === out[start].y && out[i].x < out[start].x)) {
+      start = i;
+    }
+  }
+
+  return [...out.slice(start), ...out.slice(0, start)];
+}
+
+/**
+ * Find the distance along the perimeter of a closed `Path` at which
+ * each vertex lies, as a fraction of the perimeter. If the `Path` has
+ * no length, the vertices are spaced evenly.
+ */
+function perimeterFractions(path: Path): number[] {
+  let lengths: number[] = [0];
+  for(let i = 1; i < path.length; ++i) {
+    const a = path[i - 1];
+    const b = path[i];
+    lengths.push(lengths[i - 1] + Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  const last = path[path.length - 1];
+  const perimeter = lengths[lengths.length - 1] + Math.hypot(path[0].x - last.x, path[0].y - last.y);
+
+  if(perimeter === 0) {
+    return path.map((_, i) => i / path.length);
+  }
+  return lengths.map(l => l / perimeter);
+}
+
+/**
+ * Find the point which lies at fraction `t` of the way around a
+ * closed `Path`.
+ *
+ * @param path The `Path`.
+ * @param fractions The `perimeterFractions` of `path`.
+ * @param t The fraction of the perimeter, in `[0, 1)`.
+ */
+function pointAtFraction(path: Path, fractions: number[], t: number): Point {
+  let i = 0;
+  while(i + 1 < fractions.length && fractions[i + 1] <= t) {
+    ++i;
+  }
+
+  const a = path[i];
+  const b = path[(i + 1) % path.length];
+  const end = i + 1 < fractions.length ? fractions[i + 1] : 1;
+  const span = end - fractions[i];
+  return span <= 0 ? a : lerpPoint(a, b, (t - fractions[i]) / span);
+}
+
+/**
+ * Find a correspondence between the vertices of two closed `Path`s
+ * which may have different numbers of vertices. Both `Path`s are
+ * resampled at the union of the positions (as fractions of their
+ * perimeters) of their vertices, so every corner of either `Path` is
+ * preserved, and each corner travels to the point at the same
+ * relative position around the other `Path`.
+ *
+ * @param a The first `Path`.
+ * @param b The second `Path`.
+ * @returns `Path`s which trace the same shapes as `a` and `b`, and
+ * which have the same number of vertices.
+ */
+export function correspondPaths(a: Path, b: Path): [Path, Path] {
+  const ca = canonicalPath(a);
+  const cb = canonicalPath(b);
+  const fa = perimeterFractions(ca);
+  const fb = perimeterFractions(cb);
+
+  const EPSILON = 1e-9;
+  const fractions = [...fa, ...fb].sort((x, y) => x - y);
+  const unique = fractions.filter((f, i) => i === 0 || f - fractions[i - 1] > EPSILON);
+
+  return [
+    unique.map(t => pointAtFraction(ca, fa, t)),
+    unique.map(t => pointAtFraction(cb, fb, t)),
+  ];
+}
+
+/**
+ * Find a correspondence between the `Path`s of two `Polygon`s (see
+ * `correspondPaths`). `Path`s are paired in order; a `Path` without
+ * a partner grows out of (or shrinks into) the center of its bounding
+ * box.
+ *
+ * @param a The first `Polygon`.
+ * @param b The second `Polygon`.
+ * @returns `Polygon`s with the same number of `Path`s, whose
+ * corresponding `Path`s have the same number of vertices.
+ */
+export function correspondPolygons(a: Polygon, b: Polygon): [Polygon, Polygon] {
+  const pa = a.filter(path => path.length > 2);
+  const pb = b.filter(path => path.length > 2);
+
+  const collapse = (path: Path): Path => {
+    const bbox = boundingBoxOfPath(path)!;
+    const center = { x: (bbox.left + bbox.right) / 2, y: (bbox.top + bbox.bottom) / 2 };
+    return path.map(_ => center);
+  };
+
+  let outA: Polygon = [];
+  let outB: Polygon = [];
+  for(let i = 0; i < Math.max(pa.length, pb.length); ++i) {
+    const [x, y] = correspondPaths(pa[i] ?? collapse(pb[i]), pb[i] ?? collapse(pa[i]));
+    outA.push(x);
+    outB.push(y);
+  }
+  return [outA, outB];
+}
+
+/**
+ * Pair up the `Node` outlines of two layouts. `Node`s with an `id`
+ * are paired with the `Node` with the same `id`, and `Node`s without
+ * one are paired with the `Node` (also without an `id`) at the same
+ * path.
+ */
+function pairOutlines(from: NodeOutline[], to: NodeOutline[]): [NodeOutline | null, NodeOutline | null][] {
+  const sameNode = (a: NodeOutline, b: NodeOutline) => a.id !== undefined || b.id !== undefined
+    ? a.id === b.id
+    : pathsEqual(a.path, b.path);
+
+  let pairs: [NodeOutline | null, NodeOutline | null][] = [];
+  let matched: Set<NodeOutline> = new Set();
+
+  // Removed `Node`s are drawn first, so that they fade out beneath
+  // the `Node`s which remain.
+  for(const a of from) {
+    if(!to.some(b => sameNode(a, b))) {
+      pairs.push([a, null]);
+    }
+  }
+
+  for(const b of to) {
+    const a = from.find(a => !matched.has(a) && sameNode(a, b)) ?? null;
+    if(a !== null) {
+      matched.add(a);
+    }
+    pairs.push([a, b]);
+  }
+
+  return pairs;
+}
+
+/**
+ * Pair up the fragments of two layouts by finding the longest common
+ * subsequence of their texts.
+ */
+function pairFragments(from: string[], to: string[]): [number | null, number | null][] {
+  // lcs[i][j] is the length of the longest common subsequence of
+  // from[i..] and to[j..].
+  let lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+  for(let i = from.length - 1; i >= 0; --i) {
+    for(let j = to.length - 1; j >= 0; --j) {
+      lcs[i][j] = from[i] === to[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let pairs: [number | null, number | null][] = [];
+  let i = 0;
+  let j = 0;
+  while(i < from.length || j < to.length) {
+    if(i < from.length && j < to.length && from[i] === to[j]) {
+      pairs.push([i++, j++]);
+    } else if(j >= to.length || (i < from.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      pairs.push([i++, null]);
+    } else {
+      pairs.push([null, j++]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Compute the transition between two layouts of related trees.
+ * `Node`s are identified across the two trees by their `id`s (or,
+ * for `Node`s without `id`s, by their paths), and fragments by their
+ * text.
+ *
+ * @param from The layout at the start of the transition.
+ * @param to The layout at the end of the transition.
+ * @returns The transition.
+ */
+export function transition<A extends Ann, B extends Ann>(from: TransitionEnd<A>, to: TransitionEnd<B>): Transition {
+  const styOf = (end: TransitionEnd<A> | TransitionEnd<B>, path: NodePath): Partial<SVGStyle> => {
+    const subtree = subtreeAtPath<Ann>(end.tree, path);
+    return subtree?.type === "Node" ? subtree.sty ?? {} : {};
+  };
+
+  const outlines = pairOutlines(from.result.nodeOutlines(), to.result.nodeOutlines()).map(([a, b]) => {
+    const [polyA, polyB] = correspondPolygons(a?.outline ?? b!.outline, b?.outline ?? a!.outline);
+    return {
+      id: b?.id ?? a?.id,
+      fromPath: a?.path ?? null,
+      toPath: b?.path ?? null,
+      from: polyA,
+      to: polyB,
+      sty: b !== null ? styOf(to, b.path) : styOf(from, a!.path),
+    };
+  });
+
+  const fromFragments = from.result.fragmentsInfo();
+  const toFragments = to.result.fragmentsInfo();
+  const fragments = pairFragments(fromFragments.map(f => f.text), toFragments.map(f => f.text)).map(([i, j]) => ({
+    text: j !== null ? toFragments[j].text : fromFragments[i!].text,
+    from: i !== null ? fromFragments[i].rect : null,
+    to: j !== null ? toFragments[j].rect : null,
+  }));
+
+  const bboxA = from.result.boundingBox();
+  const bboxB = to.result.boundingBox();
+  const boundingBox = bboxA === null ? bboxB : bboxB === null ? bboxA : union(bboxA, bboxB);
+
+  return { outlines, fragments, boundingBox };
+}
+
+/**
+ * Find the state of a transition at time `t`.
+ *
+ * @param tr The transition.
+ * @param t The time, from 0 (the start of the transition) to 1 (the
+ * end of the transition).
+ * @returns The state of the transition at time `t`.
+ */
+export function transitionAt(tr: Transition, t: number): Keyframe {
+  const opacity = (from: unknown, to: unknown) => from === null ? t : to === null ? 1 - t : 1;
+
+  return {
+    outlines: tr.outlines.map(o => ({
+      id: o.id,
+      outline: o.from.map((path, i) => path.map((p, j) => lerpPoint(p, o.to[i][j], t))),
+      opacity: opacity(o.fromPath, o.toPath),
+      sty: o.sty,
+    })),
+    fragments: tr.fragments.map(f => ({
+      text: f.text,
+      rect: lerpRect(f.from ?? f.to!, f.to ?? f.from!, t),
+      opacity: opacity(f.from, f.to),
+    })),
+  };
+}
+
+/**
+ * Convert a `Path` to a list of `PathCommand`s. Unlike the outlines
+ * drawn by `PolygonRendering`, corners are not rounded, since the
+ * rounded corners of the two ends of a transition can't be
+ * interpolated between.
+ */
+function commandsOfPath(path: Path): PathCommand[] {
+  return [
+    ...path.map((p, i): PathCommand => ({ type: i === 0 ? "MoveTo" : "LineTo", x: p.x, y: p.y })),
+    { type: "Close" },
+  ];
+}
+
+/**
+ * Renders a `Transition` as an animation. The `Svg` target animates
+ * the transition with SMIL; other targets draw its first frame.
+ *
+ * Fragments are drawn as text, with their top edges at the top of
+ * their fragments' rectangles.
+ */
+export class TransitionRendering extends Render {
+  private tr: Transition;
+  private duration: number;
+  private textStyle: Partial<Pick<TextStyle, "fontFamily" | "fontSize">>;
+
+  /**
+   * @param tr The transition to render.
+   * @param duration The duration of the transition, in seconds.
+   * @param textStyle The font of the fragments' text.
+   */
+  constructor(tr: Transition, duration: number, textStyle?: Partial<Pick<TextStyle, "fontFamily" | "fontSize">>) {
+    super();
+    this.tr = tr;
+    this.duration = duration;
+    this.textStyle = textStyle ?? {};
+  }
+
+  render(target: RenderTarget, sty: SVGStyle) {
+    const duration = this.duration;
+    const fade = (from: unknown, to: unknown) => from === null
+      ? [{ attributeName: "opacity", from: "0", to: "1", duration }]
+      : to === null
+      ? [{ attributeName: "opacity", from: "1", to: "0", duration }]
+      : [];
+
+    for(const o of this.tr.outlines) {
+      const nodeSty = { ...sty, fill: "none", ...o.sty };
+      const animations = fade(o.fromPath, o.toPath);
+
+      o.from.forEach((fromPath, i) => {
+        const fromCommands = commandsOfPath(fromPath);
+        const d = {
+          attributeName: "d",
+          from: svgPathData(fromCommands),
+          to: svgPathData(commandsOfPath(o.to[i])),
+          duration,
+        };
+
+        const fill = target
+          .path(fromCommands)
+          .fill(nodeSty.fill)
+          .fillOpacity(nodeSty.fillOpacity)
+          .nodeId(o.id)
+          .classNames(nodeSty.classNames)
+          .attributes(nodeSty.attributes)
+          .animate(d);
+        animations.forEach(a => fill.animate(a));
+
+        for(const border of nodeSty.borders) {
+          const stroke = target
+            .path(fromCommands)
+            .stroke(border.borderStroke)
+            .strokeWidth(border.borderWidth)
+            .strokeDasharray(border.borderDasharray)
+            .fill("none")
+            .nodeId(o.id)
+            .classNames(nodeSty.classNames)
+            .attributes(nodeSty.attributes)
+            .animate(d);
+          animations.forEach(a => stroke.animate(a));
+        }
+      });
+    }
+
+    const { fontFamily, fontSize } = this.textStyle;
+    for(const f of this.tr.fragments) {
+      const from = f.from ?? f.to!;
+      const to = f.to ?? f.from!;
+      const text = target
+        .text(f.text)
+        .move(from.left, from.top)
+        .dominantBaseline("text-before-edge")
+        .animate({ attributeName: "x", from: String(from.left), to: String(to.left), duration })
+        .animate({ attributeName: "y", from: String(from.top), to: String(to.top), duration });
+      if(fontFamily !== undefined && fontSize !== undefined) {
+        text.font(fontFamily, fontSize);
+      }
+      fade(f.from, f.to).forEach(a => text.animate(a));
+    }
+  }
+
+  boundingBox(): Rect | null {
+    return this.tr.boundingBox;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * This module builds a `LayoutTree` from a syntax tree produced by
+ * tree-sitter. The tree is taken already parsed, so that the library
+ * doesn't depend on tree-sitter (or on any of its language bindings):
+ * the parser's `Tree` (from the `tree-sitter` or `web-tree-sitter`
+ * packages) is used through the minimal `SyntaxTree` interface.
+ *
+ * Each syntax node with children becomes a `Node`, and each leaf
+ * becomes an `Atom`. The whitespace between leaves is copied from the
+ * source into `Newline`s and `Spacer`s, so that the text of the
+ * layout tree is the text of the source (except for whitespace at
+ * the ends of lines). A `LanguageRules` chooses which types of syntax
+ * nodes become `Node`s, which are collapsed into their text, and the
+ * padding and style (or style class) of each `Node`.
+ */
+
+import assert from "./assert";
+import { LayoutTree, Node, Padding, WithStyleRefs } from "./layout-tree";
+import { SVGStyle } from "./render";
+import { StyleSheet, SyntaxContext } from "./selectors";
+
+/**
+ * The parts of a tree-sitter syntax node which are used to build a
+ * `LayoutTree`.
+ */
+export interface SyntaxNode {
+  type: string;
+  text: string;
+  children: SyntaxNode[];
+  /**
+   * The index of the node's first character in the source. If it's
+   * missing, the node is found by searching the source for its
+   * `text`.
+   */
+  startIndex?: number;
+}
+
+/**
+ * The parts of a tree-sitter syntax tree which are used to build a
+ * `LayoutTree`.
+ */
+export interface SyntaxTree {
+  rootNode: SyntaxNode;
+}
+
+/**
+ * How the syntax nodes of one type are turned into a `LayoutTree`.
+ */
+export type SyntaxRule = {
+  /**
+   * Whether the syntax node becomes a `Node`. If `false`, the layout
+   * trees of its children are put directly into its parent. Defaults
+   * to `true` for syntax nodes with children, and `false` for
+   * leaves.
+   */
+  wrap?: boolean;
+  /**
+   * If `true`, the syntax node's text becomes a sequence of atoms (one
+   * per line), in place of the layout trees of its children. This is
+   * useful for syntax nodes, such as strings and comments, whose
+   * structure isn't interesting.
+   */
+  collapse?: boolean;
+  /**
+   * The padding of the `Node`. Defaults to `DEFAULT_NODE_PADDING`.
+   */
+  padding?: Padding;
+  /**
+   * The `styleRef` of the `Node`, which names its style class.
+   */
+  styleRef?: string;
+  /**
+   * The style of the `Node`.
+   */
+  sty?: Partial<SVGStyle>;
+};
+
+/**
+ * The rules with which the syntax trees of a language are turned into
+ * `LayoutTree`s.
+ */
+export type LanguageRules = {
+  /**
+   * The rule for each type of syntax node, by name (as in tree-sitter's
+   * `node.type`).
+   */
+  types?: { [type: string]: SyntaxRule };
+  /**
+   * The rule for the types of syntax nodes which aren't in `types`.
+   * The properties which a rule in `types` omits are also taken from
+   * this rule.
+   */
+  default?: SyntaxRule;
+  /**
+   * A style sheet whose rules depend on the position of each syntax
+   * node in its tree. The properties which it gives a syntax node
+   * take precedence over those of `types` and `default`.
+   */
+  sheet?: StyleSheet;
+};
+
+/**
+ * The padding of a `Node` whose rule doesn't give its padding.
+ */
+export const DEFAULT_NODE_PADDING = 4;
+
+/**
+ * Push the layout trees of a run of whitespace onto `out`. The
+ * whitespace at the end of each line is dropped, and the whitespace
+ * at the beginning of the last line becomes a `Spacer`.
+ */
+function pushWhitespace(ws: string, out: LayoutTree<WithStyleRefs>[]) {
+  const lines = ws.split("\n");
+  for(let i = 1; i < lines.length; ++i) {
+    out.push({ type: "Newline" });
+  }
+
+  const last = lines[lines.length - 1];
+  if(last.length > 0) {
+    out.push({ type: "Spacer", text: last });
+  }
+}
+
+/**
+ * Push the layout trees of the text of a leaf (or collapsed syntax
+ * node) onto `out`. Each line of `text` becomes an `Atom`, and the
+ * indentation of each line after the first becomes a `Spacer`.
+ */
+function pushText(text: string, out: LayoutTree<WithStyleRefs>[]) {
+  text.split("\n").forEach((line, i) => {
+    line = line.replace(/\r$/, "");
+    if(i > 0) {
+      out.push({ type: "Newline" });
+      const indent = line.length - line.trimStart().length;
+      if(indent > 0) {
+        out.push({ type: "Spacer", text: line.slice(0, indent) });
+      }
+      line = line.slice(indent);
+    }
+
+    if(line.length > 0) {
+      out.push({ type: "Atom", text: line });
+    }
+  });
+}
+
+/**
+ * Build a `LayoutTree` from a tree-sitter syntax tree.
+ *
+ * @param tree The syntax tree, parsed from `source`.
+ * @param source The source text which was parsed.
+ * @param rules The rules of the source's language.
+ * @returns A `LayoutTree` whose root is a `Node` for the root of
+ * `tree`. If the root's rule doesn't `wrap` it, the `Node` has no
+ * padding.
+ */
+export function fromTreeSitter(tree: SyntaxTree, source: string, rules: LanguageRules = {}): LayoutTree<WithStyleRefs> {
+  /**
+   * The index in `source` up to which the layout tree is built.
+   */
+  let offset = 0;
+
+  const ruleOf = (ctx: SyntaxContext): SyntaxRule => ({
+    ...rules.default,
+    ...rules.types?.[ctx.node.type],
+    ...rules.sheet?.ruleFor(ctx)
+  });
+
+  /**
+   * Find `syntaxNode` in `source`, and push the whitespace before it
+   * onto `out`.
+   */
+  const pushWhitespaceBefore = (syntaxNode: SyntaxNode, out: LayoutTree<WithStyleRefs>[]) => {
+    const start = syntaxNode.startIndex ?? source.indexOf(syntaxNode.text, offset);
+    assert(start >= offset, `The text "${syntaxNode.text}" of a syntax node isn't in the source after the previous node`);
+
+    const ws = source.slice(offset, start);
+    assert(ws.trim() === "", `The source text "${ws}" before a syntax node isn't whitespace`);
+
+    pushWhitespace(ws, out);
+    offset = start;
+  };
+
+  const go = (ctx: SyntaxContext, out: LayoutTree<WithStyleRefs>[]) => {
+    const syntaxNode = ctx.node;
+    const isRoot = ctx.parent === null;
+    const rule = ruleOf(ctx);
+    const isLeaf = syntaxNode.children.length === 0 || rule.collapse === true;
+    const wrap = isRoot || (rule.wrap ?? (syntaxNode.children.length > 0));
+
+    let children = out;
+    if(wrap) {
+      children = [];
+    }
+
+    // The whitespace before a `Node` is put outside of it, except
+    // before the root, which has no outside.
+    pushWhitespaceBefore(syntaxNode, isRoot ? children : out);
+
+    if(isLeaf) {
+      pushText(syntaxNode.text, children);
+      offset += syntaxNode.text.length;
+    } else {
+      syntaxNode.children.forEach((child, index) => {
+        go({ node: child, parent: ctx, index, depth: ctx.depth + 1 }, children);
+      });
+    }
+
+    if(wrap) {
+      const padding = isRoot && rule.wrap === false ? 0 : rule.padding ?? DEFAULT_NODE_PADDING;
+      const node: Node<WithStyleRefs> = { type: "Node", padding, children };
+      if(rule.styleRef !== undefined) {
+        node.styleRef = rule.styleRef;
+      }
+      if(rule.sty !== undefined) {
+        node.sty = rule.sty;
+      }
+      out.push(node);
+    }
+  };
+
+  let out: LayoutTree<WithStyleRefs>[] = [];
+  go({ node: tree.rootNode, parent: null, index: 0, depth: 0 }, out);
+  return out[0];
+}
@@ -0,0 +1,165 @@
+/**
+ * This module implements the vertical alignment of `Node`s within a
+ * line. By default, the fragments on a line are aligned by their
+ * baselines (see `baselineRect`), so a `Node` containing taller
+ * fragments, or more padding, extends further above and below the
+ * line than its neighbours. A `Node` whose `verticalAlign` is
+ * `"top"`, `"middle"` or `"bottom"` is instead moved so that its
+ * extent on each line is aligned with the extent of the rest of the
+ * line:
+ *
+ * - `"top"`: The tops of the extents are aligned.
+ * - `"middle"`: The centers of the extents are aligned.
+ * - `"bottom"`: The bottoms of the extents are aligned.
+ * - `"baseline"`: The `Node` isn't moved.
+ *
+ * The rest of the line is made up of the `Node`'s siblings which are
+ * aligned by their baselines, so the alignment of nested `Node`s is
+ * relative to their parent's content, as in CSS.
+ */
+
+import { LayoutTree, Node, WithMeasurements, baselineRect, paddingSides } from "./layout-tree";
+
+export type VerticalAlign = "top" | "middle" | "bottom" | "baseline";
+
+/**
+ * The vertical extent of a part of a line, relative to the line's
+ * baseline.
+ */
+export type Extent = { top: number, bottom: number };
+
+function unionExtent(a: Extent | undefined, b: Extent): Extent {
+  if(a === undefined) {
+    return b;
+  }
+  return { top: Math.min(a.top, b.top), bottom: Math.max(a.bottom, b.bottom) };
+}
+
+/**
+ * Find the vertical offset which aligns `extent` with `reference`.
+ *
+ * @param align The alignment.
+ * @param extent The extent to move.
+ * @param reference The extent with which to align `extent`.
+ * @returns The distance to move `extent` downward.
+ */
+export function alignmentOffset(align: VerticalAlign, extent: Extent, reference: Extent): number {
+  switch(align) {
+    case "top": return reference.top - extent.top;
+    case "middle": return (reference.top + reference.bottom) / 2 - (extent.top + extent.bottom) / 2;
+    case "bottom": return reference.bottom - extent.bottom;
+    case "baseline": return 0;
+  }
+}
+
+/**
+ * Move the atoms of each `Node` with a `verticalAlign` so that the
+ * `Node` is aligned within each of its lines. An atom is moved by
+ * changing its `baseline`, so that the layout algorithms (which align
+ * the atoms on each line by their baselines) place it lower or
+ * higher.
+ *
+ * @param tree The layout tree to align.
+ * @param includePadding If `true`, the extent of a `Node` on a line
+ * includes its padding (as in the layout algorithms which surround
+ * each fragment with the padding of its enclosing `Node`s).
+ * Otherwise, only the extents of its fragments are aligned.
+ * @returns The aligned tree, and the distance by which each atom (in
+ * preorder) was moved downward.
+ */
+export function alignLayoutTree(
+  tree: LayoutTree<WithMeasurements>,
+  includePadding: boolean
+): [LayoutTree<WithMeasurements>, number[]] {
+  /**
+   * The offset of each aligned `Node` on each of its lines.
+   */
+  const offsets = new Map<Node<WithMeasurements>, Map<number, number>>();
+  let line = 0;
+
+  /**
+   * Find the extent of `root` on each of its lines, recording the
+   * offsets of its aligned children.
+   */
+  const extents = (root: LayoutTree<WithMeasurements>): Map<number, Extent> => {
+    switch(root.type) {
+      case "Newline": {
+        line += 1;
+        return new Map();
+      }
+      case "Spacer": return new Map();
+      case "Atom": {
+        const r = baselineRect(root);
+        return new Map([[line, { top: r.top, bottom: r.bottom }]]);
+      }
+      case "Node": {
+        let reference = new Map<number, Extent>();
+        let aligned: [Node<WithMeasurements>, Map<number, Extent>][] = [];
+        for(const child of root.children) {
+          const childExtents = extents(child);
+          if(child.type === "Node" && (child.verticalAlign ?? "baseline") !== "baseline") {
+            aligned.push([child, childExtents]);
+          } else {
+            childExtents.forEach((e, l) => reference.set(l, unionExtent(reference.get(l), e)));
+          }
+        }
+
+        // On lines where only aligned children have fragments, the
+        // children are aligned with one another.
+        for(const [_, childExtents] of aligned) {
+          childExtents.forEach((e, l) => {
+            if(!reference.has(l)) {
+              reference.set(l, e);
+            }
+          });
+        }
+
+        let out = new Map(reference);
+        for(const [child, childExtents] of aligned) {
+          let childOffsets = new Map<number, number>();
+          childExtents.forEach((e, l) => {
+            const dy = alignmentOffset(child.verticalAlign!, e, reference.get(l)!);
+            childOffsets.set(l, dy);
+            out.set(l, unionExtent(out.get(l), { top: e.top + dy, bottom: e.bottom + dy }));
+          });
+          offsets.set(child, childOffsets);
+        }
+
+        if(includePadding) {
+          const padding = paddingSides(root.padding);
+          out.forEach((e, l) => out.set(l, { top: e.top - padding.top, bottom: e.bottom + padding.bottom }));
+        }
+        return out;
+      }
+    }
+  };
+
+  extents(tree);
+
+  let shifts: number[] = [];
+  line = 0;
+  const apply = (root: LayoutTree<WithMeasurements>, ancestors: Map<number, number>[]): LayoutTree<WithMeasurements> => {
+    switch(root.type) {
+      case "Newline": {
+        line += 1;
+        return root;
+      }
+      case "Spacer": return root;
+      case "Atom": {
+        let dy = 0;
+        for(const ancestorOffsets of ancestors) {
+          dy += ancestorOffsets.get(line) ?? 0;
+        }
+        shifts.push(dy);
+        return dy === 0 ? root : { ...root, baseline: (root.baseline ?? 0) - dy };
+      }
+      case "Node": {
+        const nodeOffsets = offsets.get(root);
+        const inner = nodeOffsets !== undefined ? [...ancestors, nodeOffsets] : ancestors;
+        return { ...root, children: root.children.map(child => apply(child, inner)) };
+      }
+    }
+  };
+
+  return [apply(tree, []), shifts];
+}
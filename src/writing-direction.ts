@@ -0,0 +1,373 @@
+/**
+ * This module implements the writing directions in which the layout
+ * algorithms can place text. Every algorithm works in _logical_
+ * coordinates, in which fragments advance along the inline axis (`x`)
+ * and lines stack along the block axis (`y`), as in left-to-right
+ * text. A `DirectedLayoutResult` then maps the result of an algorithm
+ * into _physical_ coordinates:
+ *
+ * - `"LTR"`: Left-to-right; the logical and physical coordinates are
+ *   the same.
+ * - `"RTL"`: Right-to-left; the layout is mirrored, so that fragments
+ *   advance leftward (e.g. for Arabic or Hebrew), and the beginning
+ *   of each line is at its right edge.
+ * - `"TTB"`: Top-to-bottom; the layout is rotated a quarter turn
+ *   clockwise, so that fragments advance downward and lines stack
+ *   from right to left (as in CSS's `vertical-rl` writing mode).
+ *
+ * Styles, padding and minimum sizes are always physical: `borderLeft`
+ * refers to the left edges of a `Node`'s outline, `minWidth` is the
+ * physical width of each line, the offset of an `Elevation` is the
+ * same in every direction, and so on.
+ */
+
+import { Point } from "./point";
+import { Path, Polygon } from "./polygon";
+import { Rect, Sides } from "./rect";
+import {
+  BorderStyle,
+  DrawElement,
+  PathCommand,
+  Render,
+  RenderTarget,
+  SVGStyle
+} from "./render";
+import {
+  Ann,
+  FragmentInfo,
+  FragmentsInfo,
+  HitTest,
+  LayoutTree,
+  LineInfo,
+  LinesInfo,
+  NodeOutline,
+  NodePath,
+  Padding,
+  paddingSides
+} from "./layout-tree";
+
+export type WritingDirection = "LTR" | "RTL" | "TTB";
+
+/**
+ * Map a point from logical to physical coordinates.
+ *
+ * @param p The logical point.
+ * @param dir The writing direction.
+ * @returns The physical point.
+ */
+export function physicalPoint(p: Point, dir: WritingDirection): Point {
+  switch(dir) {
+    case "LTR": return p;
+    case "RTL": return { x: -p.x, y: p.y };
+    case "TTB": return { x: -p.y, y: p.x };
+  }
+}
+
+/**
+ * Map a point from physical to logical coordinates. This is the
+ * inverse of `physicalPoint`.
+ *
+ * @param p The physical point.
+ * @param dir The writing direction.
+ * @returns The logical point.
+ */
+export function logicalPoint(p: Point, dir: WritingDirection): Point {
+  switch(dir) {
+    case "LTR": return p;
+    case "RTL": return { x: -p.x, y: p.y };
+    case "TTB": return { x: p.y, y: -p.x };
+  }
+}
+
+/**
+ * Map a rectangle from logical to physical coordinates.
+ *
+ * @param r The logical rectangle.
+ * @param dir The writing direction.
+ * @returns The physical rectangle.
+ */
+export function physicalRect(r: Rect, dir: WritingDirection): Rect {
+  switch(dir) {
+    case "LTR": return r;
+    case "RTL": return { left: -r.right, right: -r.left, top: r.top, bottom: r.bottom };
+    case "TTB": return { left: -r.bottom, right: -r.top, top: r.left, bottom: r.right };
+  }
+}
+
+/**
+ * Map a path from logical to physical coordinates. Mirroring a path
+ * reverses its orientation, so the vertices of a mirrored path are
+ * also reversed, keeping the orientation which `PolygonRendering`
+ * expects.
+ *
+ * @param path The logical path.
+ * @param dir The writing direction.
+ * @returns The physical path.
+ */
+export function physicalPath(path: Path, dir: WritingDirection): Path {
+  const out = path.map(p => physicalPoint(p, dir));
+  if(dir === "RTL") {
+    out.reverse();
+  }
+  return out;
+}
+
+/**
+ * Map a polygon from logical to physical coordinates.
+ *
+ * @param polygon The logical polygon.
+ * @param dir The writing direction.
+ * @returns The physical polygon.
+ */
+export function physicalPolygon(polygon: Polygon, dir: WritingDirection): Polygon {
+  return polygon.map(path => physicalPath(path, dir));
+}
+
+/**
+ * The sides of a `BorderStyle`, in clockwise order.
+ */
+const BORDER_SIDES = ["borderTop", "borderRight", "borderBottom", "borderLeft"] as const;
+
+/**
+ * Find the physical side onto which a logical side is mapped.
+ *
+ * @param side The index of the logical side in `BORDER_SIDES`.
+ * @param dir The writing direction.
+ * @returns The index of the physical side in `BORDER_SIDES`.
+ */
+function physicalSide(side: number, dir: WritingDirection): number {
+  switch(dir) {
+    case "LTR": return side;
+    case "RTL": return side % 2 === 0 ? side : 4 - side;
+    case "TTB": return (side + 1) % 4;
+  }
+}
+
+/**
+ * Map the physical sides of a border onto the logical sides from
+ * which they're drawn.
+ */
+function logicalBorder(border: Partial<BorderStyle>, dir: WritingDirection): Partial<BorderStyle> {
+  let out: Partial<BorderStyle> = { ...border };
+  BORDER_SIDES.forEach(side => delete out[side]);
+  BORDER_SIDES.forEach((side, i) => {
+    const value = border[BORDER_SIDES[physicalSide(i, dir)]];
+    if(value !== undefined) {
+      out[side] = value;
+    }
+  });
+  return out;
+}
+
+/**
+ * The sides of a `Sides`, in the same order as `BORDER_SIDES`.
+ */
+const SIDES = ["top", "right", "bottom", "left"] as const;
+
+/**
+ * Map the physical sides of a `Node`'s padding onto the logical
+ * sides from which they're laid out.
+ *
+ * @param padding The physical padding.
+ * @param dir The writing direction.
+ * @returns The logical padding.
+ */
+export function logicalPadding(padding: Padding, dir: WritingDirection): Padding {
+  if(dir === "LTR" || typeof padding === "number") {
+    return padding;
+  }
+
+  const sides = paddingSides(padding);
+  let out: Sides = { ...sides };
+  SIDES.forEach((side, i) => out[side] = sides[SIDES[physicalSide(i, dir)]]);
+  return out;
+}
+
+/**
+ * Convert the physical parts of a style (the sides of its borders,
+ * and the offset of its elevation) into the logical style which
+ * produces them once a layout is mapped into physical coordinates.
+ *
+ * @param sty The physical style.
+ * @param dir The writing direction.
+ * @returns The logical style.
+ */
+export function logicalStyle<S extends Partial<SVGStyle>>(sty: S, dir: WritingDirection): S {
+  if(dir === "LTR") {
+    return sty;
+  }
+
+  let out: S = { ...sty };
+  if(sty.borders !== undefined) {
+    out.borders = sty.borders.map(border => logicalBorder(border, dir));
+  }
+  if(sty.elevation !== undefined) {
+    const { x, y } = logicalPoint({ x: sty.elevation.dx, y: sty.elevation.dy }, dir);
+    out.elevation = { ...sty.elevation, dx: x, dy: y };
+  }
+  return out;
+}
+
+/**
+ * Convert the style of every `Node` in `tree` with `logicalStyle`,
+ * and its padding and margin with `logicalPadding`. In the `"TTB"`
+ * direction, its `minWidth` and `minHeight` are also swapped. The
+ * layout algorithms lay out this tree in place of their input.
+ *
+ * @param tree The tree whose styles, padding and margins to convert.
+ * @param dir The writing direction.
+ * @returns A copy of `tree` with logical styles, padding and margins.
+ */
+export function logicalTree<X extends Ann>(tree: LayoutTree<X>, dir: WritingDirection): LayoutTree<X> {
+  if(dir === "LTR" || tree.type !== "Node") {
+    return tree;
+  }
+
+  let out = {
+    ...tree,
+    padding: logicalPadding(tree.padding, dir),
+    children: tree.children.map(child => logicalTree(child, dir))
+  };
+  if(tree.margin !== undefined) {
+    out.margin = logicalPadding(tree.margin, dir);
+  }
+  if(tree.sty !== undefined) {
+    out.sty = logicalStyle(tree.sty, dir);
+  }
+  if(dir === "TTB" && (tree.minWidth !== undefined || tree.minHeight !== undefined)) {
+    out.minWidth = tree.minHeight;
+    out.minHeight = tree.minWidth;
+  }
+  return out;
+}
+
+function physicalCommands(commands: PathCommand[], dir: WritingDirection): PathCommand[] {
+  return commands.map(cmd => {
+    switch(cmd.type) {
+      case "MoveTo":
+      case "LineTo": return { ...cmd, ...physicalPoint(cmd, dir) };
+      case "ArcTo": return {
+        ...cmd,
+        ...physicalPoint(cmd, dir),
+        corner: physicalPoint(cmd.corner, dir),
+        clockwise: dir === "RTL" ? !cmd.clockwise : cmd.clockwise,
+      };
+      case "Close": return cmd;
+    }
+  });
+}
+
+/**
+ * Map an element from logical to physical coordinates. Text is
+ * anchored at the physical position of its starting point (and
+ * rotated along with the layout in the `"TTB"` direction).
+ */
+function physicalElement(elt: DrawElement, dir: WritingDirection): DrawElement {
+  switch(elt.type) {
+    case "text": {
+      const out = { ...elt, ...physicalPoint(elt, dir) };
+      if(dir === "TTB") {
+        out.rotate = (elt.rotate ?? 0) + 90;
+      }
+      return out;
+    }
+    case "rect": {
+      const r = physicalRect({ left: elt.x, top: elt.y, right: elt.x + elt.width, bottom: elt.y + elt.height }, dir);
+      return { ...elt, x: r.left, y: r.top, width: r.right - r.left, height: r.bottom - r.top };
+    }
+    case "path": return { ...elt, commands: physicalCommands(elt.commands, dir) };
+    case "line": {
+      const p1 = physicalPoint({ x: elt.x1, y: elt.y1 }, dir);
+      const p2 = physicalPoint({ x: elt.x2, y: elt.y2 }, dir);
+      return { ...elt, x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y };
+    }
+  }
+}
+
+/**
+ * A `RenderTarget` which records the elements drawn into it, so that
+ * they can be mapped into physical coordinates.
+ */
+class RecordingTarget extends RenderTarget {
+  recorded(): DrawElement[] {
+    return this.elements;
+  }
+}
+
+/**
+ * A layout result in physical coordinates, wrapping the `logical`
+ * result of a layout algorithm.
+ *
+ * In the `"TTB"` direction lines are columns, so the `top`, `bottom`
+ * and `baseline` of each `LineInfo` are x-coordinates: the left and
+ * right edges of the column, and its vertical baseline. Likewise, the
+ * `baseline` of each `FragmentInfo` is an x-coordinate.
+ */
+export class DirectedLayoutResult<R extends Render & FragmentsInfo & HitTest & LinesInfo>
+  extends Render implements FragmentsInfo, HitTest, LinesInfo {
+  /**
+   * The result of the layout algorithm, in logical coordinates.
+   */
+  readonly logical: R;
+  readonly direction: WritingDirection;
+
+  constructor(logical: R, direction: WritingDirection) {
+    super();
+    this.logical = logical;
+    this.direction = direction;
+  }
+
+  render(target: RenderTarget, sty: SVGStyle) {
+    if(this.direction === "LTR") {
+      this.logical.render(target, sty);
+      return;
+    }
+
+    const recording = new RecordingTarget();
+    this.logical.render(recording, logicalStyle(sty, this.direction));
+    for(const elt of recording.recorded()) {
+      target.append(physicalElement(elt, this.direction));
+    }
+  }
+
+  boundingBox(): Rect | null {
+    const bbox = this.logical.boundingBox();
+    return bbox !== null ? physicalRect(bbox, this.direction) : null;
+  }
+
+  fragmentsInfo(): FragmentInfo[] {
+    return this.logical.fragmentsInfo().map(frag => ({
+      ...frag,
+      rect: physicalRect(frag.rect, this.direction),
+      baseline: this.direction === "TTB" ? -frag.baseline : frag.baseline,
+    }));
+  }
+
+  linesInfo(): LineInfo[] {
+    const lines = this.logical.linesInfo();
+    if(this.direction !== "TTB") {
+      return lines;
+    }
+
+    return lines.map(line => ({
+      lineNo: line.lineNo,
+      sourceLineNo: line.sourceLineNo,
+      top: -line.bottom,
+      bottom: -line.top,
+      baseline: -line.baseline,
+    }));
+  }
+
+  nodeOutlines(): NodeOutline[] {
+    return this.logical.nodeOutlines().map(o => ({ ...o, outline: physicalPolygon(o.outline, this.direction) }));
+  }
+
+  nodeAt(p: Point): NodePath | null {
+    return this.logical.nodeAt(logicalPoint(p, this.direction));
+  }
+
+  outlineOf(path: NodePath): Polygon | null {
+    const outline = this.logical.outlineOf(path);
+    return outline !== null ? physicalPolygon(outline, this.direction) : null;
+  }
+}
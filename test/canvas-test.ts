@@ -0,0 +1,77 @@
+import { expect, test } from "@jest/globals";
+import { Canvas2DContext, renderToCanvas } from "../src/canvas";
+import { PolygonRendering, pathOfRect } from "../src/polygon";
+
+/**
+ * A `Canvas2DContext` which records the calls made on it.
+ */
+class RecordingContext implements Canvas2DContext {
+  calls: string[] = [];
+  fillStyle: unknown = "black";
+  strokeStyle: unknown = "black";
+  lineWidth = 1;
+  globalAlpha = 1;
+  font = "";
+  textBaseline = "alphabetic";
+
+  private record(name: string, args: unknown[]) {
+    this.calls.push(`${name}(${args.join(", ")})`);
+  }
+
+  save() { this.record("save", []); }
+  restore() { this.record("restore", []); }
+  scale(...args: number[]) { this.record("scale", args); }
+  translate(...args: number[]) { this.record("translate", args); }
+  rotate(...args: number[]) { this.record("rotate", args); }
+  setLineDash(segments: number[]) { this.record("setLineDash", [`[${segments.join(" ")}]`]); }
+  beginPath() { this.record("beginPath", []); }
+  moveTo(...args: number[]) { this.record("moveTo", args); }
+  lineTo(...args: number[]) { this.record("lineTo", args); }
+  arcTo(...args: number[]) { this.record("arcTo", args); }
+  closePath() { this.record("closePath", []); }
+  fill() { this.record("fill", [this.fillStyle, this.globalAlpha]); }
+  stroke() { this.record("stroke", [this.strokeStyle, this.lineWidth]); }
+  fillRect(...args: number[]) { this.record("fillRect", [...args, this.fillStyle]); }
+  strokeRect(...args: number[]) { this.record("strokeRect", [...args, this.strokeStyle]); }
+  fillText(text: string, x: number, y: number) { this.record("fillText", [text, x, y, this.font]); }
+}
+
+test("renderToCanvas maps the bounding box to the origin", () => {
+  const ctx = new RecordingContext();
+  const pgon = new PolygonRendering([pathOfRect({ left: 10, top: 20, right: 30, bottom: 40 })]);
+  renderToCanvas(pgon, ctx, 5);
+
+  expect(ctx.calls.slice(0, 3)).toEqual(["save()", "scale(1, 1)", "translate(-5, -15)"]);
+  expect(ctx.calls[ctx.calls.length - 1]).toEqual("restore()");
+});
+
+test("Rounded borders are drawn with arcTo", () => {
+  const ctx = new RecordingContext();
+  const pgon = new PolygonRendering([pathOfRect({ left: 0, top: 0, right: 20, bottom: 20 })])
+    .withStyles({ fill: "red", borders: [{ borderRadius: 5, borderStroke: "blue", borderWidth: 2 }] });
+  renderToCanvas(pgon, ctx);
+
+  expect(ctx.calls).toContain("fill(red, 1)");
+  expect(ctx.calls).toContain("stroke(blue, 2)");
+  // Both the fill and the border have four rounded corners.
+  expect(ctx.calls.filter(c => c.startsWith("arcTo")).length).toBe(8);
+  expect(ctx.calls.filter(c => c === "closePath()").length).toBe(2);
+});
+
+test("Fill opacity, dashes and gradients are drawn", () => {
+  const ctx = new RecordingContext();
+  const pgon = new PolygonRendering([pathOfRect({ left: 0, top: 0, right: 20, bottom: 20 })])
+    .withStyles({
+      fill: { type: "LinearGradient", angle: 90, stops: [{ offset: 0, color: "red" }, { offset: 1, color: "blue" }] },
+      fillOpacity: 0.5,
+      borders: [{ borderStroke: "blue", borderDasharray: [4, 2] }]
+    });
+  renderToCanvas(pgon, ctx);
+
+  // Gradients are approximated by their first stop.
+  expect(ctx.calls).toContain("fill(red, 0.5)");
+  const dash = ctx.calls.indexOf("setLineDash([4 2])");
+  expect(dash).toBeGreaterThan(0);
+  expect(ctx.calls[dash + 1]).toEqual("stroke(blue, 1)");
+  expect(ctx.calls[dash + 2]).toEqual("setLineDash([])");
+});
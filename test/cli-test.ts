@@ -0,0 +1,102 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CliError, applySettings, defaultSettings, main, parseArguments, render } from "../src/cli";
+import { layoutTreeToJson } from "../src/json";
+import { atom, node } from "./layout-tree-utils";
+
+const MARKUP = "let [x]@e = [1 + 2]@e\n\n@e { padding: 2; fill: #fee; }";
+
+describe("parseArguments", () => {
+  test("infers the input and output formats", () => {
+    expect(parseArguments([])).toMatchObject({ input: undefined, format: "markup", to: "svg", algorithm: "L1S" });
+    expect(parseArguments(["tree.json", "-o", "out.png"])).toMatchObject({ format: "json", output: "out.png", to: "png" });
+    expect(parseArguments(["x.py", "-l", "tree-sitter-python"])).toMatchObject({ format: "source" });
+    expect(parseArguments(["-", "-f", "json", "-t", "png", "-o", "-"])).toMatchObject({ input: undefined, format: "json", output: undefined, to: "png" });
+    expect(parseArguments(["--id-prefix", "fig1"])).toMatchObject({ idPrefix: "fig1" });
+  });
+
+  test("rejects invalid arguments", () => {
+    expect(() => parseArguments(["-a", "L2S"])).toThrow(CliError);
+    expect(() => parseArguments(["--font-size", "big"])).toThrow(CliError);
+    expect(() => parseArguments(["--unknown"])).toThrow(CliError);
+    expect(() => parseArguments(["a", "b"])).toThrow(CliError);
+    expect(() => parseArguments(["--id-prefix", "fig 1"])).toThrow(CliError);
+    expect(() => parseArguments(["--id-prefix", "1fig"])).toThrow(CliError);
+    expect(() => parseArguments(["--id-prefix", "a:b"])).toThrow(CliError);
+  });
+});
+
+describe("applySettings", () => {
+  test("changes numbers and toggles", () => {
+    const settings = applySettings(defaultSettings("L1S+"), ["idealLeading=3", "enableSimplification=false"]);
+    expect(settings.idealLeading).toBe(3);
+    expect(settings.enableSimplification).toBe(false);
+    expect(defaultSettings("L1S+").idealLeading).toBe(10);
+  });
+
+  test("rejects unknown settings and invalid values", () => {
+    expect(() => applySettings(defaultSettings("L1S"), ["leading=3"])).toThrow(`Unknown setting "leading"`);
+    expect(() => applySettings(defaultSettings("L1S"), ["idealLeading"])).toThrow(CliError);
+    expect(() => applySettings(defaultSettings("L1S+"), ["enableSimplification=yes"])).toThrow(CliError);
+  });
+});
+
+describe("render", () => {
+  test("renders markup to SVG", async () => {
+    const svg = await render(parseArguments(["-a", "S-Blocks"]), MARKUP);
+    expect(typeof svg).toBe("string");
+    expect(svg).toContain("<svg");
+    expect(svg).toContain("#fee");
+    expect(svg).toContain("1 + 2");
+  });
+
+  test("prefixes the ids defined in the SVG", async () => {
+    const fill = { type: "LinearGradient" as const, angle: 0, stops: [{ offset: 0, color: "red" }, { offset: 1, color: "blue" }] };
+    const json = layoutTreeToJson({ type: "Node", padding: 2, sty: { fill }, children: [atom(10, 10)] });
+    expect(await render(parseArguments(["tree.json", "--id-prefix", "fig1"]), json)).toContain("url(#fig1-paint-0)");
+  });
+
+  test("renders layout tree documents", async () => {
+    const json = layoutTreeToJson(node([atom(10, 10), node([atom(10, 10)], 2, "pink")]));
+    const svg = await render(parseArguments(["tree.json", "--css", "/dev/null"]), json);
+    expect(svg).toContain("pink");
+  });
+
+  test("renders PNG images", async () => {
+    const png = await render(parseArguments(["-t", "png", "--scale", "2"]), MARKUP);
+    expect(png).toBeInstanceOf(Uint8Array);
+    expect(Array.from((png as Uint8Array).slice(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+  });
+
+  test("requires a grammar for source files", async () => {
+    await expect(render(parseArguments(["-f", "source"]), "x = 1")).rejects.toThrow(CliError);
+  });
+});
+
+describe("main", () => {
+  test("writes the output file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ragged-blocks-"));
+    const input = path.join(dir, "in.txt");
+    const output = path.join(dir, "out.svg");
+    fs.writeFileSync(input, MARKUP);
+
+    expect(await main([input, "-o", output])).toBe(0);
+    expect(fs.readFileSync(output, "utf8")).toContain("<svg");
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  test("reports errors in the input", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ragged-blocks-"));
+    const input = path.join(dir, "in.txt");
+    fs.writeFileSync(input, "[unclosed");
+
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(await main([input])).toBe(1);
+    expect(await main([path.join(dir, "missing.txt")])).toBe(1);
+    expect(error.mock.calls[0][0]).toBe(`ragged-blocks: 1:1: Unclosed "["`);
+    error.mockRestore();
+    fs.rmSync(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "@jest/globals";
+import { deflateSync } from "node:zlib";
+import { fontMeasure, loadFont, parseFont } from "../src/font-measure";
+import { LayoutTree, measureLayoutTree } from "../src/layout-tree";
+
+/**
+ * Write a sequence of big-endian 16-bit values.
+ */
+function u16s(...values: number[]): number[] {
+  return values.flatMap(v => [(v >> 8) & 0xff, v & 0xff]);
+}
+
+function u32(v: number): number[] {
+  return [...u16s(v >>> 16), ...u16s(v & 0xffff)];
+}
+
+function tag(t: string): number[] {
+  return [...t].map(c => c.charCodeAt(0));
+}
+
+/**
+ * The tables of a tiny font with 1000 units per em and three glyphs:
+ * `.notdef` (500 units wide), "A" (600 units wide) and "V" (700 units
+ * wide), where the pair "AV" is kerned by -100 units.
+ */
+const TABLES: [string, number[]][] = [
+  ["cmap", [
+    ...u16s(0, 1, 3, 1), ...u32(12),
+    // A format 4 subtable with the segments [65, 65], [86, 86] and
+    // the final [0xffff, 0xffff].
+    ...u16s(4, 40, 0, 6, 4, 1, 2),
+    ...u16s(65, 86, 0xffff), 0, 0,
+    ...u16s(65, 86, 0xffff),
+    ...u16s(1 - 65, 2 - 86, 1),
+    ...u16s(0, 0, 0),
+  ]],
+  ["head", [...new Array(18).fill(0), ...u16s(1000), ...new Array(34).fill(0)]],
+  ["hhea", [...u32(0x10000), ...u16s(800, -200 & 0xffff), ...new Array(26).fill(0), ...u16s(3)]],
+  ["hmtx", u16s(500, 0, 600, 0, 700, 0)],
+  ["kern", [...u16s(0, 1), ...u16s(0, 20, 1), ...u16s(1, 0, 0, 0), ...u16s(1, 2, -100 & 0xffff)]],
+];
+
+function sfnt(): Uint8Array {
+  let out = [...u32(0x10000), ...u16s(TABLES.length, 0, 0, 0)];
+  let offset = 12 + TABLES.length * 16;
+  for(const [t, data] of TABLES) {
+    out.push(...tag(t), ...u32(0), ...u32(offset), ...u32(data.length));
+    offset += data.length;
+  }
+  TABLES.forEach(([_, data]) => out.push(...data));
+  return new Uint8Array(out);
+}
+
+function woff(): Uint8Array {
+  // Tables which don't shrink when compressed are stored as they are.
+  const compressed = TABLES.map(([_, data]) => {
+    const deflated = deflateSync(new Uint8Array(data));
+    return deflated.length < data.length ? [...deflated] : data;
+  });
+  let out = [...tag("wOFF"), ...u32(0x10000), ...u32(0), ...u16s(TABLES.length, 0), ...new Array(28).fill(0)];
+  let offset = 44 + TABLES.length * 20;
+  TABLES.forEach(([t, data], i) => {
+    out.push(...tag(t), ...u32(offset), ...u32(compressed[i].length), ...u32(data.length), ...u32(0));
+    offset += compressed[i].length;
+  });
+  compressed.forEach(data => out.push(...data));
+  return new Uint8Array(out);
+}
+
+describe("parseFont", () => {
+  test.each([["sfnt", sfnt], ["WOFF", woff]])("reads the metrics of a %s font", (_, build) => {
+    const font = parseFont(build());
+    expect(font.unitsPerEm).toBe(1000);
+    expect(font.ascender).toBe(800);
+    expect(font.descender).toBe(-200);
+    expect(font.advanceWidth("A")).toBe(600);
+    expect(font.advanceWidth("V")).toBe(700);
+    expect(font.advanceWidth("VA")).toBe(1300);
+    expect(font.advanceWidth("AV")).toBe(1200);
+    // Characters missing from the font are measured as `.notdef`.
+    expect(font.advanceWidth("?")).toBe(500);
+  });
+
+  test("rejects unknown formats", () => {
+    expect(() => parseFont(new Uint8Array(u32(0xdeadbeef)))).toThrow();
+  });
+});
+
+describe("fontMeasure", () => {
+  test("scales the metrics of a font to a font size", () => {
+    const measure = fontMeasure(parseFont(sfnt()), 10);
+    expect(measure("AV")).toEqual({ left: 0, right: 12, top: -8, bottom: 2 });
+  });
+
+  test("measures text in a WOFF2 font", () => {
+    const font = loadFont("demo/Inconsolata-Medium.woff2");
+    expect(font.glyphOf("a".codePointAt(0)!)).not.toBe(0);
+    const measure = fontMeasure(font, 12);
+    const a = measure("a");
+    expect(a.right).toBeGreaterThan(0);
+    expect(a.top).toBeLessThan(0);
+    expect(a.bottom).toBeGreaterThan(0);
+
+    // Inconsolata is monospaced.
+    expect(measure("mmmm").right).toBeCloseTo(4 * a.right);
+    expect(measure("iiii").right).toBeCloseTo(4 * a.right);
+
+    const input: LayoutTree = {
+      type: "Node",
+      padding: 0,
+      children: [{ type: "Atom", text: "let" }, { type: "Spacer", text: " " }]
+    };
+    const tree = measureLayoutTree(input, measure);
+    if(tree.type !== "Node" || tree.children[0].type !== "Atom" || tree.children[1].type !== "Spacer") {
+      throw new Error("unexpected tree");
+    }
+    expect(tree.children[0].rect.right).toBeCloseTo(3 * a.right);
+    expect(tree.children[1].width).toBeCloseTo(a.right);
+  });
+});
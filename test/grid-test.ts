@@ -0,0 +1,71 @@
+import { describe, expect, test } from "@jest/globals";
+import { Grid, snapToGrid } from "../src/grid";
+import { OutlinedRocksLayout, OutlinedRocksLayoutSettings, RocksLayout, RocksLayoutSettings } from "../src/rocks-layout/layout";
+import SBlocksLayout, { SBlocksLayoutSettings } from "../src/s-blocks-layout/layout";
+import { FragmentInfo, LayoutTree, WithMeasurements, atom, newline, node, spacer } from "./layout-tree-utils";
+
+test("snapToGrid rounds up onto the grid", () => {
+  expect(snapToGrid(0, 10)).toBe(0);
+  expect(snapToGrid(10, 10)).toBe(10);
+  expect(snapToGrid(11, 10)).toBe(20);
+  expect(snapToGrid(0.1 + 0.2, 0.1)).toBeCloseTo(0.3);
+  expect(snapToGrid(12, 10, 5)).toBe(15);
+});
+
+const GRID: Grid = { columnWidth: 10, rowHeight: 20 };
+
+const tree: LayoutTree<WithMeasurements> = node([
+  atom(30, 20), spacer(10), node([atom(10, 20), node([atom(20, 20)], 3), atom(10, 20)], 4), newline(),
+  spacer(20), node([atom(10, 20), newline(), atom(40, 20)], 7),
+], 2);
+
+const ALGORITHMS: [string, (grid?: Grid) => { layout(t: LayoutTree<WithMeasurements>): { fragmentsInfo(): FragmentInfo[] } }][] = [
+  ["L1S", grid => new RocksLayout(new RocksLayoutSettings(20, undefined, undefined, grid))],
+  ["L1S+", grid => new OutlinedRocksLayout(new OutlinedRocksLayoutSettings(20, true, undefined, undefined, grid))],
+  ["S-Blocks", grid => new SBlocksLayout(new SBlocksLayoutSettings(20, undefined, undefined, grid))],
+];
+
+describe.each(ALGORITHMS)("%s", (_, algo) => {
+  const unsnapped = algo().layout(tree).fragmentsInfo();
+  const fragments = algo(GRID).layout(tree).fragmentsInfo();
+
+  test("puts every fragment on the grid", () => {
+    for(const frag of fragments) {
+      expect(frag.column).toBeDefined();
+      expect(frag.row).toBeDefined();
+      expect(frag.rect.left).toBeCloseTo(frag.column! * GRID.columnWidth);
+      expect(frag.baseline - fragments[0].baseline).toBeCloseTo(frag.row! * GRID.rowHeight);
+    }
+
+    // Vertical padding is absorbed into whole extra rows, so each line
+    // is on a later row than the line before it.
+    for(let i = 1; i < fragments.length; ++i) {
+      if(fragments[i].lineNo === fragments[i - 1].lineNo) {
+        expect(fragments[i].row).toBe(fragments[i - 1].row);
+      } else {
+        expect(fragments[i].row).toBeGreaterThan(fragments[i - 1].row!);
+      }
+    }
+  });
+
+  test("only moves fragments rightward and downward", () => {
+    fragments.forEach((frag, i) => {
+      expect(frag.rect.left).toBeGreaterThanOrEqual(unsnapped[i].rect.left);
+      expect(frag.baseline - fragments[0].baseline).toBeGreaterThanOrEqual(unsnapped[i].baseline - unsnapped[0].baseline);
+    });
+  });
+
+  test("keeps the space between fragments", () => {
+    for(let i = 1; i < fragments.length; ++i) {
+      if(fragments[i].lineNo === fragments[i - 1].lineNo) {
+        const gap = fragments[i].rect.left - fragments[i - 1].rect.right;
+        const unsnappedGap = unsnapped[i].rect.left - unsnapped[i - 1].rect.right;
+        expect(gap).toBeGreaterThanOrEqual(unsnappedGap);
+      }
+    }
+  });
+
+  test("doesn't report grid coordinates without a grid", () => {
+    expect(unsnapped.every(frag => frag.column === undefined && frag.row === undefined)).toBe(true);
+  });
+});
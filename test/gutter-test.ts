@@ -0,0 +1,91 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { BlocksLayoutSettings } from "../src/blocks-layout/layout";
+import { GutterRendering } from "../src/gutter";
+import { toSVG } from "../src/render";
+import { newline, node, settings, textAtom } from "./layout-tree-utils";
+
+const SETTINGS = settings(4);
+
+const tree = node([
+  textAtom("a"), node([textAtom("b")], 3), newline(),
+  newline(),
+  node([textAtom("c"), newline(), textAtom("d")], 2),
+], 2);
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s", name => {
+  const result = constructAlgoByName(name)(SETTINGS[name]).layout(tree);
+  const lines = result.linesInfo();
+  const fragments = result.fragmentsInfo();
+
+  test("linesInfo reports every line, in order", () => {
+    expect(lines.map(l => l.lineNo)).toEqual([0, 1, 2, 3]);
+    for(let i = 1; i < lines.length; ++i) {
+      expect(lines[i].top).toBeGreaterThanOrEqual(lines[i - 1].bottom);
+    }
+  });
+
+  test("The first fragment of each line sits on its baseline", () => {
+    for(const line of lines) {
+      const first = fragments.find(f => f.lineNo === line.lineNo);
+      if(first === undefined) {
+        expect(line.top).toBe(line.bottom);
+        continue;
+      }
+      expect(first.rect.top + 10).toBeCloseTo(line.baseline);
+      expect(line.top).toBeLessThanOrEqual(first.rect.top);
+      expect(line.bottom).toBeGreaterThanOrEqual(first.rect.bottom);
+    }
+  });
+
+  test("Lines aren't wrapped, so they are their own source lines", () => {
+    expect(lines.map(l => l.sourceLineNo)).toEqual([0, 1, 2, 3]);
+    expect(fragments.map(f => f.sourceLineNo)).toEqual(fragments.map(f => f.lineNo));
+  });
+
+  test("Line numbers are drawn on the baselines", () => {
+    const svg = toSVG(result.stack(new GutterRendering(result)));
+    for(const line of lines) {
+      expect(svg).toContain(`y="${line.baseline}" style="font-family:monospace;font-size: 12px;white-space: pre" fill="gray">${line.lineNo + 1}</text>`);
+    }
+  });
+});
+
+test("GutterRendering draws markers and extends the bounding box", () => {
+  const result = constructAlgoByName("Blocks")(new BlocksLayoutSettings()).layout(tree);
+  const gutter = new GutterRendering(result, [
+    { type: "Breakpoint", lineNo: 0 },
+    { type: "Squiggle", firstFragment: 2, lastFragment: 3, color: "orange" },
+  ], { width: 20, gap: 5, firstLineNumber: 10 });
+
+  const bbox = result.boundingBox()!;
+  expect(gutter.boundingBox()).toEqual({ left: bbox.left - 25, right: bbox.left - 5, top: bbox.top, bottom: bbox.bottom });
+
+  const svg = toSVG(result.stack(gutter));
+  expect(svg).toMatch(/<path d="M [^"]* A 6 6 0 0 1 [^"]*Z" fill="red" stroke="none" \/>/);
+  // The squiggle spans two lines.
+  expect(svg.match(/stroke="orange"/g)?.length).toBe(2);
+  expect(svg).toContain(">13</text>");
+});
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s with soft wrapping", name => {
+  // Line 1 of the input is wrapped.
+  const wrapped = node([
+    textAtom("a"), newline(),
+    node([textAtom("bbbbbbb"), node([textAtom("ccccccc")], 0)], 0), newline(),
+    textAtom("d"),
+  ], 0);
+  const result = constructAlgoByName(name)(settings(4, 100)[name]).layout(wrapped);
+  const lines = result.linesInfo();
+
+  test("Lines are numbered and marked by source line", () => {
+    expect(lines.map(l => l.sourceLineNo)).toEqual([0, 1, 1, 2]);
+    const svg = toSVG(result.stack(new GutterRendering(result, [{ type: "Breakpoint", lineNo: 2 }])));
+    const numbers = Array.from(svg.matchAll(/fill="gray">(\d+)<\/text>/g), m => m[1]);
+    expect(numbers).toEqual(["1", "2", "3"]);
+    expect(svg).toContain(`y="${lines[3].baseline}" style="font-family:monospace;font-size: 12px;white-space: pre" fill="gray">3</text>`);
+    // The breakpoint is centered on the last visual line.
+    const dot = svg.match(/<path d="M [-\d.]+ ([-\d.]+) A 6 6/);
+    expect(Number(dot?.[1]) + 6).toBeCloseTo((lines[3].top + lines[3].bottom) / 2);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { PolygonRendering } from "../src/polygon";
+import { centerPoint, inflate } from "../src/rect";
+import { toSVG } from "../src/render";
+import { LayoutTree, WithIds, WithMeasurements, atom, newline, node, nodePaths, settings } from "./layout-tree-utils";
+
+const SETTINGS = settings(0);
+
+function nodeWithId(id: string, children: LayoutTree<WithIds<WithMeasurements>>[]): LayoutTree<WithIds<WithMeasurements>> {
+  return { type: "Node", children, padding: 5, id };
+}
+
+const tree = nodeWithId("outer", [
+  atom(10, 10),
+  nodeWithId("inner", [atom(10, 10)]),
+]);
+
+test("nodePaths lists Nodes in preorder", () => {
+  const t = node([node([node([])]), newline(), node([])]);
+  expect(nodePaths(t)).toEqual([[], [0], [0, 0], [2]]);
+});
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s", name => {
+  const result = constructAlgoByName(name)(SETTINGS[name]).layout(tree);
+
+  const [outerFrag, innerFrag] = result.fragmentsInfo();
+
+  test("finds the innermost Node at a point", () => {
+    expect(result.nodeAt(centerPoint(innerFrag.rect))).toEqual([1]);
+    expect(result.nodeAt(centerPoint(outerFrag.rect))).toEqual([]);
+    expect(result.nodeAt({ x: -100, y: -100 })).toBeNull();
+  });
+
+  test("finds the outline of a Node", () => {
+    const outline = result.outlineOf([1]);
+    expect(outline).not.toBeNull();
+    expect(new PolygonRendering(outline!).boundingBox()).toEqual(inflate(innerFrag.rect, 5));
+    expect(result.outlineOf([0])).toBeNull();
+  });
+
+  test("lists the outline of each Node", () => {
+    expect(result.nodeOutlines().map(o => o.path)).toEqual([[], [1]]);
+  });
+
+  test("preserves Node ids", () => {
+    expect(result.nodeOutlines().map(o => o.id)).toEqual(["outer", "inner"]);
+
+    const svg = toSVG(result);
+    expect(svg).toContain("data-node-id=\"outer\"");
+    expect(svg).toContain("data-node-id=\"inner\"");
+  });
+});
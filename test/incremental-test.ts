@@ -0,0 +1,188 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import BlocksLayout, { BlocksLayoutSettings } from "../src/blocks-layout/layout";
+import PebbleLayout, { PebbleLayoutSettings } from "../src/pebble-layout/layout";
+import { OutlinedRocksLayout, OutlinedRocksLayoutSettings, RocksLayout, RocksLayoutSettings } from "../src/rocks-layout/layout";
+import SBlocksLayout, { SBlocksLayoutSettings } from "../src/s-blocks-layout/layout";
+import { Grid } from "../src/grid";
+import { IncrementalLayout, LayoutSession, cleanPrefix, isIncrementalLayout, nodePathsAfterPrefix } from "../src/incremental";
+import { TextRendering, toSVG } from "../src/render";
+import { Layout, LayoutTree, NodePath, WithMeasurements, atom, lineOfPath, newline, node, nodePaths, settings, spacer, textAtom } from "./layout-tree-utils";
+
+type Tree = LayoutTree<WithMeasurements>;
+
+function tree(lastLine: Tree[]): Tree {
+  return node([
+    node([atom(30, 20), atom(10, 20)]),
+    newline(),
+    spacer(20),
+    node([atom(50, 20), newline(), atom(20, 20)]),
+    newline(),
+    node(lastLine),
+  ]);
+}
+
+// Four lines, the second of which is long enough to be soft wrapped.
+function program(call: Tree[]): Tree {
+  return node([
+    node([textAtom("let"), spacer(10), node([textAtom("x")], 2)], 3),
+    newline(),
+    node([textAtom("f("), node([textAtom("aaaa,")], 2), spacer(10), node([textAtom("bbbb,")], 2), spacer(10), node([textAtom("cccc")], 2), textAtom(")")], 3),
+    newline(),
+    node(call, 3),
+    newline(),
+    node([textAtom("end")], 3),
+  ], 1);
+}
+
+// A `Node` with a minimum size on the second line, which adds
+// struts to the root `Node`.
+function minSized(lastLine: Tree[]): Tree {
+  return node([
+    atom(20, 10),
+    newline(),
+    { type: "Node", padding: 2, minWidth: 80, minHeight: 30, children: [atom(10, 10)] },
+    newline(),
+    node(lastLine, 4),
+  ], 3);
+}
+
+/**
+ * Replace the child at `index` of the root `Node` of `t`.
+ */
+function edit(t: Tree, index: number, child: Tree): Tree {
+  if(t.type !== "Node") {
+    return t;
+  }
+  return { ...t, children: t.children.map((c, i) => i === index ? child : c) };
+}
+
+/**
+ * Lay out `before`, then `after` incrementally, and check that the
+ * result is the same as a full layout of `after`.
+ */
+function expectSameLayout(algo: Layout, before: Tree, after: Tree, changed: NodePath[]) {
+  const session = new LayoutSession(algo);
+
+  session.layout(before);
+  const incremental = session.update(after, changed);
+  const full = algo.layout(after);
+
+  expect(incremental.fragmentsInfo()).toStrictEqual(full.fragmentsInfo());
+  expect(incremental.linesInfo()).toStrictEqual(full.linesInfo());
+  expect(incremental.nodeOutlines()).toStrictEqual(full.nodeOutlines());
+  expect(toSVG(incremental.stack(new TextRendering(incremental, after)))).toBe(toSVG(full.stack(new TextRendering(full, after))));
+  expect(session.result).toBe(incremental);
+}
+
+const ALGORITHMS = Object.keys(settings(0)) as AlgorithmName[];
+
+test("Can find the line of a path", () => {
+  const t = tree([atom(10, 10)]);
+  expect(lineOfPath(t, [])).toBe(0);
+  expect(lineOfPath(t, [0])).toBe(0);
+  expect(lineOfPath(t, [3])).toBe(1);
+  expect(lineOfPath(t, [3, 2])).toBe(2);
+  expect(lineOfPath(t, [5])).toBe(3);
+  // Paths which don't resolve fall back to their deepest prefix.
+  expect(lineOfPath(t, [5, 7])).toBe(3);
+});
+
+test("The clean prefix ends with the last root line before the dirty line", () => {
+  const t = tree([atom(10, 10)]);
+
+  // The `Node` at [3] spans lines 1 and 2, so it isn't clean if
+  // line 2 is dirty.
+  expect(cleanPrefix(t, 0)).toBeNull();
+  expect(cleanPrefix(t, 2)).toMatchObject({ children: 2, lines: 1, nodes: 1 });
+  expect(cleanPrefix(t, 3)).toMatchObject({ children: 5, lines: 3, nodes: 2 });
+  expect(cleanPrefix(atom(10, 10), 3)).toBeNull();
+
+  const prefix = cleanPrefix(t, 3)!;
+  expect(prefix.rest.type === "Node" && prefix.rest.children.length).toBe(1);
+  expect(nodePathsAfterPrefix(nodePaths(t), prefix)).toStrictEqual(nodePaths(t));
+
+  const edited = tree([node([atom(10, 10)]), node([atom(10, 10)])]);
+  const paths: NodePath[] = nodePathsAfterPrefix(nodePaths(t), cleanPrefix(edited, 3)!);
+  expect(paths).toStrictEqual(nodePaths(edited));
+});
+
+test("Every algorithm is incremental", () => {
+  for(const name of ALGORITHMS) {
+    expect(isIncrementalLayout(constructAlgoByName(name)(settings(0)[name]))).toBe(true);
+  }
+});
+
+describe.each(ALGORITHMS)("Incremental %s layout", name => {
+  const cases: [string, number | undefined, Tree, Tree, NodePath[]][] = [
+    ["a changed last line", undefined, tree([atom(10, 10)]), tree([atom(10, 10), node([atom(40, 35)], 5)]), [[5]]],
+    ["a changed middle line", undefined, tree([atom(10, 10)]), edit(tree([atom(10, 10)]), 3, node([atom(50, 40), newline(), atom(70, 20)])), [[3]]],
+    ["soft wrapping", 120, program([textAtom("g()")]), program([textAtom("g(h(i),"), spacer(10), node([textAtom("j")], 2), textAtom(")")]), [[4]]],
+    ["an unchanged tree", 120, program([textAtom("g()")]), program([textAtom("g()")]), []],
+    ["minimum sizes", undefined, minSized([atom(10, 10)]), minSized([atom(90, 10), newline(), atom(10, 30)]), [[4]]],
+  ];
+
+  test.each(cases)("matches a full layout after %s", (_, maxWidth, before, after, changed) => {
+    expectSameLayout(constructAlgoByName(name)(settings(4, maxWidth)[name]), before, after, changed);
+  });
+});
+
+const GRID: Grid = { columnWidth: 8, rowHeight: 16 };
+
+const GRID_ALGORITHMS: [string, Layout][] = [
+  ["L1S", new RocksLayout(new RocksLayoutSettings(4, undefined, undefined, GRID))],
+  ["L1S+", new OutlinedRocksLayout(new OutlinedRocksLayoutSettings(4, true, undefined, undefined, GRID))],
+  ["S-Blocks", new SBlocksLayout(new SBlocksLayoutSettings(4, undefined, undefined, GRID))],
+];
+
+test.each(GRID_ALGORITHMS)("Incremental %s layout on a grid matches a full layout", (_, algo) => {
+  expectSameLayout(algo, program([textAtom("g()")]), program([textAtom("g(h)"), spacer(5), node([textAtom("i")], 3)]), [[4]]);
+});
+
+test("Incremental Rocks layout reuses the clean prefix", () => {
+  const algo: IncrementalLayout<ReturnType<RocksLayout["layout"]>> = new RocksLayout(new RocksLayoutSettings(4));
+  const previous = algo.layout(tree([atom(10, 10)]));
+  const result = algo.relayout(tree([atom(60, 10)]), previous, 3);
+
+  // The lines of the prefix are the same subtree of the reassociated
+  // tree, and keep their rectangles.
+  const lt = result.logical.layoutTree;
+  const prevLt = previous.logical.layoutTree;
+  expect(lt.type === "Wrap" && lt.child.type === "JoinV" && lt.child.lhs).toBe(prevLt.type === "Wrap" && prevLt.child.type === "JoinV" && prevLt.child.lhs);
+  expect(result.logical.backing.getByIndex(0)).toStrictEqual(previous.logical.backing.getByIndex(0));
+});
+
+test("Incremental pebble layout reuses the clean prefix", () => {
+  const algo = new PebbleLayout(new PebbleLayoutSettings(4));
+  const previous = algo.layout(tree([atom(10, 10)]));
+  const result = algo.relayout(tree([atom(60, 10)]), previous, 3);
+
+  expect(result.logical.layout[0]).toBe(previous.logical.layout[0]);
+  expect(result.logical.layout[2]).toBe(previous.logical.layout[2]);
+  expect(result.logical.layout[3]).not.toBe(previous.logical.layout[3]);
+});
+
+test("Incremental blocks layout reuses the clean prefix", () => {
+  const algo = new BlocksLayout(new BlocksLayoutSettings());
+  const previous = algo.layout(tree([atom(10, 10)]));
+  const result = algo.relayout(tree([atom(60, 10)]), previous, 3);
+
+  // The first three lines are positioned once, in the previous layout.
+  const prefix = (lt: typeof result.logical.layoutTree) => lt.type === "Wrap" && lt.child.type === "JoinV" && lt.child.lhs;
+  expect(prefix(result.logical.layoutTree)).toBe(prefix(previous.logical.layoutTree));
+});
+
+test("Incremental S-Blocks layout reuses the clean prefix", () => {
+  const algo = new SBlocksLayout(new SBlocksLayoutSettings(4));
+  const previous = algo.layout(tree([atom(10, 10)]));
+  const result = algo.relayout(tree([atom(60, 10)]), previous, 3);
+
+  // The fragments of the first three lines, and the draw commands
+  // of the `Node`s on them, are built once, in the previous layout.
+  const drawCommands = (lt: typeof result.logical.layoutTree) => lt.type === "Node" && lt.children[3].type === "Node" && lt.children[3].drawCommands;
+  expect(drawCommands(result.logical.layoutTree)).toBe(drawCommands(previous.logical.layoutTree));
+  for(let i = 0; i < 4; ++i) {
+    expect(result.logical.fragmentVector[i]).toBe(previous.logical.fragmentVector[i]);
+  }
+  expect(result.logical.fragmentVector[5]).not.toBe(previous.logical.fragmentVector[5]);
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import {
+  JsonValidationError,
+  layoutSnapshotFromJson,
+  layoutSnapshotToJson,
+  layoutTreeFromJson,
+  layoutTreeToJson,
+  snapshotLayout,
+  validateLayoutTreeDocument
+} from "../src/json";
+import { toSVG } from "../src/render";
+import { LayoutTree, WithIds, WithMeasurements, WithStyleRefs, atom, newline, settings } from "./layout-tree-utils";
+
+const SETTINGS = settings(0);
+
+const inner: LayoutTree<WithIds<WithStyleRefs<WithMeasurements>>> = {
+  type: "Node",
+  padding: 4,
+  verticalAlign: "middle",
+  minWidth: 30,
+  styleRef: "e",
+  children: [atom(10, 10)],
+};
+
+const tree: LayoutTree<WithIds<WithStyleRefs<WithMeasurements>>> = {
+  type: "Node",
+  padding: { horizontal: 2, vertical: 3 },
+  margin: 1,
+  id: "root",
+  sty: {
+    fill: { type: "LinearGradient", angle: 90, stops: [{ offset: 0, color: "red" }, { offset: 1, color: "blue", opacity: 0.5 }] },
+    borders: [{ borderWidth: 1, borderTop: false }],
+    elevation: { dx: 1, dy: 2, blur: 3, color: "black", opacity: 0.2 },
+  },
+  children: [
+    { type: "Atom", text: "ab", rect: { left: 0, right: 20, top: -10, bottom: 2 }, baseline: 0 },
+    { type: "Spacer", text: " ", width: 5 },
+    inner,
+    newline(),
+    atom(10, 10),
+  ],
+};
+
+function errorsOf(json: string) {
+  try {
+    layoutTreeFromJson(json);
+  } catch(e) {
+    expect(e).toBeInstanceOf(JsonValidationError);
+    return (e as JsonValidationError).errors;
+  }
+  return [];
+}
+
+describe("layout trees", () => {
+  test("round trip through JSON", () => {
+    expect(layoutTreeFromJson(layoutTreeToJson(tree))).toEqual(tree);
+  });
+
+  test("are written in a versioned document", () => {
+    expect(JSON.parse(layoutTreeToJson(tree))).toMatchObject({ format: "ragged-blocks/layout-tree", version: 1 });
+    expect(validateLayoutTreeDocument({ format: "ragged-blocks/layout-tree", version: 2, tree })).toEqual([
+      { path: "/version", message: "Expected 1" },
+    ]);
+  });
+
+  test("report the paths of malformed parts", () => {
+    const doc = JSON.parse(layoutTreeToJson(tree));
+    doc.tree.children[0].rect.left = "0";
+    doc.tree.children[2].children[0].type = "Text";
+    doc.tree.children[2].verticalAlign = "center";
+    delete doc.tree.children[1].width;
+    doc.tree.sty.fill.stops[1].offset = null;
+    doc.tree.sty.borders[0].borderColor = "red";
+    doc.tree.margin = "1";
+    expect(errorsOf(JSON.stringify(doc))).toEqual(expect.arrayContaining([
+      { path: "/tree/children/0/rect/left", message: "Expected a number, not string" },
+      { path: "/tree/children/2/children/0/type", message: `Expected one of "Newline", "Atom", "Spacer", "Node"` },
+      { path: "/tree/children/2/verticalAlign", message: `Expected one of "top", "middle", "bottom", "baseline"` },
+      { path: "/tree/children/1", message: `Missing the property "width"` },
+      { path: "/tree/sty/fill/stops/1/offset", message: "Expected a number, not null" },
+      { path: "/tree/sty/borders/0/borderColor", message: `Unexpected property "borderColor"` },
+      { path: "/tree/margin", message: "Doesn't match any of the allowed forms" },
+    ]));
+    expect(errorsOf(JSON.stringify(doc)).length).toBe(7);
+  });
+
+  test("escape their colors when rendered", () => {
+    const hostile = 'red" onload="alert(1)';
+    const json = layoutTreeToJson({
+      type: "Node",
+      padding: 2,
+      sty: { fill: hostile, stroke: hostile, borders: [{ borderStroke: hostile, borderWidth: 1 }] },
+      children: [atom(10, 10)],
+    });
+    const svgOf = (name: AlgorithmName) => toSVG(constructAlgoByName(name)(SETTINGS[name]).layout(layoutTreeFromJson(json)));
+    for(const name of Object.keys(SETTINGS) as AlgorithmName[]) {
+      expect(svgOf(name)).not.toContain(`onload="`);
+      expect(svgOf(name)).toContain(`fill="red&quot; onload=&quot;alert(1)"`);
+    }
+    // Only the outlines of L1S+ have borders.
+    expect(svgOf("L1S+")).toContain(`stroke="red&quot; onload=&quot;alert(1)"`);
+  });
+
+  test("reject the inherited properties of objects", () => {
+    const doc = JSON.parse(layoutTreeToJson(tree));
+    doc.tree.sty = JSON.parse(`{ "constructor": 5, "toString": "x", "__proto__": {} }`);
+    expect(errorsOf(JSON.stringify(doc))).toEqual([
+      { path: "/tree/sty/constructor", message: `Unexpected property "constructor"` },
+      { path: "/tree/sty/toString", message: `Unexpected property "toString"` },
+      { path: "/tree/sty/__proto__", message: `Unexpected property "__proto__"` },
+    ]);
+  });
+
+  test("report malformed JSON", () => {
+    expect(errorsOf("{").length).toBe(1);
+    expect(errorsOf("[]")).toEqual([{ path: "", message: "Expected an object, not array" }]);
+  });
+});
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s snapshots", name => {
+  const result = constructAlgoByName(name)(SETTINGS[name]).layout(tree);
+  const snapshot = snapshotLayout(result);
+
+  test("contain the fragments, outlines and lines of the layout", () => {
+    expect(snapshot.fragments).toEqual(result.fragmentsInfo());
+    expect(snapshot.outlines).toEqual(result.nodeOutlines());
+    expect(snapshot.lines).toEqual(result.linesInfo());
+    expect(snapshot.outlines[0].id).toBe("root");
+  });
+
+  test("round trip through JSON", () => {
+    expect(layoutSnapshotFromJson(layoutSnapshotToJson(snapshot))).toEqual(snapshot);
+  });
+});
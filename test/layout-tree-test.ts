@@ -0,0 +1,43 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { LayoutTree, WithMeasurements, baselineRect, newline, node, settings } from "./layout-tree-utils";
+
+const SETTINGS = settings(4);
+
+/**
+ * An atom whose `rect` has its top at `y = 0`, measured in a font
+ * with the given ascent and descent.
+ */
+function boxAtom(text: string, ascent: number, descent: number): LayoutTree<WithMeasurements> {
+  return { type: "Atom", text, rect: { left: 0, right: 10, top: 0, bottom: ascent + descent }, baseline: ascent };
+}
+
+test("baselineRect puts the baseline of an atom at y = 0", () => {
+  expect(baselineRect({ rect: { left: 0, right: 10, top: 0, bottom: 12 }, baseline: 9 }))
+    .toEqual({ left: 0, right: 10, top: -9, bottom: 3 });
+  expect(baselineRect({ rect: { left: 0, right: 10, top: -8, bottom: 2 } }))
+    .toEqual({ left: 0, right: 10, top: -8, bottom: 2 });
+});
+
+const tree = node([
+  boxAtom("a", 8, 2), boxAtom("B", 16, 4), boxAtom("c", 8, 2), newline(),
+  boxAtom("d", 5, 1), boxAtom("e", 8, 2),
+], 0);
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s", name => {
+  const result = constructAlgoByName(name)(SETTINGS[name]).layout(tree);
+  const fragments = result.fragmentsInfo();
+  const lines = result.linesInfo();
+
+  test("Fragments on a line are aligned by their baselines", () => {
+    const ascents = [8, 16, 8, 5, 8];
+    fragments.forEach((frag, i) => {
+      expect(frag.baseline).toBeCloseTo(lines[frag.lineNo].baseline);
+      expect(frag.rect.top + ascents[i]).toBeCloseTo(frag.baseline);
+    });
+  });
+
+  test("Lines don't overlap", () => {
+    expect(lines[1].top).toBeGreaterThanOrEqual(lines[0].bottom);
+  });
+});
@@ -1,4 +1,13 @@
-import { LayoutTree, WithMeasurements } from "../src/layout-tree";
+import { expect } from "@jest/globals";
+import { AlgorithmName, Settings } from "../src";
+import { BlocksLayoutSettings } from "../src/blocks-layout/layout";
+import { HitTest, LayoutTree, NodePath, WithMeasurements } from "../src/layout-tree";
+import { PebbleLayoutSettings } from "../src/pebble-layout/layout";
+import { PolygonRendering } from "../src/polygon";
+import { Rect } from "../src/rect";
+import { OutlinedRocksLayoutSettings, RocksLayoutSettings } from "../src/rocks-layout/layout";
+import { SBlocksLayoutSettings } from "../src/s-blocks-layout/layout";
+import { WritingDirection } from "../src/writing-direction";
 export * from "../src/layout-tree";
 
 export function rect(w: number, h: number) {
@@ -9,6 +18,14 @@ export function atom(w: number, h: number): LayoutTree<WithMeasurements> {
   return { type: "Atom", rect: rect(w, h), text: "" };
 }
 
+/**
+ * An atom measured as text would be: 10 wide per character, and 10
+ * tall, standing on its baseline at `y = 0`.
+ */
+export function textAtom(text: string): LayoutTree<WithMeasurements> {
+  return { type: "Atom", text, rect: { left: 0, right: 10 * text.length, top: -10, bottom: 0 } };
+}
+
 export function spacer(w: number): LayoutTree<WithMeasurements> {
   return { type: "Spacer", width: w, text: "" };
 }
@@ -21,3 +38,22 @@ export function node(children: LayoutTree<WithMeasurements>[], padding?: number,
   padding = padding ?? 10;
   return { type: "Node", children, padding, sty: { fill: fill ?? "gray" } };
 }
+
+export function settings(idealLeading: number, maxWidth?: number, direction?: WritingDirection): { [A in AlgorithmName]: Settings<A> } {
+  return {
+    "L1P": new PebbleLayoutSettings(idealLeading, maxWidth, direction),
+    "L1S": new RocksLayoutSettings(idealLeading, maxWidth, direction),
+    "L1S+": new OutlinedRocksLayoutSettings(idealLeading, true, maxWidth, direction),
+    "Blocks": new BlocksLayoutSettings(maxWidth, direction),
+    "S-Blocks": new SBlocksLayoutSettings(idealLeading, maxWidth, direction),
+  };
+}
+
+/**
+ * The bounding box of the outline of the `Node` at `path` in `result`.
+ */
+export function boundingBoxOf(result: HitTest, path: NodePath): Rect {
+  const outline = result.outlineOf(path);
+  expect(outline).not.toBeNull();
+  return new PolygonRendering(outline!).boundingBox()!;
+}
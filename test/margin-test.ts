@@ -0,0 +1,43 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { inflate } from "../src/rect";
+import { LayoutTree, Padding, WithMeasurements, atom, boundingBoxOf, newline, node, settings } from "./layout-tree-utils";
+
+const SETTINGS = settings(0);
+
+function nodeWithMargin(margin: Padding, children: LayoutTree<WithMeasurements>[]): LayoutTree<WithMeasurements> {
+  return { type: "Node", children, padding: 2, margin };
+}
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s", name => {
+  const layout = (tree: LayoutTree<WithMeasurements>) => constructAlgoByName(name)(SETTINGS[name]).layout(tree);
+
+  test("keeps the margins between siblings on a line", () => {
+    const result = layout(node([
+      nodeWithMargin(5, [atom(10, 10)]),
+      nodeWithMargin(3, [atom(10, 10)]),
+    ], 0));
+
+    const lhs = boundingBoxOf(result, [0]);
+    const rhs = boundingBoxOf(result, [1]);
+    expect(rhs.left - lhs.right).toBeCloseTo(8);
+  });
+
+  test("keeps the margins between siblings on adjacent lines", () => {
+    const result = layout(node([
+      nodeWithMargin({ horizontal: 0, vertical: 5 }, [atom(10, 10)]),
+      newline(),
+      nodeWithMargin({ top: 3, right: 0, bottom: 0, left: 0 }, [atom(10, 10)]),
+    ], 0));
+
+    const above = boundingBoxOf(result, [0]);
+    const below = boundingBoxOf(result, [2]);
+    expect(below.top - above.bottom).toBeCloseTo(8);
+  });
+
+  test("doesn't fill the margin", () => {
+    const result = layout(node([atom(10, 10), nodeWithMargin(5, [atom(10, 10)])], 0));
+    const [_, frag] = result.fragmentsInfo();
+    expect(boundingBoxOf(result, [1])).toEqual(inflate(frag.rect, 2));
+  });
+});
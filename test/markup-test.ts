@@ -0,0 +1,149 @@
+import { describe, expect, test } from "@jest/globals";
+import { LayoutTree, WithStyleRefs } from "../src/layout-tree";
+import { Markup, parseMarkup, printMarkup } from "../src/markup";
+import { ParseError } from "../src/style";
+
+const EXAMPLE = `
+const [abs]@nm = [([x]@nm) =>
+  [[[x]@nm < 0]@e ? [-[x]@nm]@e
+	: [[x]@nm]@e]@e]@e
+
+@nm {
+  fill: #FAFA37;
+  border: 0 2;
+}
+
+@e {
+  padding: 2;
+  fill: rgba(100 150 200 0.3);
+  border: 0.7 2 #D27D46;
+  border: 0.7 1.3 -0.7 #FFCBA4 top right;
+}`;
+
+function errorOf(text: string): [number, number, string] | null {
+  try {
+    parseMarkup(text);
+  } catch(e) {
+    expect(e).toBeInstanceOf(ParseError);
+    const { line, column, message } = e as ParseError;
+    return [line, column, message];
+  }
+  return null;
+}
+
+describe("parseMarkup", () => {
+  test("parses Nodes, Newlines and Spacers", () => {
+    const { tree } = parseMarkup("a [b]@s\n  [c \\[d\\]]");
+    expect(tree).toEqual({
+      type: "Node",
+      padding: 0,
+      children: [
+        { type: "Atom", text: "a " },
+        { type: "Node", padding: 0, styleRef: "s", children: [{ type: "Atom", text: "b" }] },
+        { type: "Newline" },
+        { type: "Spacer", text: "  " },
+        { type: "Node", padding: 0, children: [{ type: "Atom", text: "c [d]" }] },
+      ],
+    });
+  });
+
+  test("applies style definitions to Nodes", () => {
+    const { tree } = parseMarkup(EXAMPLE);
+    const abs = tree.children[2];
+    expect(abs).toEqual({
+      type: "Node",
+      padding: 0,
+      styleRef: "nm",
+      sty: { fill: "#FAFA37", borders: [{ borderWidth: 0, borderRadius: 2 }] },
+      children: [{ type: "Atom", text: "abs" }],
+    });
+    expect(tree.children[tree.children.length - 1]).toMatchObject({ type: "Node", padding: 2, styleRef: "e" });
+  });
+
+  test("merges inherited style definitions", () => {
+    const { tree } = parseMarkup("[x]@c\n\n@a { padding: 1; fill: red; border: 1; }\n@b { fill: blue; }\n@c : @a, @b { border: 2; }");
+    expect(tree.children[0]).toMatchObject({
+      padding: 1,
+      sty: { fill: "blue", borders: [{ borderWidth: 2 }, { borderWidth: 1 }] },
+    });
+  });
+
+  test("leaves Nodes which refer to undefined styles unstyled", () => {
+    const { tree } = parseMarkup("[x]@missing");
+    expect(tree.children[0]).toEqual({ type: "Node", padding: 0, styleRef: "missing", children: [{ type: "Atom", text: "x" }] });
+  });
+
+  test("reports the locations of errors", () => {
+    expect(errorOf("a [b\n[c]")).toEqual([1, 3, "1:3: Unclosed \"[\""]);
+    expect(errorOf("a]")).toEqual([1, 2, "1:2: Unexpected \"]\""]);
+    expect(errorOf("a # b")?.slice(0, 2)).toEqual([1, 3]);
+    expect(errorOf("x\n\n@s {\n  fill red;\n}")?.slice(0, 2)).toEqual([4, 8]);
+    expect(errorOf("@s : @t {}")?.slice(0, 2)).toEqual([1, 6]);
+    expect(errorOf("@s : @t {}\n@t : @s {}")?.slice(0, 2)).toEqual([1, 1]);
+    expect(errorOf("@s {}\n@s {}")?.slice(0, 2)).toEqual([2, 1]);
+  });
+});
+
+describe("printMarkup", () => {
+  const roundTrip = (markup: Markup): Markup => parseMarkup(printMarkup(markup.tree, markup.styles));
+
+  test("prints text which parses into the same tree and styles", () => {
+    const markup = parseMarkup(EXAMPLE);
+    expect(roundTrip(markup)).toEqual(markup);
+  });
+
+  test("escapes special characters", () => {
+    const markup = parseMarkup("[\\[\\]\\@\\#\\\\]@s \\");
+    expect(printMarkup(markup.tree)).toBe("[\\[\\]\\@\\#\\\\]@s \\\\");
+    expect(roundTrip(markup)).toEqual(markup);
+  });
+
+  test("prints inheritance between style definitions", () => {
+    const markup = parseMarkup("[x]@b\n@a { fill: red; }\n@b : @a { border: 1 2 3 black top; }");
+    expect(printMarkup(markup.tree, markup.styles)).toBe([
+      "[x]@b",
+      "",
+      "@a {",
+      "  fill: red;",
+      "}",
+      "",
+      "@b : @a {",
+      "  border: 1 2 3 black top;",
+      "}",
+      "",
+    ].join("\n"));
+    expect(roundTrip(markup)).toEqual(markup);
+  });
+
+  test("prints the definitions of an empty tree", () => {
+    const markup = parseMarkup("@s { fill: red; }");
+    expect(markup.tree.children).toEqual([]);
+    expect(roundTrip(markup)).toEqual(markup);
+  });
+
+  test("loses the Newlines at the end of a tree with style definitions", () => {
+    const styles = parseMarkup("@s { fill: red; }").styles;
+    const children: LayoutTree<WithStyleRefs>[] = [
+      { type: "Atom", text: "a" },
+      { type: "Newline" },
+      { type: "Node", padding: 0, styleRef: "s", children: [{ type: "Atom", text: "b" }] },
+      { type: "Newline" },
+    ];
+    const tree: LayoutTree<WithStyleRefs> = { type: "Node", padding: 0, children };
+    expect(parseMarkup(printMarkup(tree)).tree.children).toHaveLength(4);
+    expect(parseMarkup(printMarkup(tree, styles)).tree.children).toHaveLength(3);
+  });
+
+  test("rejects style references followed by name characters", () => {
+    const tree: LayoutTree<WithStyleRefs> = {
+      type: "Node",
+      padding: 0,
+      children: [
+        { type: "Node", padding: 0, styleRef: "s", children: [] },
+        { type: "Atom", text: "x" },
+      ],
+    };
+    expect(() => printMarkup(tree)).toThrow(`The style reference "s" can't be followed by a name character`);
+    expect(printMarkup({ ...tree, children: [tree.children[0], { type: "Atom", text: " x" }] })).toBe("[]@s x");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { Rect, height, inflate, width } from "../src/rect";
+import { WritingDirection } from "../src/writing-direction";
+import { LayoutTree, WithMeasurements, atom, boundingBoxOf, node, settings, textAtom } from "./layout-tree-utils";
+
+function sizedNode(minWidth: number, minHeight: number, children: LayoutTree<WithMeasurements>[]): LayoutTree<WithMeasurements> {
+  return { type: "Node", children, padding: 2, minWidth, minHeight };
+}
+
+describe.each(["LTR", "TTB"] as WritingDirection[])("%s", direction => {
+  const all = settings(0, undefined, direction);
+
+  describe.each(Object.keys(all) as AlgorithmName[])("%s", name => {
+    const layout = (tree: LayoutTree<WithMeasurements>) => constructAlgoByName(name)(all[name]).layout(tree);
+
+    const expectRectCloseTo = (r: Rect, expected: Rect) => {
+      expect(r.left).toBeCloseTo(expected.left);
+      expect(r.right).toBeCloseTo(expected.right);
+      expect(r.top).toBeCloseTo(expected.top);
+      expect(r.bottom).toBeCloseTo(expected.bottom);
+    };
+
+    test("gives an empty Node its minimum size", () => {
+      const result = layout(node([textAtom("a"), sizedNode(20, 10, []), textAtom("a")], 0));
+      const bbox = boundingBoxOf(result, [1]);
+      expect(width(bbox)).toBeCloseTo(24);
+      expect(height(bbox)).toBeCloseTo(14);
+    });
+
+    test("doesn't report struts as fragments", () => {
+      const result = layout(node([textAtom("a"), sizedNode(20, 10, []), textAtom("a")], 0));
+      expect(result.fragmentsInfo()).toHaveLength(2);
+    });
+
+    test("doesn't change a Node which is already large enough", () => {
+      const result = layout(node([sizedNode(20, 10, [atom(30, 30)])], 0));
+      const [frag] = result.fragmentsInfo();
+      expectRectCloseTo(boundingBoxOf(result, [0]), inflate(frag.rect, 2));
+    });
+  });
+});
+
+describe.each(Object.keys(settings(0)) as AlgorithmName[])("%s", name => {
+  test("extends narrow content at its end, and equally above and below", () => {
+    const result = constructAlgoByName(name)(settings(0)[name]).layout(node([sizedNode(20, 20, [atom(10, 10)])], 0));
+    const [frag] = result.fragmentsInfo();
+    const bbox = boundingBoxOf(result, [0]);
+    expect(bbox.left).toBeCloseTo(frag.rect.left - 2);
+    expect(bbox.right).toBeCloseTo(frag.rect.left + 22);
+    expect(bbox.top).toBeCloseTo(frag.rect.top - 7);
+    expect(bbox.bottom).toBeCloseTo(frag.rect.bottom + 7);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { Sides, inflate } from "../src/rect";
+import { WritingDirection } from "../src/writing-direction";
+import { LayoutTree, Padding, WithMeasurements, atom, boundingBoxOf, paddingSides, settings } from "./layout-tree-utils";
+
+function paddedNode(padding: Padding, children: LayoutTree<WithMeasurements>[]): LayoutTree<WithMeasurements> {
+  return { type: "Node", children, padding };
+}
+
+const INNER: Sides = { top: 1, right: 2, bottom: 3, left: 4 };
+
+const tree = paddedNode({ horizontal: 6, vertical: 1 }, [
+  atom(10, 10),
+  paddedNode(INNER, [atom(10, 10)]),
+]);
+
+test("paddingSides expands each form of padding", () => {
+  expect(paddingSides(3)).toEqual({ top: 3, right: 3, bottom: 3, left: 3 });
+  expect(paddingSides({ horizontal: 4, vertical: 1 })).toEqual({ top: 1, right: 4, bottom: 1, left: 4 });
+  expect(paddingSides(INNER)).toEqual(INNER);
+});
+
+describe.each(["LTR", "RTL", "TTB"] as WritingDirection[])("%s", direction => {
+  const all = settings(0, undefined, direction);
+
+  describe.each(Object.keys(all) as AlgorithmName[])("%s", name => {
+    const result = constructAlgoByName(name)(all[name]).layout(tree);
+    const [_, innerFrag] = result.fragmentsInfo();
+
+    test("pads each physical side of a Node by its own amount", () => {
+      expect(boundingBoxOf(result, [1])).toEqual(inflate(innerFrag.rect, INNER));
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { expect, test } from "@jest/globals";
+import { PdfTarget, toPDF } from "../src/pdf";
+import { PolygonRendering, pathOfRect } from "../src/polygon";
+
+function decode(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+test("toPDF produces a well-formed document", () => {
+  const pgon = new PolygonRendering([pathOfRect({ left: 0, top: 0, right: 100, bottom: 50 })]);
+  const pdf = decode(toPDF(pgon));
+
+  expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+  expect(pdf).toContain("/MediaBox [0 0 100 50]");
+  expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+  // Every offset in the cross-reference table points at its object.
+  const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+  expect(pdf.slice(xref, xref + 4)).toEqual("xref");
+  const entries = pdf.slice(xref).match(/\d{10} 00000 n/g)!;
+  entries.forEach((entry, i) => {
+    const offset = Number(entry.slice(0, 10));
+    expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+  });
+});
+
+test("PdfTarget flips the y-axis and paints elements", () => {
+  const target = new PdfTarget();
+  target.rect(10, 10).move(0, 0).fill("#ff0000").stroke("none");
+  target.line(0, 0, 10, 10).stroke("blue");
+  target.text("(a)").font("monospace", 12).move(0, 10);
+  target.viewbox({ left: 0, top: 0, right: 20, bottom: 20 });
+  const pdf = decode(target.build());
+
+  expect(pdf).toContain("1 0 0 -1 0 20 cm");
+  expect(pdf).toContain("0 0 10 10 re\n1 0 0 rg\nf");
+  expect(pdf).toContain("0 0 m 10 10 l\n0 0 1 RG\n1 w\nS");
+  expect(pdf).toContain("BT /F2 12 Tf 1 0 0 -1 0 10 Tm (\\(a\\)) Tj ET");
+});
+
+test("PdfTarget sets fill opacities and dash patterns", () => {
+  const target = new PdfTarget();
+  target.rect(10, 10).fill("red").fillOpacity(0.5);
+  target.rect(10, 10).fill("blue").fillOpacity(0.5);
+  target.line(0, 0, 10, 10).stroke("black").strokeDasharray([2, 1]);
+  target.viewbox({ left: 0, top: 0, right: 20, bottom: 20 });
+  const pdf = decode(target.build());
+
+  expect(pdf).toContain("q /GS0 gs\n0 0 10 10 re\n1 0 0 rg\nf\nQ");
+  expect(pdf).not.toContain("/GS1");
+  expect(pdf).toContain("/ExtGState << /GS0 << /ca 0.5 >> >>");
+  expect(pdf).toContain("[2 1] 0 d\nS\n[] 0 d");
+});
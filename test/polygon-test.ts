@@ -436,6 +436,27 @@ test("Can offset a square", () => {
   expect(offset).toStrictEqual(expectation);
 });
 
+test("Can offset each side of a square by a different amount", () => {
+  const path = [
+    p( 0,  0),
+    p( 0, 10),
+    p(10, 10),
+    p(10,  0),
+  ];
+
+  const expectation = [
+    p(4, 7),
+    p(8, 7),
+    p(8, 1),
+    p(4, 1),
+  ];
+
+  const offset = offsetPath({ top: -1, right: -2, bottom: -3, left: -4 }, path);
+
+  expect(isPathCCW(offset)).toBeTruthy();
+  expect(offset).toStrictEqual(expectation);
+});
+
 test("Can offset a polygon with a clockwise turn", () => {
   //
   //     +---+ <--- 0
@@ -158,3 +158,22 @@ test("Can reassoc trailing Newlines", () => {
     )
   );
 });
+
+test("Preserves Node ids", () => {
+  const t: alt.LayoutTree<alt.WithIds> = {
+    type: "Node",
+    padding: 4,
+    id: "outer",
+    children: [
+      aatom(),
+      { type: "Node", padding: 4, id: "inner", children: [aatom()] },
+    ],
+  };
+
+  expect(reassocLayoutTree(t, empty)).toStrictEqual({
+    ...wrap(
+      joinh(ratom(), { ...wrap(ratom()), id: "inner" })
+    ),
+    id: "outer",
+  });
+});
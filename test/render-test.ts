@@ -0,0 +1,154 @@
+import { expect, test } from "@jest/globals";
+import BlocksLayout, { BlocksLayoutSettings } from "../src/blocks-layout/layout";
+import { DEFAULT_ELEVATION, LinearGradient, SVGStyle, Svg, TextRendering, isIdPrefix, renderTo, toSVG } from "../src/render";
+import { LayoutTree, WithMeasurements, node } from "./layout-tree-utils";
+
+function textAtom(text: string): LayoutTree<WithMeasurements> {
+  return { type: "Atom", text, rect: { left: 0, right: 10 * text.length, top: -15, bottom: 5 } };
+}
+
+test("TextRendering places text on the measured baseline", () => {
+  const tree = node([textAtom("a<b"), textAtom("c")], 0);
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(new TextRendering(result, tree, { fontFamily: "Inconsolata", fontSize: 20 }));
+
+  expect(svg).toContain("<text x=\"0\" y=\"0\" style=\"font-family:Inconsolata;font-size: 20px;white-space: pre\" fill=\"black\">a&lt;b</text>");
+  expect(svg).toContain("<text x=\"30\" y=\"0\"");
+});
+
+test("TextRendering can color each atom", () => {
+  const tree = node([textAtom("a"), textAtom("b")], 0);
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const colors = ["red", "blue"];
+  const svg = toSVG(new TextRendering(result, tree, { color: (_atom, i) => colors[i] }));
+
+  expect(svg).toContain("fill=\"red\">a</text>");
+  expect(svg).toContain("fill=\"blue\">b</text>");
+});
+
+test("Node class names and attributes are emitted on outlines", () => {
+  const tree = { ...node([textAtom("a")], 2), sty: { classNames: ["keyword", "block"], attributes: { "stroke-linejoin": "round" } } };
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(result);
+
+  expect(svg).toMatch(/<path [^>]*class="keyword block" stroke-linejoin="round" \/>/);
+});
+
+test("Invalid attribute names are rejected", () => {
+  const tree = { ...node([textAtom("a")], 2), sty: { attributes: { "onload=\"x\"": "y" } } };
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+
+  expect(() => toSVG(result)).toThrow();
+});
+
+test("TextRendering can add class names to each atom", () => {
+  const tree = node([textAtom("a"), textAtom("b")], 0);
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(new TextRendering(result, tree, { classNames: (atom, _i) => [`tok-${atom.text}`] }));
+
+  expect(svg).toContain("class=\"tok-a\">a</text>");
+  expect(svg).toContain("class=\"tok-b\">b</text>");
+});
+
+test("A stylesheet can be embedded", () => {
+  const tree = node([textAtom("a")], 0);
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(result, 0, false, ".block { fill: black } /* ]]> */");
+
+  expect(svg).toContain("<style><![CDATA[.block { fill: black } /* ]]]]><![CDATA[> */]]></style>");
+});
+
+function styledNode(children: LayoutTree<WithMeasurements>[], sty: Partial<SVGStyle>): LayoutTree<WithMeasurements> {
+  return { type: "Node", children, padding: 2, sty };
+}
+
+const GRADIENT: LinearGradient = {
+  type: "LinearGradient",
+  angle: 90,
+  stops: [{ offset: 0, color: "white" }, { offset: 1, color: "gray", opacity: 0.5 }]
+};
+
+test("Gradient fills are defined once and referenced by id", () => {
+  // Structurally equal paints share a definition.
+  const tree = styledNode([styledNode([textAtom("a")], { fill: GRADIENT })], { fill: { ...GRADIENT } });
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(result);
+
+  expect(svg).toContain("<defs><linearGradient id=\"rb-paint-0\" x1=\"0.5\" y1=\"0\" x2=\"0.5\" y2=\"1\">"
+    + "<stop offset=\"0\" stop-color=\"white\" /><stop offset=\"1\" stop-color=\"gray\" stop-opacity=\"0.5\" />"
+    + "</linearGradient></defs>");
+  expect(svg).not.toContain("rb-paint-1");
+  expect(svg.match(/fill="url\(#rb-paint-0\)"/g)?.length).toBe(2);
+});
+
+test("The paint id prefix can be changed", () => {
+  const tree = { ...node([textAtom("a")], 2), sty: { fill: GRADIENT } };
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const target = renderTo(new Svg(), result);
+  target.idPrefix("doc1");
+
+  expect(target.build()).toContain("fill=\"url(#doc1-paint-0)\"");
+});
+
+test("toSVG takes the paint id prefix", () => {
+  const tree = { ...node([textAtom("a")], 2), sty: { fill: GRADIENT } };
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+
+  expect(toSVG(result, 0, false, undefined, "doc2")).toContain("fill=\"url(#doc2-paint-0)\"");
+  expect(toSVG(result)).toContain("fill=\"url(#rb-paint-0)\"");
+});
+
+test("Id prefixes must be XML names", () => {
+  expect(isIdPrefix("doc-1.a_b")).toBe(true);
+  expect(isIdPrefix("_x")).toBe(true);
+  expect(isIdPrefix("")).toBe(false);
+  expect(isIdPrefix("1doc")).toBe(false);
+  expect(isIdPrefix("a:b")).toBe(false);
+  expect(isIdPrefix("x\" onload=\"y")).toBe(false);
+  expect(() => new Svg().idPrefix("a b")).toThrow("\"a b\" is not a valid id prefix");
+});
+
+test("Hatch patterns, fill opacity and dashed borders are emitted", () => {
+  const tree = {
+    ...node([textAtom("a")], 2),
+    sty: {
+      fill: { type: "HatchPattern" as const, color: "red", background: "white", spacing: 4, angle: 45, lineWidth: 1 },
+      fillOpacity: 0.25,
+      borders: [{ borderStroke: "black", borderWidth: 1, borderRadius: 0, borderDasharray: [3, 1] }]
+    }
+  };
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(result);
+
+  expect(svg).toContain("<pattern id=\"rb-paint-0\" patternUnits=\"userSpaceOnUse\" width=\"4\" height=\"4\" patternTransform=\"rotate(45)\">");
+  expect(svg).toContain("fill=\"url(#rb-paint-0)\" fill-opacity=\"0.25\"");
+  expect(svg).toContain("stroke-dasharray=\"3 1\"");
+});
+
+test("Elevation draws a blurred shadow offset by nesting depth", () => {
+  const tree = styledNode([styledNode([textAtom("a")], { fill: "white" })], { fill: "white" });
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(result.withStyles({ elevation: { ...DEFAULT_ELEVATION, dx: 1, dy: 2 } }));
+
+  // One filter is shared by both shadows.
+  expect(svg).toContain("<defs><filter id=\"rb-blur-0\" x=\"-50%\" y=\"-50%\" width=\"200%\" height=\"200%\">"
+    + "<feGaussianBlur stdDeviation=\"1.5\" /></filter></defs>");
+  const shadows = [...svg.matchAll(/<path d="([^"]*)" fill="black" fill-opacity="0.3" filter="url\(#rb-blur-0\)" \/>/g)];
+  expect(shadows.map(m => m[1])).toEqual([
+    // The outer node spans (0, -15) to (18, 13), and is offset by (1, 2).
+    "M 1 15 L 19 15 L 19 -13 L 1 -13 L 1 15 Z",
+    // The inner node spans (2, -13) to (16, 11), and is offset by (2, 4).
+    "M 4 15 L 18 15 L 18 -9 L 4 -9 L 4 15 Z",
+  ]);
+  // Each shadow is drawn beneath the fill of its node.
+  expect(svg.indexOf(shadows[1][0])).toBeLessThan(svg.indexOf("<path d=\"M 2 11"));
+  expect(svg.indexOf(shadows[1][0])).toBeGreaterThan(svg.indexOf("<path d=\"M 0 13"));
+});
+
+test("Shadows keep the rounded corners of their node", () => {
+  const tree = styledNode([textAtom("a")], { fill: "white", borders: [{ borderRadius: 3, borderStroke: "black" }] });
+  const result = new BlocksLayout(new BlocksLayoutSettings()).layout(tree);
+  const svg = toSVG(result.withStyles({ elevation: DEFAULT_ELEVATION }));
+
+  expect(svg).toMatch(/<path d="[^"]*A 3 3 [^"]*" fill="black" fill-opacity="0.3" filter="url\(#rb-blur-0\)" \/>/);
+});
@@ -1,6 +1,7 @@
 import { expect, test } from "@jest/globals";
 import { LayoutTree, JoinV, JoinH, Wrap, Atom, Spacer } from "../../src/reassoc/layout-tree";
 import { Timetable } from "../../src/rocks-layout/timetable";
+import { uniformSides } from "../../src/rect";
 
 function joinv(lhs: LayoutTree, rhs: LayoutTree): JoinV {
   return { type: "JoinV", lhs, rhs };
@@ -31,7 +32,7 @@ test("Can get spaceBetween two unwrapped rectangles.", () => {
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([0, 0]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(0), uniformSides(0)]);
 });
 
 test("Can get spaceBetween two mutually wrapped rectangles.", () => {
@@ -43,7 +44,7 @@ test("Can get spaceBetween two mutually wrapped rectangles.", () => {
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([0, 0]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(0), uniformSides(0)]);
 });
 
 test("Can get spaceBetween one wrapped and one unwrapped rectangle.", () => {
@@ -55,7 +56,7 @@ test("Can get spaceBetween one wrapped and one unwrapped rectangle.", () => {
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([0, 4]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(0), uniformSides(4)]);
 });
 
 test("Can get spaceBetween one multiply wrapped and one unwrapped rectangle.", () => {
@@ -67,7 +68,7 @@ test("Can get spaceBetween one multiply wrapped and one unwrapped rectangle.", (
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([0, 8]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(0), uniformSides(8)]);
 });
 
 test("Can get spaceBetween two multiply wrapped rectangles.", () => {
@@ -79,7 +80,7 @@ test("Can get spaceBetween two multiply wrapped rectangles.", () => {
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([4, 8]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(4), uniformSides(8)]);
 });
 
 test("Can get spaceBetween two multiply wrapped rectangles with some common wraps.", () => {
@@ -91,7 +92,21 @@ test("Can get spaceBetween two multiply wrapped rectangles with some common wrap
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([4, 8]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(4), uniformSides(8)]);
+});
+
+test("Can get spaceBetween rectangles wrapped with different padding on each side.", () => {
+  const padded: Wrap = { type: "Wrap", child: atom(), padding: { top: 1, right: 2, bottom: 3, left: 4 } };
+  const t = joinv(wrap(atom()), wrap(padded));
+
+  const [tt, _] = Timetable.fromLayoutTree(t);
+  const refs = [...tt.enumerateIndices()];
+
+  expect(refs.length).toBe(2);
+
+  const [a, b] = refs;
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(4), { top: 5, right: 6, bottom: 7, left: 8 }]);
+  expect(tt.getMaxPadding(b)).toBe(8);
 });
 
 test("Get get spaceBetween a wrapped rectangle and a spacer.", () => {
@@ -103,7 +118,7 @@ test("Get get spaceBetween a wrapped rectangle and a spacer.", () => {
   expect(refs.length).toBe(2);
 
   const [a, b] = refs;
-  expect(tt.spaceBetween(a, b)).toStrictEqual([0, 0]);
+  expect(tt.spaceBetween(a, b)).toStrictEqual([uniformSides(0), uniformSides(0)]);
 });
 
 test("Can get the maximum padding of an unwrapped rectangle.", () => {
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "@jest/globals";
+import { LayoutTree, Node, WithStyleRefs } from "../src/layout-tree";
+import { StyleSheet, SyntaxContext } from "../src/selectors";
+import { ParseError, Style, mergeStyles } from "../src/style";
+import { SyntaxNode, fromTreeSitter } from "../src/tree-sitter";
+
+function syntaxNode(type: string, children: SyntaxNode[] = []): SyntaxNode {
+  return { type, text: type, children };
+}
+
+// call(args("(", x, ",", y, ")"))
+const ARGS = syntaxNode("arguments", ["(", "identifier", ",", "identifier", ")"].map(type => syntaxNode(type)));
+const CALL = syntaxNode("call", [syntaxNode("identifier"), ARGS]);
+const PROGRAM = syntaxNode("program", [CALL]);
+
+const ROOT_CTX: SyntaxContext = { node: PROGRAM, parent: null, index: 0, depth: 0 };
+const CALL_CTX: SyntaxContext = { node: CALL, parent: ROOT_CTX, index: 0, depth: 1 };
+const ARGS_CTX: SyntaxContext = { node: ARGS, parent: CALL_CTX, index: 1, depth: 2 };
+const argCtx = (index: number): SyntaxContext => ({ node: ARGS.children[index], parent: ARGS_CTX, index, depth: 3 });
+
+test("mergeStyles combines borders, and prefers the other properties of its source", () => {
+  let dst: Style = { fill: "red", padding: 1, borders: [{ borderWidth: 1 }] };
+  mergeStyles(dst, { fill: "blue", borders: [{ borderWidth: 2 }] });
+  expect(dst).toEqual({ fill: "blue", padding: 1, borders: [{ borderWidth: 2 }, { borderWidth: 1 }] });
+
+  mergeStyles(dst, { stroke: "black" });
+  expect(dst.borders).toHaveLength(2);
+});
+
+describe("StyleSheet", () => {
+  test("parses style attributes", () => {
+    const sheet = StyleSheet.parse(`
+      call {
+        padding: 2;
+        fill: rgba(1 2 3 0.5);
+        stroke: #abc;
+        border: 1 4 red top left; /* A comment */
+        border: 2;
+      }
+    `);
+    expect(sheet.ruleFor(CALL_CTX)).toEqual({
+      padding: 2,
+      sty: {
+        fill: "rgba(1,2,3,0.5)",
+        stroke: "#abc",
+        borders: [
+          { borderWidth: 2 },
+          {
+            borderWidth: 1,
+            borderRadius: 4,
+            borderStroke: "red",
+            borderTop: true,
+            borderBottom: false,
+            borderLeft: true,
+            borderRight: false,
+          },
+        ],
+      },
+    });
+  });
+
+  test("matches child and descendant combinators", () => {
+    const sheet = StyleSheet.parse(`
+      call > identifier { fill: red; }
+      program identifier { stroke: blue; }
+    `);
+    expect(sheet.ruleFor({ node: CALL.children[0], parent: CALL_CTX, index: 0, depth: 2 }).sty)
+      .toEqual({ fill: "red", stroke: "blue" });
+    expect(sheet.ruleFor(argCtx(1)).sty).toEqual({ stroke: "blue" });
+  });
+
+  test("matches pseudo-classes and quoted types", () => {
+    const sheet = StyleSheet.parse(`
+      arguments > :nth-child(2n + 1) { padding: 1; }
+      arguments > :first-child, arguments > :last-child { wrap: false; }
+      "," { collapse: true; }
+      *:depth(2) { fill: white; }
+    `);
+    expect(sheet.ruleFor(argCtx(0))).toEqual({ padding: 1, wrap: false });
+    expect(sheet.ruleFor(argCtx(1))).toEqual({});
+    expect(sheet.ruleFor(argCtx(2))).toEqual({ padding: 1, collapse: true });
+    expect(sheet.ruleFor(argCtx(4))).toEqual({ padding: 1, wrap: false });
+    expect(sheet.ruleFor(ARGS_CTX)).toEqual({ sty: { fill: "white" } });
+  });
+
+  test("prefers more specific rules, then later rules", () => {
+    const sheet = StyleSheet.parse(`
+      call identifier:first-child { fill: red; }
+      identifier { fill: blue; padding: 1; }
+      identifier { padding: 2; }
+    `);
+    const ctx: SyntaxContext = { node: CALL.children[0], parent: CALL_CTX, index: 0, depth: 2 };
+    expect(sheet.ruleFor(ctx)).toEqual({ padding: 2, sty: { fill: "red" } });
+  });
+
+  test("reports the location of errors", () => {
+    const parse = (text: string) => {
+      try {
+        StyleSheet.parse(text);
+      } catch(e) {
+        expect(e).toBeInstanceOf(ParseError);
+        const { line, column } = e as ParseError;
+        return [line, column];
+      }
+      return null;
+    };
+
+    expect(parse("call {\n  fil: red;\n}")).toEqual([2, 3]);
+    expect(parse("call:nth(2) {}")).toEqual([1, 6]);
+    expect(parse("call { padding: 1 }")).toEqual([1, 19]);
+    expect(parse("call { wrap: maybe; }")).toEqual([1, 14]);
+  });
+
+  test("rejects unknown border sides", () => {
+    expect(() => StyleSheet.parse("call { border: 1 red toString; }")).toThrow(`Unknown side "toString"`);
+    expect(() => StyleSheet.parse("call { border: 1 top constructor; }")).toThrow(`Unknown side "constructor"`);
+  });
+});
+
+test("fromTreeSitter applies a style sheet", () => {
+  const source = "identifier(identifier,identifier)";
+  const leaf = (type: string, text: string = type): SyntaxNode => ({ type, text, children: [] });
+  const args = { type: "arguments", text: "(identifier,identifier)", children: [
+    leaf("("), leaf("identifier"), leaf(","), leaf("identifier"), leaf(")"),
+  ] };
+  const call = { type: "call", text: source, children: [leaf("identifier"), args] };
+
+  const tree = fromTreeSitter({ rootNode: call }, source, {
+    sheet: StyleSheet.parse(`
+      call > arguments { padding: 2; fill: #eef; }
+      arguments > identifier:nth-child(4) { wrap: true; padding: 0; }
+    `),
+  });
+
+  const node = (tree: LayoutTree<WithStyleRefs>): Node<WithStyleRefs> => {
+    expect(tree.type).toBe("Node");
+    return tree as Node<WithStyleRefs>;
+  };
+  const argsNode = node(node(tree).children[1]);
+  expect(argsNode.padding).toBe(2);
+  expect(argsNode.sty).toEqual({ fill: "#eef" });
+  expect(argsNode.children.map(child => child.type)).toEqual(["Atom", "Atom", "Atom", "Node", "Atom"]);
+  expect(node(argsNode.children[3]).padding).toBe(0);
+});
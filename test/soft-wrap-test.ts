@@ -0,0 +1,97 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { isSoftNewline, softWrap, sourceLineNumbers } from "../src/soft-wrap";
+import { LayoutTree, WithMeasurements, newline, node, nodePaths, settings, spacer } from "./layout-tree-utils";
+
+type Tree = LayoutTree<WithMeasurements>;
+
+function textAtom(text: string): Tree {
+  return { type: "Atom", text, rect: { left: 0, right: 10 * text.length, top: 0, bottom: 10 } };
+}
+
+/**
+ * Flatten `tree` into a string, writing `Newline`s as `"\n"`, each
+ * `Spacer` as the number of characters it is wide, and the children
+ * of each `Node` between parentheses.
+ */
+function show(tree: Tree): string {
+  switch(tree.type) {
+    case "Newline": return "\n";
+    case "Atom": return tree.text;
+    case "Spacer": return " ".repeat(tree.width / 10);
+    case "Node": return "(" + tree.children.map(show).join("") + ")";
+  }
+}
+
+function countNodes(tree: Tree): number {
+  return tree.type === "Node"
+    ? 1 + tree.children.map(countNodes).reduce((a, b) => a + b, 0)
+    : 0;
+}
+
+// f(aaa, bbb, g(ccc, ddd))
+const tree = node([
+  textAtom("f("),
+  node([textAtom("aaa,")], 0),
+  spacer(10),
+  node([textAtom("bbb,")], 0),
+  spacer(10),
+  node([textAtom("g("), node([textAtom("ccc,")], 0), spacer(10), node([textAtom("ddd")], 0), textAtom(")")], 0),
+  textAtom(")"),
+], 0);
+
+test("softWrap leaves lines which fit unchanged", () => {
+  expect(softWrap(tree, 1000)).toBe(tree);
+});
+
+test("softWrap breaks the outermost Node first, and indents continuation lines", () => {
+  const wrapped = softWrap(tree, 180);
+  expect(show(wrapped)).toBe("(f((aaa,) (bbb,) \n  (g((ccc,) (ddd)))))");
+  expect(countNodes(wrapped)).toBe(countNodes(tree));
+});
+
+test("softWrap breaks inner Nodes when the outer breaks aren't enough", () => {
+  const wrapped = softWrap(tree, 80);
+  expect(show(wrapped)).toBe("(f((aaa,) \n  (bbb,) \n  (g(\n  (ccc,) \n  (ddd)))))");
+  expect(countNodes(wrapped)).toBe(countNodes(tree));
+});
+
+test("sourceLineNumbers maps the lines of a wrapped tree to the lines of the input", () => {
+  const twoLines = node([...(tree.type === "Node" ? tree.children : []), newline(), textAtom("x")], 0);
+  const wrapped = softWrap(twoLines, 80);
+  expect(sourceLineNumbers(twoLines)).toEqual([0, 1]);
+  expect(sourceLineNumbers(wrapped)).toEqual([0, 0, 0, 0, 0, 1]);
+});
+
+test("isSoftNewline tells inserted Newlines from those of the input", () => {
+  const newlines: Tree[] = [];
+  const collect = (t: Tree) => t.type === "Node" ? t.children.forEach(collect) : t.type === "Newline" && newlines.push(t);
+  collect(softWrap(node([tree, newline()], 0), 180));
+  expect(newlines.map(isSoftNewline)).toEqual([true, false]);
+});
+
+const SETTINGS = settings(4, 120);
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s", name => {
+  const result = constructAlgoByName(name)(SETTINGS[name]).layout(tree);
+
+  test("wraps lines which are wider than maxWidth", () => {
+    const fragments = result.fragmentsInfo();
+    expect(fragments.map(f => f.text)).toEqual(["f(", "aaa,", "bbb,", "g(", "ccc,", "ddd", ")", ")"]);
+    expect(Math.max(...fragments.map(f => f.lineNo))).toBeGreaterThan(0);
+    expect(result.linesInfo().length).toBe(Math.max(...fragments.map(f => f.lineNo)) + 1);
+  });
+
+  test("places every fragment and line on the first line of the input", () => {
+    expect(result.fragmentsInfo().map(f => f.sourceLineNo)).toEqual(Array(8).fill(0));
+    expect(result.linesInfo().every(l => l.sourceLineNo === 0)).toBe(true);
+  });
+
+  test("reports the paths of Nodes in the unwrapped tree", () => {
+    const paths = result.nodeOutlines().map(o => o.path);
+    const expected = nodePaths(tree);
+    for(const path of paths) {
+      expect(expected).toContainEqual(path);
+    }
+  });
+});
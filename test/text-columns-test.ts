@@ -0,0 +1,86 @@
+import { describe, expect, test } from "@jest/globals";
+import { LayoutTree, WithMeasurements, measureLayoutTree } from "../src/layout-tree";
+import { advanceColumn, charColumns, expandSpacerText } from "../src/text-columns";
+
+test("charColumns counts wide and zero-width characters", () => {
+  expect(charColumns("a".codePointAt(0)!)).toBe(1);
+  expect(charColumns("日".codePointAt(0)!)).toBe(2);
+  expect(charColumns("한".codePointAt(0)!)).toBe(2);
+  expect(charColumns("Ａ".codePointAt(0)!)).toBe(2);
+  expect(charColumns(0x0301)).toBe(0); // Combining acute accent
+  expect(charColumns(0x200b)).toBe(0); // Zero-width space
+});
+
+describe("advanceColumn", () => {
+  test("advances tabs to the next tab stop", () => {
+    expect(advanceColumn("\t", 0, 4)).toBe(4);
+    expect(advanceColumn("\t", 3, 4)).toBe(4);
+    expect(advanceColumn("\t", 4, 4)).toBe(8);
+    expect(advanceColumn("ab\tc", 0, 4)).toBe(5);
+    expect(advanceColumn("\t", 0)).toBe(8);
+  });
+
+  test("counts wide characters as two columns", () => {
+    expect(advanceColumn("日本\t", 0, 8)).toBe(8);
+    expect(advanceColumn("日本語", 1, 8)).toBe(7);
+    expect(advanceColumn("é", 0)).toBe(1);
+  });
+
+  test("returns to column 0 after a newline", () => {
+    expect(advanceColumn("abc\nd", 5)).toBe(1);
+  });
+});
+
+test("expandSpacerText replaces each character with its columns", () => {
+  expect(expandSpacerText("  ", 0, 4)).toBe("  ");
+  expect(expandSpacerText("\t", 1, 4)).toBe("   ");
+  expect(expandSpacerText("\t\t", 0, 4)).toBe("        ");
+  expect(expandSpacerText(" \t", 0, 4)).toBe("    ");
+  expect(expandSpacerText("\u3000", 0)).toBe("  ");
+  expect(expandSpacerText("\u200b ", 0)).toBe(" ");
+});
+
+describe("measureLayoutTree", () => {
+  const measure = (text: string) => ({ left: 0, right: 10 * text.length, top: 0, bottom: 10 });
+
+  const spacerWidths = (tree: LayoutTree, tabWidth?: number): number[] => {
+    let out: number[] = [];
+    const go = (tree: LayoutTree<WithMeasurements>) => {
+      if(tree.type === "Spacer") {
+        out.push(tree.width);
+      } else if(tree.type === "Node") {
+        tree.children.forEach(go);
+      }
+    };
+    go(measureLayoutTree(tree, measure, { tabWidth }));
+    return out;
+  };
+
+  test("expands tabs relative to the start of the line", () => {
+    const tree: LayoutTree = {
+      type: "Node",
+      padding: 0,
+      children: [
+        { type: "Spacer", text: "\t" },
+        { type: "Atom", text: "ab" },
+        { type: "Node", padding: 0, children: [{ type: "Spacer", text: "\t" }] },
+        { type: "Newline" },
+        { type: "Spacer", text: "\t\t" },
+      ]
+    };
+    expect(spacerWidths(tree, 4)).toEqual([40, 20, 80]);
+    expect(spacerWidths(tree)).toEqual([80, 60, 160]);
+  });
+
+  test("counts the columns of wide characters before a tab", () => {
+    const tree: LayoutTree = {
+      type: "Node",
+      padding: 0,
+      children: [
+        { type: "Atom", text: "// 日本語" },
+        { type: "Spacer", text: "\t" },
+      ]
+    };
+    expect(spacerWidths(tree, 4)).toEqual([30]);
+  });
+});
@@ -0,0 +1,98 @@
+import { expect, test } from "@jest/globals";
+import BlocksLayout, { BlocksLayoutSettings } from "../src/blocks-layout/layout";
+import { Path, pathOfRect } from "../src/polygon";
+import { toSVG } from "../src/render";
+import { TransitionRendering, correspondPaths, correspondPolygons, transition, transitionAt } from "../src/transition";
+import { LayoutTree, WithIds, WithMeasurements, atom, textAtom } from "./layout-tree-utils";
+
+type Tree = LayoutTree<WithIds<WithMeasurements>>;
+
+function nodeWithId(id: string, children: Tree[]): Tree {
+  return { type: "Node", children, padding: 2, id, sty: { fill: "white" } };
+}
+
+function layout(tree: Tree) {
+  return { result: new BlocksLayout(new BlocksLayoutSettings()).layout(tree), tree };
+}
+
+/**
+ * Check that every vertex of `original` appears in `resampled`, and
+ * that every vertex of `resampled` lies on an edge of `original`.
+ */
+function expectSameShape(resampled: Path, original: Path) {
+  for(const p of original) {
+    expect(resampled).toContainEqual(p);
+  }
+  for(const p of resampled) {
+    const onEdge = original.some((a, i) => {
+      const b = original[(i + 1) % original.length];
+      const cross = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+      return Math.abs(cross) < 1e-9
+        && p.x >= Math.min(a.x, b.x) && p.x <= Math.max(a.x, b.x)
+        && p.y >= Math.min(a.y, b.y) && p.y <= Math.max(a.y, b.y);
+    });
+    expect(onEdge).toBe(true);
+  }
+}
+
+test("correspondPaths resamples paths to the same number of vertices", () => {
+  const rect = pathOfRect({ left: 0, top: 0, right: 10, bottom: 10 });
+  const ell: Path = [
+    { x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 },
+    { x: 10, y: 10 }, { x: 10, y: 20 }, { x: 0, y: 20 },
+  ];
+  const [a, b] = correspondPaths(rect, ell);
+
+  expect(a.length).toBe(b.length);
+  expect(a.length).toBeGreaterThanOrEqual(ell.length);
+  expectSameShape(a, rect);
+  expectSameShape(b, ell);
+  // Both paths start at their top left corners.
+  expect(a[0]).toEqual({ x: 0, y: 0 });
+  expect(b[0]).toEqual({ x: 0, y: 0 });
+});
+
+test("correspondPolygons grows unpaired paths out of a point", () => {
+  const one = [pathOfRect({ left: 0, top: 0, right: 10, bottom: 10 })];
+  const two = [...one, pathOfRect({ left: 20, top: 0, right: 30, bottom: 10 })];
+  const [a, b] = correspondPolygons(one, two);
+
+  expect(a.length).toBe(2);
+  expect(a[1].length).toBe(b[1].length);
+  expect(new Set(a[1].map(p => `${p.x},${p.y}`))).toEqual(new Set(["25,5"]));
+});
+
+test("Nodes are paired by id and fragments by text", () => {
+  const from = layout(nodeWithId("outer", [textAtom("a"), nodeWithId("inner", [textAtom("b")])]));
+  const to = layout(nodeWithId("outer", [nodeWithId("inner", [textAtom("b")]), textAtom("c")]));
+  const tr = transition(from, to);
+
+  const inner = tr.outlines.find(o => o.id === "inner")!;
+  expect(inner.fromPath).toEqual([1]);
+  expect(inner.toPath).toEqual([0]);
+  expect(tr.fragments.map(f => [f.text, f.from !== null, f.to !== null])).toEqual([
+    ["a", true, false],
+    ["b", true, true],
+    ["c", false, true],
+  ]);
+
+  // The ends of the transition are the two layouts.
+  const start = transitionAt(tr, 0);
+  const end = transitionAt(tr, 1);
+  const b = tr.fragments.findIndex(f => f.text === "b");
+  expect(start.fragments[b].rect).toEqual(from.result.fragmentsInfo()[1].rect);
+  expect(end.fragments[b].rect).toEqual(to.result.fragmentsInfo()[0].rect);
+  expect(end.fragments.find(f => f.text === "a")!.opacity).toBe(0);
+  const innerAtEnd = end.outlines.find(o => o.id === "inner")!.outline;
+  expect(innerAtEnd.length).toBe(1);
+  expectSameShape(innerAtEnd[0], to.result.outlineOf([0])![0]);
+});
+
+test("TransitionRendering animates outlines and fragments with SMIL", () => {
+  const from = layout(nodeWithId("outer", [atom(10, 10)]));
+  const to = layout(nodeWithId("outer", [atom(20, 10)]));
+  const svg = toSVG(new TransitionRendering(transition(from, to), 0.5));
+
+  expect(svg).toMatch(/<path d="[^"]*" fill="white" data-node-id="outer"><animate attributeName="d" from="[^"]*" to="[^"]*" dur="0.5s" fill="freeze" \/><\/path>/);
+  expect(svg).toContain("<animate attributeName=\"x\" from=\"2\" to=\"2\" dur=\"0.5s\" fill=\"freeze\" />");
+});
@@ -0,0 +1,129 @@
+import { expect, test } from "@jest/globals";
+import { LayoutTree, Node, WithStyleRefs } from "../src/layout-tree";
+import { DEFAULT_NODE_PADDING, SyntaxNode, SyntaxTree, fromTreeSitter } from "../src/tree-sitter";
+
+function leaf(type: string, text: string = type): SyntaxNode {
+  return { type, text, children: [] };
+}
+
+function syntaxNode(type: string, text: string, children: SyntaxNode[]): SyntaxNode {
+  return { type, text, children };
+}
+
+// The syntax tree of:
+//
+//   f(x,
+//     "a b")
+const SOURCE = "f(x,\n  \"a b\")\n";
+const TREE: SyntaxTree = {
+  rootNode: syntaxNode("program", SOURCE.trimEnd(), [
+    syntaxNode("call", SOURCE.trimEnd(), [
+      leaf("identifier", "f"),
+      syntaxNode("arguments", "(x,\n  \"a b\")", [
+        leaf("("),
+        leaf("identifier", "x"),
+        leaf(","),
+        syntaxNode("string", "\"a b\"", [leaf("\""), leaf("string_content", "a b"), leaf("\"")]),
+        leaf(")"),
+      ]),
+    ]),
+  ]),
+};
+
+function textOf(tree: LayoutTree<WithStyleRefs>): string {
+  switch(tree.type) {
+    case "Newline": return "\n";
+    case "Atom":
+    case "Spacer": return tree.text;
+    case "Node": return tree.children.map(textOf).join("");
+  }
+}
+
+function atoms(tree: LayoutTree<WithStyleRefs>): string[] {
+  switch(tree.type) {
+    case "Newline":
+    case "Spacer": return [];
+    case "Atom": return [tree.text];
+    case "Node": return tree.children.flatMap(atoms);
+  }
+}
+
+function assertNode(tree: LayoutTree<WithStyleRefs>): asserts tree is Node<WithStyleRefs> {
+  expect(tree.type).toBe("Node");
+}
+
+test("fromTreeSitter keeps the text of the source", () => {
+  expect(textOf(fromTreeSitter(TREE, SOURCE))).toBe(SOURCE.trimEnd());
+});
+
+test("fromTreeSitter puts indentation in Spacers outside of Nodes", () => {
+  const tree = fromTreeSitter(TREE, SOURCE);
+  assertNode(tree);
+  const call = tree.children[0];
+  assertNode(call);
+  const args = call.children[1];
+  assertNode(args);
+
+  expect(args.children.map(child => child.type)).toEqual(["Atom", "Atom", "Atom", "Newline", "Spacer", "Node", "Atom"]);
+  expect(args.children[4]).toEqual({ type: "Spacer", text: "  " });
+  expect(args.padding).toBe(DEFAULT_NODE_PADDING);
+});
+
+test("fromTreeSitter applies the rule of each syntax node type", () => {
+  const tree = fromTreeSitter(TREE, SOURCE, {
+    types: {
+      "call": { wrap: false },
+      "arguments": { padding: 2, styleRef: "args" },
+      "string": { collapse: true, styleRef: "string" },
+    },
+    default: { padding: 1 },
+  });
+
+  assertNode(tree);
+  expect(tree.padding).toBe(1);
+  expect(tree.children.map(child => child.type)).toEqual(["Atom", "Node"]);
+
+  const args = tree.children[1];
+  assertNode(args);
+  expect(args.padding).toBe(2);
+  expect(args.styleRef).toBe("args");
+
+  const str = args.children[5];
+  assertNode(str);
+  expect(str.styleRef).toBe("string");
+  expect(atoms(str)).toEqual(["\"a b\""]);
+});
+
+test("fromTreeSitter splits multi-line leaves into lines", () => {
+  const source = "/* a\n   b */";
+  const tree = fromTreeSitter({ rootNode: syntaxNode("program", source, [leaf("comment", source)]) }, source);
+  assertNode(tree);
+  expect(tree.children).toEqual([
+    { type: "Atom", text: "/* a" },
+    { type: "Newline" },
+    { type: "Spacer", text: "   " },
+    { type: "Atom", text: "b */" },
+  ]);
+});
+
+test("fromTreeSitter finds syntax nodes by their start index", () => {
+  const source = "a  a";
+  const first = { ...leaf("identifier", "a"), startIndex: 0 };
+  const second = { ...leaf("identifier", "a"), startIndex: 3 };
+  const tree = fromTreeSitter({ rootNode: { ...syntaxNode("program", source, [first, second]), startIndex: 0 } }, source);
+  assertNode(tree);
+  expect(tree.children).toEqual([
+    { type: "Atom", text: "a" },
+    { type: "Spacer", text: "  " },
+    { type: "Atom", text: "a" },
+  ]);
+});
+
+test("fromTreeSitter rejects syntax trees which skip source text", () => {
+  const source = "a b c";
+  const skipping = syntaxNode("program", source, [leaf("a"), leaf("c")]);
+  expect(() => fromTreeSitter({ rootNode: skipping }, source)).toThrow(`The source text " b " before a syntax node isn't whitespace`);
+
+  const behind = syntaxNode("program", source, [leaf("a"), { ...leaf("b"), startIndex: 0 }]);
+  expect(() => fromTreeSitter({ rootNode: behind }, source)).toThrow();
+});
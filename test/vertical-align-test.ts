@@ -0,0 +1,70 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { VerticalAlign, alignmentOffset } from "../src/vertical-align";
+import { FragmentInfo, LayoutTree, WithMeasurements, newline, node, settings } from "./layout-tree-utils";
+
+/**
+ * An atom which extends `height - 2` above its baseline, and 2 below.
+ */
+function tallAtom(text: string, height: number): LayoutTree<WithMeasurements> {
+  return { type: "Atom", text, rect: { left: 0, right: 10, top: 2 - height, bottom: 2 } };
+}
+
+function tree(verticalAlign?: VerticalAlign): LayoutTree<WithMeasurements> {
+  const aligned: LayoutTree<WithMeasurements> = { type: "Node", padding: 0, children: [tallAtom("b", 40)] };
+  if(verticalAlign !== undefined) {
+    aligned.verticalAlign = verticalAlign;
+  }
+  return node([
+    tallAtom("a", 10), aligned, tallAtom("c", 10), newline(),
+    tallAtom("d", 10),
+  ], 2);
+}
+
+const SETTINGS = settings(4);
+
+test("alignmentOffset aligns one extent with another", () => {
+  const reference = { top: -10, bottom: 2 };
+  const extent = { top: -38, bottom: 2 };
+  expect(alignmentOffset("top", extent, reference)).toBe(28);
+  expect(alignmentOffset("middle", extent, reference)).toBe(14);
+  expect(alignmentOffset("bottom", extent, reference)).toBe(0);
+  expect(alignmentOffset("baseline", extent, reference)).toBe(0);
+});
+
+describe.each(Object.keys(SETTINGS) as AlgorithmName[])("%s", name => {
+  const fragments = (verticalAlign?: VerticalAlign): FragmentInfo[] => {
+    const algo = constructAlgoByName(name)(SETTINGS[name]);
+    return algo.layout(tree(verticalAlign)).fragmentsInfo();
+  };
+
+  const byText = (frags: FragmentInfo[], text: string) => frags.find(frag => frag.text === text)!;
+
+  test("aligns the tops of a taller Node and its siblings", () => {
+    const frags = fragments("top");
+    expect(byText(frags, "b").rect.top).toBeCloseTo(byText(frags, "a").rect.top);
+  });
+
+  test("aligns the centers of a taller Node and its siblings", () => {
+    const frags = fragments("middle");
+    const center = (frag: FragmentInfo) => (frag.rect.top + frag.rect.bottom) / 2;
+    expect(center(byText(frags, "b"))).toBeCloseTo(center(byText(frags, "a")));
+  });
+
+  test("aligns the bottoms of a taller Node and its siblings", () => {
+    const frags = fragments("bottom");
+    expect(byText(frags, "b").rect.bottom).toBeCloseTo(byText(frags, "a").rect.bottom);
+  });
+
+  test("reports the baseline of each moved fragment", () => {
+    for(const align of ["top", "middle", "bottom"] as VerticalAlign[]) {
+      for(const frag of fragments(align)) {
+        expect(frag.rect.bottom - frag.baseline).toBeCloseTo(2);
+      }
+    }
+  });
+
+  test("doesn't move fragments aligned by their baselines", () => {
+    expect(fragments("baseline")).toEqual(fragments());
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "@jest/globals";
+import { AlgorithmName, constructAlgoByName } from "../src";
+import { BlocksLayoutSettings } from "../src/blocks-layout/layout";
+import { DrawElement, Svg, TextRendering, renderTo } from "../src/render";
+import { WritingDirection, logicalPoint, physicalPoint, physicalRect } from "../src/writing-direction";
+import { LayoutTree, WithMeasurements, newline, node, settings, textAtom } from "./layout-tree-utils";
+
+const tree = node([
+  textAtom("ab"), node([textAtom("c")], 3), newline(),
+  node([textAtom("de"), textAtom("f")], 2),
+], 2);
+
+class RecordingTarget extends Svg {
+  recorded(): DrawElement[] {
+    return this.elements;
+  }
+}
+
+test("logicalPoint is the inverse of physicalPoint", () => {
+  for(const dir of ["LTR", "RTL", "TTB"] as WritingDirection[]) {
+    expect(logicalPoint(physicalPoint({ x: 3, y: 5 }, dir), dir)).toEqual({ x: 3, y: 5 });
+  }
+});
+
+describe.each(Object.keys(settings(4, undefined, "LTR")) as AlgorithmName[])("%s", name => {
+  const ltr = constructAlgoByName(name)(settings(4, undefined, "LTR")[name]).layout(tree);
+  const rtl = constructAlgoByName(name)(settings(4, undefined, "RTL")[name]).layout(tree);
+  const ttb = constructAlgoByName(name)(settings(4, undefined, "TTB")[name]).layout(tree);
+
+  test("RTL layouts are mirror images of LTR layouts", () => {
+    expect(rtl.fragmentsInfo()).toEqual(ltr.fragmentsInfo().map(f => ({ ...f, rect: physicalRect(f.rect, "RTL") })));
+    expect(rtl.linesInfo()).toEqual(ltr.linesInfo());
+
+    // Fragments advance leftward.
+    const [ab, c] = rtl.fragmentsInfo();
+    expect(c.rect.right).toBeLessThanOrEqual(ab.rect.left);
+
+    for(const { path, outline } of ltr.nodeOutlines()) {
+      const inside = outline[0][0];
+      expect(rtl.nodeAt({ x: -inside.x + 0.5, y: inside.y + 0.5 })).toEqual(ltr.nodeAt({ x: inside.x - 0.5, y: inside.y + 0.5 }));
+      expect(rtl.outlineOf(path)).not.toBeNull();
+    }
+  });
+
+  test("TTB layouts advance downward, and stack lines leftward", () => {
+    const [ab, c, de] = ttb.fragmentsInfo();
+    expect(c.rect.top).toBeGreaterThanOrEqual(ab.rect.bottom);
+    expect(de.rect.right).toBeLessThanOrEqual(ab.rect.left);
+
+    const lines = ttb.linesInfo();
+    expect(lines[1].bottom).toBeLessThanOrEqual(lines[0].top);
+  });
+});
+
+test("Border sides refer to physical sides in every direction", () => {
+  const bordered: LayoutTree<WithMeasurements> = {
+    type: "Node",
+    children: [textAtom("ab")],
+    padding: 2,
+    sty: { borders: [{ borderTop: false, borderRight: false, borderBottom: false, borderLeft: true, borderStroke: "blue" }] },
+  };
+
+  for(const dir of ["LTR", "RTL", "TTB"] as WritingDirection[]) {
+    const result = constructAlgoByName("Blocks")(new BlocksLayoutSettings(undefined, dir)).layout(bordered);
+    const bbox = result.boundingBox()!;
+    const border = renderTo(new RecordingTarget(), result)
+      .recorded()
+      .find(e => e.type === "path" && e.stroke === "blue");
+    const lines = border?.type === "path" ? border.commands.filter(cmd => cmd.type === "LineTo") : [];
+    expect(lines.length).toBeGreaterThan(0);
+    for(const cmd of lines) {
+      expect(cmd.type === "LineTo" && cmd.x).toBe(bbox.left);
+    }
+  }
+});
+
+test("Text is rotated in the TTB direction", () => {
+  const result = constructAlgoByName("Blocks")(new BlocksLayoutSettings(undefined, "TTB")).layout(tree);
+  const svg = renderTo(new Svg(), new TextRendering(result, tree, { direction: "TTB" })).build();
+  const frag = result.fragmentsInfo()[0];
+  expect(svg).toContain(`transform="rotate(90 ${frag.rect.right - 10} ${frag.rect.top})"`);
+});
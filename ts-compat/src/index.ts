@@ -56,6 +56,7 @@ export function parse(src: string, language: any, settings: Partial<ParseSetting
 
   let cursor = ast.walk();
   let lastPosition: Point = cursor.startPosition;
+  const srcLines = src.split("\n");
 
   const emitWhitespace = (begin: Point, end: Point): rb.LayoutTree<rb.WithText>[] => {
     if(begin.row === end.row) {
@@ -71,7 +72,11 @@ export function parse(src: string, language: any, settings: Partial<ParseSetting
         out.push({ type: "Newline" });
       }
       if(end.column > 0 && theSettings.useSpacers) {
-        out.push({ type: "Spacer", text: nSpaces(end.column, "_") });
+        // Note: The indentation is copied from the source (rather
+        // than counted), so that `measureLayoutTree` can expand its
+        // tabs. Tree-sitter's columns are in bytes, but indentation
+        // is ASCII, so they're also indices into the line.
+        out.push({ type: "Spacer", text: srcLines[end.row].slice(0, end.column) });
       }
       return out;
     }
@@ -80,7 +85,7 @@ export function parse(src: string, language: any, settings: Partial<ParseSetting
   const pushLine = (text: string, out: rb.LayoutTree<rb.WithText>[]) => {
     let i = 0;
     for(; i < text.length; ++i) {
-      if(text[i] !== " ") {
+      if(text[i] !== " " && text[i] !== "\t") {
         break;
       }
     }